@@ -0,0 +1,368 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAccount, useChainId, usePublicClient, useWalletClient } from "wagmi";
+import { formatUnits } from "ethers";
+
+import { networks } from "@/config/wagmi";
+import { shortenAddress } from "@/lib/utils";
+import { decodeError, type DecodedError } from "@/lib/errors";
+import { publicClientToProvider, walletClientToSigner } from "@/config/adapter";
+import { ErrorAlert } from "@/components/error-alert";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+import { getApprovalSpenders, getWalletAllowances, type WalletAllowance } from "@/lib/allowances";
+import { getAmmDeploymentBlock } from "@/lib/amm";
+import { revokeApproval, revokeApprovals } from "@/lib/approvals";
+
+const allowanceKey = (item: WalletAllowance) => `${item.token.address.toLowerCase()}:${item.spender.address.toLowerCase()}`;
+
+const formatApprovalDate = (item: WalletAllowance) => {
+  if (!item.lastApproval) return "—";
+  if (item.lastApproval.timestamp === null) return `Block ${item.lastApproval.blockNumber.toLocaleString()}`;
+  return new Date(item.lastApproval.timestamp * 1000).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export default function ApprovalsPage() {
+  const { isConnected, address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { pools: poolEvents, loading: indexLoading } = useAmmIndex();
+
+  const [allowances, setAllowances] = useState<WalletAllowance[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [scanProgress, setScanProgress] = useState<number | null>(null);
+  const [error, setError] = useState<DecodedError | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Keys currently being revoked
+  const [revoking, setRevoking] = useState<Set<string>>(new Set());
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const spenders = useMemo(() => getApprovalSpenders(), []);
+  const activeNetwork = useMemo(
+    () => (chainId ? networks.find((item) => item.id === chainId) : undefined),
+    [chainId],
+  );
+  // Every token with an indexed pool is read live even if its Approval log falls outside the scan
+  const poolTokens = useMemo(
+    () => [...new Set(poolEvents.flatMap((event) => [event.token0, event.token1]))],
+    [poolEvents],
+  );
+
+  // Rebuild allowances from Approval logs plus live reads
+  useEffect(() => {
+    if (!isConnected || !address || !publicClient || indexLoading) return;
+    const provider = publicClientToProvider(publicClient);
+    if (!provider) return;
+
+    let mounted = true;
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const found = await getWalletAllowances(address, spenders, provider, {
+          fromBlock: getAmmDeploymentBlock(chainId),
+          extraTokens: poolTokens,
+          onProgress: (scanned, head) => {
+            if (mounted) setScanProgress(head > 0 ? scanned / head : 1);
+          },
+        });
+        if (!mounted) return;
+        setAllowances(found);
+        setSelected(new Set());
+      } catch (err) {
+        console.error("Error loading approvals:", err);
+        if (mounted) setError(decodeError(err));
+      } finally {
+        if (mounted) {
+          setLoading(false);
+          setScanProgress(null);
+        }
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [isConnected, address, chainId, publicClient, spenders, poolTokens, indexLoading, refreshKey]);
+
+  const markRevoked = useCallback((keys: string[]) => {
+    setAllowances((current) => current.filter((item) => !keys.includes(allowanceKey(item))));
+    setSelected((current) => new Set([...current].filter((key) => !keys.includes(key))));
+  }, []);
+
+  const handleRevoke = useCallback(
+    async (item: WalletAllowance) => {
+      if (!walletClient) return;
+      const key = allowanceKey(item);
+      try {
+        setRevoking((current) => new Set(current).add(key));
+        setError(null);
+        setSuccess(null);
+        const signer = await walletClientToSigner(walletClient);
+        if (!signer) throw new Error("Failed to get signer");
+
+        await revokeApproval(signer, item.token.address, item.spender.address);
+        markRevoked([key]);
+        setSuccess(`Revoked ${item.spender.label}'s ${item.token.symbol} allowance.`);
+      } catch (err) {
+        console.error("Revoke error:", err);
+        setError(decodeError(err, { symbol: item.token.symbol, decimals: item.token.decimals }));
+      } finally {
+        setRevoking((current) => {
+          const next = new Set(current);
+          next.delete(key);
+          return next;
+        });
+      }
+    },
+    [walletClient, markRevoked],
+  );
+
+  const handleRevokeSelected = useCallback(async () => {
+    if (!walletClient) return;
+    const items = allowances.filter((item) => selected.has(allowanceKey(item)));
+    if (items.length === 0) return;
+
+    let revoked = 0;
+    try {
+      setRevoking(new Set(items.map(allowanceKey)));
+      setError(null);
+      setSuccess(null);
+      const signer = await walletClientToSigner(walletClient);
+      if (!signer) throw new Error("Failed to get signer");
+
+      // Wallets sign one approve(0) per allowance; each is removed as soon as it confirms
+      await revokeApprovals(
+        signer,
+        items.map((item) => ({ token: item.token.address, spender: item.spender.address })),
+        (_, index) => {
+          revoked += 1;
+          markRevoked([allowanceKey(items[index])]);
+        },
+      );
+      setSuccess(`Revoked ${items.length} allowance${items.length !== 1 ? "s" : ""}.`);
+    } catch (err) {
+      console.error("Batch revoke error:", err);
+      if (revoked > 0) setSuccess(`Revoked ${revoked} of ${items.length} allowances before stopping.`);
+      setError(decodeError(err));
+    } finally {
+      setRevoking(new Set());
+    }
+  }, [walletClient, allowances, selected, markRevoked]);
+
+  const toggleSelected = (key: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const allSelected = allowances.length > 0 && allowances.every((item) => selected.has(allowanceKey(item)));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(allowances.map(allowanceKey)));
+  const unlimitedCount = allowances.filter((item) => item.unlimited).length;
+  const busy = revoking.size > 0;
+
+  return (
+    <main className="mx-auto flex w-full max-w-6xl flex-1 flex-col gap-12 px-6 py-14">
+      <header className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight text-zinc-900 dark:text-zinc-50">Token Approvals</h1>
+          <p className="text-zinc-500 dark:text-zinc-400">
+            Audit the allowances your wallet has granted to QuantumDEX contracts and revoke the ones you no longer need.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs font-semibold text-zinc-500 dark:text-zinc-400">
+          <span className="rounded-full border border-zinc-200 px-3 py-1 dark:border-zinc-700">
+            Wallet: {isConnected && address ? shortenAddress(address, 5) : "—"}
+          </span>
+          <span className="rounded-full border border-zinc-200 px-3 py-1 dark:border-zinc-700">
+            Active Network: {activeNetwork?.name ?? "—"}
+          </span>
+          <span className="rounded-full border border-zinc-200 px-3 py-1 dark:border-zinc-700">
+            Spenders: {spenders.length}
+          </span>
+        </div>
+      </header>
+
+      <section className="grid gap-4 sm:grid-cols-3">
+        <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Active Approvals</p>
+          <p className="mt-3 text-3xl font-semibold text-zinc-900 dark:text-zinc-50">
+            {loading ? "..." : isConnected ? allowances.length : "—"}
+          </p>
+          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">Non-zero allowances read on-chain</p>
+        </div>
+        <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Unlimited</p>
+          <p className={`mt-3 text-3xl font-semibold ${unlimitedCount > 0 ? "text-amber-500" : "text-zinc-900 dark:text-zinc-50"}`}>
+            {loading ? "..." : isConnected ? unlimitedCount : "—"}
+          </p>
+          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">Spenders that can move your whole balance</p>
+        </div>
+        <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Selected</p>
+          <p className="mt-3 text-3xl font-semibold text-zinc-900 dark:text-zinc-50">{isConnected ? selected.size : "—"}</p>
+          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">Each revoke is a separate transaction</p>
+        </div>
+      </section>
+
+      <section className="rounded-3xl border border-zinc-200/60 bg-white/80 p-6 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">Allowances</h2>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              Rebuilt from ERC20 Approval events and confirmed with live allowance reads.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setRefreshKey((key) => key + 1)}
+              disabled={!isConnected || loading || busy}
+              className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm font-semibold text-zinc-600 transition hover:border-emerald-400 hover:text-emerald-500 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300"
+            >
+              Refresh
+            </button>
+            <button
+              onClick={handleRevokeSelected}
+              disabled={!isConnected || selected.size === 0 || busy}
+              className="rounded-full bg-rose-500 px-4 py-1.5 text-sm font-semibold text-white shadow-lg shadow-rose-500/25 transition hover:bg-rose-600 disabled:bg-zinc-300 disabled:text-zinc-500 disabled:shadow-none"
+            >
+              {busy && selected.size > 0 ? "Revoking…" : `Revoke selected (${selected.size})`}
+            </button>
+          </div>
+        </div>
+
+        {error ? <ErrorAlert error={error} className="mt-4" /> : null}
+        {success ? (
+          <div className="mt-4 rounded-2xl border border-emerald-200 bg-emerald-50/70 p-4 text-sm text-emerald-700 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-200">
+            {success}
+          </div>
+        ) : null}
+
+        <div className="mt-6 overflow-hidden rounded-2xl border border-zinc-200/70 dark:border-zinc-800/70">
+          <table className="min-w-full divide-y divide-zinc-200/70 text-sm dark:divide-zinc-800/70">
+            <thead className="bg-zinc-50/80 dark:bg-zinc-900/70">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
+                <th className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    className="accent-emerald-500"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    disabled={allowances.length === 0 || busy}
+                    aria-label="Select all allowances"
+                  />
+                </th>
+                <th className="px-4 py-3">Token</th>
+                <th className="px-4 py-3">Spender</th>
+                <th className="px-4 py-3">Allowance</th>
+                <th className="px-4 py-3">Approved</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200/70 bg-white/60 dark:divide-zinc-800/70 dark:bg-zinc-950/40">
+              {!isConnected ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                    Connect a wallet to review its token approvals.
+                  </td>
+                </tr>
+              ) : spenders.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                    No spender contracts are configured for this network.
+                  </td>
+                </tr>
+              ) : loading || indexLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                    {scanProgress !== null
+                      ? `Scanning approval history… ${Math.floor(scanProgress * 100)}%`
+                      : "Loading approvals..."}
+                  </td>
+                </tr>
+              ) : allowances.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                    No active approvals. Your wallet has not left any allowance open to QuantumDEX contracts.
+                  </td>
+                </tr>
+              ) : (
+                allowances.map((item) => {
+                  const key = allowanceKey(item);
+                  return (
+                    <tr key={key} className="transition hover:bg-emerald-50 dark:hover:bg-emerald-500/10">
+                      <td className="px-4 py-4">
+                        <input
+                          type="checkbox"
+                          className="accent-emerald-500"
+                          checked={selected.has(key)}
+                          onChange={() => toggleSelected(key)}
+                          disabled={busy}
+                          aria-label={`Select ${item.token.symbol} allowance for ${item.spender.label}`}
+                        />
+                      </td>
+                      <td className="px-4 py-4">
+                        <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">{item.token.symbol}</p>
+                        <p className="font-mono text-xs text-zinc-500 dark:text-zinc-400">
+                          {shortenAddress(item.token.address, 4)}
+                        </p>
+                      </td>
+                      <td className="px-4 py-4">
+                        <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300">{item.spender.label}</p>
+                        <p className="font-mono text-xs text-zinc-500 dark:text-zinc-400">
+                          {shortenAddress(item.spender.address, 4)}
+                        </p>
+                      </td>
+                      <td className="px-4 py-4">
+                        {item.unlimited ? (
+                          <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700 dark:bg-amber-500/20 dark:text-amber-300">
+                            Unlimited
+                          </span>
+                        ) : (
+                          <span className="font-semibold text-zinc-900 dark:text-zinc-50">
+                            {formatUnits(item.allowance, item.token.decimals)} {item.token.symbol}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-4 text-xs text-zinc-500 dark:text-zinc-400">
+                        {item.lastApproval && activeNetwork?.blockExplorers?.default?.url ? (
+                          <a
+                            href={`${activeNetwork.blockExplorers.default.url}/tx/${item.lastApproval.transactionHash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-emerald-600 underline hover:text-emerald-700 dark:text-emerald-300"
+                          >
+                            {formatApprovalDate(item)}
+                          </a>
+                        ) : (
+                          formatApprovalDate(item)
+                        )}
+                      </td>
+                      <td className="px-4 py-4 text-right">
+                        <button
+                          onClick={() => handleRevoke(item)}
+                          disabled={busy}
+                          className="rounded-full border border-rose-200 px-3 py-1 text-xs font-semibold text-rose-600 transition hover:bg-rose-500 hover:text-white disabled:opacity-50 dark:border-rose-500/40 dark:text-rose-300"
+                        >
+                          {revoking.has(key) ? "Revoking…" : "Revoke"}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </main>
+  );
+}
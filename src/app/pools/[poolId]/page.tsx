@@ -11,10 +11,38 @@ import {
   getUserLiquidity, 
   addLiquidity, 
   removeLiquidity,
+  simulateAddLiquidity,
+  simulateRemoveLiquidity,
   AMM_CONTRACT_ADDRESS,
   type PoolInfo 
 } from "@/lib/amm";
+import { formatPercent, getLiquidityBurned, getLiquidityMinted, getPoolShare } from "@/lib/amm-math";
+import { appError, decodeError, inputError, type DecodedError } from "@/lib/errors";
 import { publicClientToProvider, walletClientToSigner } from "@/config/adapter";
+import { ErrorAlert } from "@/components/error-alert";
+import { SimulationPreview } from "@/components/simulation-preview";
+import { ApprovalModeSelector } from "@/components/approval-mode-selector";
+import { NetworkCost } from "@/components/network-cost";
+import { useApprovalGas } from "@/hooks/use-approval-gas";
+import { useSimulation } from "@/hooks/use-simulation";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { usePrices } from "@/hooks/use-price";
+import { formatUsd, getPairUsdValue, getTokenPrice } from "@/lib/price-oracle";
+import { usePoolAnalytics } from "@/hooks/use-pool-analytics";
+import { PoolAnalyticsPanel } from "@/components/pool-analytics-panel";
+import { PoolCharts } from "@/components/pool-charts";
+import { PoolActivityFeed } from "@/components/pool-activity-feed";
+import {
+  LP_TOKEN,
+  amountInputError,
+  formatTokenAmount,
+  toAmountInput,
+  tokenAmount,
+  tryParseTokenAmount,
+  type AmountToken,
+} from "@/lib/token-amount";
+import { getWethAddress, isWeth, unwrapEth, wrapEth } from "@/lib/weth";
+import { ensureApproval, supportsPermit, type ApprovalMode } from "@/lib/approvals";
 
 export default function PoolDetailsPage({ params }: { params: Promise<{ poolId: string }> }) {
   const { isConnected, address } = useAccount();
@@ -22,6 +50,7 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
   const [activeTab, setActiveTab] = useState<"add" | "remove">("add");
+  const [detailTab, setDetailTab] = useState<"analytics" | "activity">("analytics");
   const [token0Amount, setToken0Amount] = useState("");
   const [token1Amount, setToken1Amount] = useState("");
   const [liquidityToRemove, setLiquidityToRemove] = useState("");
@@ -29,9 +58,12 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
   const [userLpBalance, setUserLpBalance] = useState<bigint>(BigInt(0));
   const [loading, setLoading] = useState(true);
   const [txLoading, setTxLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<DecodedError | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [resolvedParams, setResolvedParams] = useState<{ poolId: string } | null>(null);
+  const [useNativeEth, setUseNativeEth] = useState(true);
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>("exact");
+  const [permitSupported, setPermitSupported] = useState<boolean | null>(null);
 
   // Resolve params promise
   useEffect(() => {
@@ -39,11 +71,49 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
   }, [params]);
 
   const poolId = resolvedParams ? decodeURIComponent(resolvedParams.poolId) : "";
+  // Side of the pool holding WETH, which can be paid and withdrawn as native ETH
+  const wethSide = poolInfo ? (isWeth(poolInfo.token0, chainId) ? 0 : isWeth(poolInfo.token1, chainId) ? 1 : null) : null;
+  const payWithEth = useNativeEth && wethSide !== null;
   const activeNetwork = useMemo(
     () => (chainId ? networks.find((item) => item.id === chainId) : undefined),
     [chainId],
   );
 
+  const token0Address = poolInfo?.token0;
+  const token1Address = poolInfo?.token1;
+  const poolTokenAddresses = useMemo(
+    () => (token0Address && token1Address ? [token0Address, token1Address] : null),
+    [token0Address, token1Address],
+  );
+  const poolTokens = useTokenMetadata(poolTokenAddresses);
+  const token0 = poolTokens?.[0] ?? null;
+  const token1 = poolTokens?.[1] ?? null;
+  const token0Label = token0?.symbol ?? "Token 0";
+  const token1Label = token1?.symbol ?? "Token 1";
+
+  // Typed amounts, parsed with each token's decimals; null while incomplete or invalid
+  const depositAmounts = useMemo(() => {
+    const amount0 = tryParseTokenAmount(token0Amount, token0);
+    const amount1 = tryParseTokenAmount(token1Amount, token1);
+    return amount0 && amount1 ? { amount0: amount0.raw, amount1: amount1.raw } : null;
+  }, [token0Amount, token1Amount, token0, token1]);
+  const liquidityAmount = useMemo(() => tryParseTokenAmount(liquidityToRemove, LP_TOKEN)?.raw ?? null, [liquidityToRemove]);
+
+  const { prices } = usePrices();
+  // USD value of pool reserves, or of a share of them
+  const valueOf = (amount0: bigint, amount1: bigint) =>
+    token0 && token1 && prices
+      ? getPairUsdValue(
+          tokenAmount(token0, amount0),
+          getTokenPrice(prices, token0.address, chainId),
+          tokenAmount(token1, amount1),
+          getTokenPrice(prices, token1.address, chainId),
+        )
+      : null;
+
+  const display = (token: AmountToken | null, raw: bigint, maxDecimals = 4) =>
+    token ? formatTokenAmount(tokenAmount(token, raw), { maxDecimals }) : "—";
+
   // Fetch pool data
   useEffect(() => {
     const fetchPoolData = async () => {
@@ -66,7 +136,7 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
         }
       } catch (err) {
         console.error("Error fetching pool:", err);
-        setError(err instanceof Error ? err.message : "Failed to fetch pool data");
+        setError(decodeError(err));
       } finally {
         setLoading(false);
       }
@@ -75,14 +145,40 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
     fetchPoolData();
   }, [publicClient, poolId, address]);
 
+  // Permits are only offered when both pool tokens accept them
+  useEffect(() => {
+    if (!publicClient || !poolInfo) return;
+    const provider = publicClientToProvider(publicClient);
+    if (!provider) return;
+
+    let mounted = true;
+    Promise.all([supportsPermit(poolInfo.token0, provider), supportsPermit(poolInfo.token1, provider)]).then(
+      (support) => {
+        if (!mounted) return;
+        const supported = support.every(Boolean);
+        setPermitSupported(supported);
+        if (!supported) setApprovalMode((mode) => (mode === "permit" ? "exact" : mode));
+      },
+    );
+    return () => {
+      mounted = false;
+    };
+  }, [publicClient, poolInfo]);
+
   const handleAddLiquidity = async () => {
     if (!isConnected || !walletClient || !address || !poolInfo || !AMM_CONTRACT_ADDRESS) {
-      setError("Please connect your wallet");
+      setError(appError("WALLET_NOT_CONNECTED"));
       return;
     }
 
     if (!token0Amount || !token1Amount) {
-      setError("Please enter amounts for both tokens");
+      setError(inputError("Please enter amounts for both tokens"));
+      return;
+    }
+    const invalidAmount =
+      (token0 ? amountInputError(token0Amount, token0) : null) ?? (token1 ? amountInputError(token1Amount, token1) : null);
+    if (invalidAmount || !depositAmounts) {
+      setError(inputError(invalidAmount ?? "Token details are still loading"));
       return;
     }
 
@@ -96,9 +192,16 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
         throw new Error("Failed to get signer");
       }
 
-      // Convert amounts to BigInt (assuming 18 decimals)
-      const amount0BigInt = BigInt(Math.floor(parseFloat(token0Amount) * 1e18));
-      const amount1BigInt = BigInt(Math.floor(parseFloat(token1Amount) * 1e18));
+      const { amount0: amount0BigInt, amount1: amount1BigInt } = depositAmounts;
+
+      // Wrap the WETH side from native ETH first; the AMM only moves ERC20 tokens
+      const weth = getWethAddress(chainId);
+      const wrapped = wethSide === 0 ? amount0BigInt : amount1BigInt;
+      if (payWithEth && weth) {
+        await wrapEth(wrapped, weth, signer);
+      }
+      await ensureApproval(approvalMode, signer, poolInfo.token0, AMM_CONTRACT_ADDRESS, amount0BigInt);
+      await ensureApproval(approvalMode, signer, poolInfo.token1, AMM_CONTRACT_ADDRESS, amount1BigInt);
 
       const result = await addLiquidity(
         poolId,
@@ -108,7 +211,15 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
         signer
       );
 
-      setSuccess(`Liquidity added successfully! Received ${result.liquidity.toString()} LP tokens.`);
+      // Return any ETH the pool ratio did not use
+      if (payWithEth && weth) {
+        const unused = wrapped - (wethSide === 0 ? result.amount0 : result.amount1);
+        if (unused > BigInt(0)) await unwrapEth(unused, weth, signer);
+      }
+
+      setSuccess(
+        `Liquidity added successfully! Deposited ${result.token0Amount.formatted} ${result.token0Amount.symbol} and ${result.token1Amount.formatted} ${result.token1Amount.symbol} for ${formatTokenAmount(tokenAmount(LP_TOKEN, result.liquidity))} LP tokens.`,
+      );
       
       // Reset form and refresh data
       setToken0Amount("");
@@ -126,7 +237,7 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
       }
     } catch (err) {
       console.error("Error adding liquidity:", err);
-      setError(err instanceof Error ? err.message : "Failed to add liquidity");
+      setError(decodeError(err));
     } finally {
       setTxLoading(false);
     }
@@ -134,17 +245,23 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
 
   const handleRemoveLiquidity = async () => {
     if (!isConnected || !walletClient || !address || !poolInfo || !AMM_CONTRACT_ADDRESS) {
-      setError("Please connect your wallet");
+      setError(appError("WALLET_NOT_CONNECTED"));
       return;
     }
 
     if (!liquidityToRemove) {
-      setError("Please enter amount to remove");
+      setError(inputError("Please enter amount to remove"));
+      return;
+    }
+
+    const invalidLiquidity = amountInputError(liquidityToRemove, LP_TOKEN);
+    if (invalidLiquidity || liquidityAmount === null) {
+      setError(inputError(invalidLiquidity ?? "Please enter amount to remove"));
       return;
     }
 
-    if (BigInt(Math.floor(parseFloat(liquidityToRemove) * 1e18)) > userLpBalance) {
-      setError("Insufficient LP balance");
+    if (liquidityAmount > userLpBalance) {
+      setError(appError("INSUFFICIENT_BALANCE", { message: "You do not hold that many LP tokens." }));
       return;
     }
 
@@ -158,16 +275,21 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
         throw new Error("Failed to get signer");
       }
 
-      const liquidityBigInt = BigInt(Math.floor(parseFloat(liquidityToRemove) * 1e18));
-
       const result = await removeLiquidity(
         poolId,
-        liquidityBigInt,
+        liquidityAmount,
         AMM_CONTRACT_ADDRESS,
         signer
       );
 
-      setSuccess(`Liquidity removed successfully! Received ${result.amount0.toString()} and ${result.amount1.toString()} tokens.`);
+      const weth = getWethAddress(chainId);
+      if (payWithEth && weth) {
+        await unwrapEth(wethSide === 0 ? result.amount0 : result.amount1, weth, signer);
+      }
+
+      setSuccess(
+        `Liquidity removed successfully! Received ${result.token0Amount.formatted} ${result.token0Amount.symbol} and ${result.token1Amount.formatted} ${result.token1Amount.symbol}.`,
+      );
       
       // Reset form and refresh data
       setLiquidityToRemove("");
@@ -184,48 +306,70 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
       }
     } catch (err) {
       console.error("Error removing liquidity:", err);
-      setError(err instanceof Error ? err.message : "Failed to remove liquidity");
+      setError(decodeError(err));
     } finally {
       setTxLoading(false);
     }
   };
 
-  // Calculate estimated LP tokens for add liquidity
-  const estimatedLpTokens = useMemo(() => {
-    if (!poolInfo || !token0Amount || !token1Amount) return null;
-    
-    try {
-      const amount0 = BigInt(Math.floor(parseFloat(token0Amount) * 1e18));
-      const amount1 = BigInt(Math.floor(parseFloat(token1Amount) * 1e18));
-      
-      // Simple calculation: min of (amount0 * totalSupply / reserve0, amount1 * totalSupply / reserve1)
-      const lp0 = (amount0 * poolInfo.totalSupply) / poolInfo.reserve0;
-      const lp1 = (amount1 * poolInfo.totalSupply) / poolInfo.reserve1;
-      const estimated = lp0 < lp1 ? lp0 : lp1;
-      
-      return (Number(estimated) / 1e18).toFixed(6);
-    } catch {
-      return null;
-    }
-  }, [poolInfo, token0Amount, token1Amount]);
+  // Calculate estimated LP tokens and pool share for add liquidity
+  const estimatedDeposit = useMemo(() => {
+    if (!poolInfo || !depositAmounts) return null;
+    const { liquidity } = getLiquidityMinted(poolInfo, depositAmounts.amount0, depositAmounts.amount1);
+    return {
+      lpTokens: formatTokenAmount(tokenAmount(LP_TOKEN, liquidity)),
+      share: formatPercent(getPoolShare(liquidity, poolInfo.totalSupply + liquidity), 4),
+    };
+  }, [poolInfo, depositAmounts]);
+
+  // Approvals the deposit still needs, with their gas
+  const approvalRequests = useMemo(() => {
+    if (!poolInfo || !depositAmounts) return null;
+    return [
+      { token: poolInfo.token0, amount: depositAmounts.amount0, symbol: token0Label },
+      { token: poolInfo.token1, amount: depositAmounts.amount1, symbol: token1Label },
+    ];
+  }, [poolInfo, depositAmounts, token0Label, token1Label]);
+  const approvalGas = useApprovalGas(approvalRequests, approvalMode, AMM_CONTRACT_ADDRESS);
+  const needsApproval = approvalGas.rows.length > 0;
+
+  // Dry-run the deposit so reverts and exact amounts show before signing
+  const runAddSimulation = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !address || !poolInfo || !depositAmounts || payWithEth) return null;
+    // Without the allowance the dry run would only report the missing approval
+    if (approvalGas.loading || needsApproval) return null;
+    const { amount0, amount1 } = depositAmounts;
+    return () => simulateAddLiquidity(poolId, amount0, amount1, address, AMM_CONTRACT_ADDRESS, provider);
+  }, [publicClient, address, poolInfo, poolId, depositAmounts, payWithEth, approvalGas.loading, needsApproval]);
+  const addSimulation = useSimulation(runAddSimulation);
+
+  const runRemoveSimulation = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !address || !poolInfo || liquidityAmount === null) return null;
+    return () => simulateRemoveLiquidity(poolId, liquidityAmount, address, AMM_CONTRACT_ADDRESS, provider);
+  }, [publicClient, address, poolInfo, poolId, liquidityAmount]);
+  const removeSimulation = useSimulation(runRemoveSimulation);
 
   // Calculate amounts to receive for remove liquidity
   const amountsToReceive = useMemo(() => {
-    if (!poolInfo || !liquidityToRemove) return null;
-    
-    try {
-      const liquidity = BigInt(Math.floor(parseFloat(liquidityToRemove) * 1e18));
-      const amount0 = (liquidity * poolInfo.reserve0) / poolInfo.totalSupply;
-      const amount1 = (liquidity * poolInfo.reserve1) / poolInfo.totalSupply;
-      
-      return {
-        amount0: (Number(amount0) / 1e18).toFixed(6),
-        amount1: (Number(amount1) / 1e18).toFixed(6),
-      };
-    } catch {
-      return null;
-    }
-  }, [poolInfo, liquidityToRemove]);
+    if (!poolInfo || liquidityAmount === null || !token0 || !token1) return null;
+    const { amount0, amount1 } = getLiquidityBurned(poolInfo, liquidityAmount);
+    return {
+      amount0: formatTokenAmount(tokenAmount(token0, amount0)),
+      amount1: formatTokenAmount(tokenAmount(token1, amount1)),
+    };
+  }, [poolInfo, liquidityAmount, token0, token1]);
+
+  const tvlUsd = poolInfo ? valueOf(poolInfo.reserve0, poolInfo.reserve1) : null;
+  const userShare = poolInfo ? getLiquidityBurned(poolInfo, userLpBalance) : null;
+  const positionUsd = userShare && userLpBalance > BigInt(0) ? valueOf(userShare.amount0, userShare.amount1) : null;
+
+  const analyticsPools = useMemo(
+    () => (poolInfo && token0 && token1 ? [{ pool: poolInfo, token0, token1 }] : null),
+    [poolInfo, token0, token1],
+  );
+  const dayStats = usePoolAnalytics(analyticsPools, "24h")?.get(poolId) ?? null;
 
   return (
     <main className="mx-auto flex w-full max-w-6xl flex-1 flex-col gap-10 px-6 py-14">
@@ -235,7 +379,9 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
         </Link>
         <div>
           <h1 className="text-3xl font-semibold tracking-tight text-zinc-900 dark:text-zinc-50">
-            {poolInfo ? `${shortenAddress(poolInfo.token0, 4)} / ${shortenAddress(poolInfo.token1, 4)}` : "Loading..."}
+            {poolInfo
+              ? `${token0?.symbol ?? shortenAddress(poolInfo.token0, 4)} / ${token1?.symbol ?? shortenAddress(poolInfo.token1, 4)}`
+              : "Loading..."}
           </h1>
           <p className="text-zinc-500 dark:text-zinc-400">
             Pool details, liquidity management, and trading analytics on {activeNetwork?.name ?? "Mainnet"}.
@@ -253,12 +399,18 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
             <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
               <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Total Value Locked</p>
               <p className="mt-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
-                ${((Number(poolInfo.reserve0) + Number(poolInfo.reserve1)) / 1e18).toFixed(2)}
+                {formatUsd(tvlUsd)}
+              </p>
+              <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                {display(token0, poolInfo.reserve0, 2)} {token0Label} · {display(token1, poolInfo.reserve1, 2)} {token1Label}
               </p>
             </div>
             <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
               <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">24h Volume</p>
-              <p className="mt-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">—</p>
+              <p className="mt-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">{formatUsd(dayStats?.volumeUsd)}</p>
+              <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                {dayStats ? `${formatUsd(dayStats.feesUsd)} fees to LPs` : "Indexing swaps…"}
+              </p>
             </div>
             <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
               <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Fee Tier</p>
@@ -267,14 +419,46 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
             <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
               <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Your Position</p>
               <p className="mt-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
-                {isConnected ? `${(Number(userLpBalance) / 1e18).toFixed(4)} LP` : "—"}
+                {isConnected ? `${display(LP_TOKEN, userLpBalance)} LP` : "—"}
               </p>
               <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
-                {isConnected ? "View in Portfolio" : "Connect wallet to view"}
+                {!isConnected
+                  ? "Connect wallet to view"
+                  : positionUsd !== null
+                    ? `≈ ${formatUsd(positionUsd)}`
+                    : "View in Portfolio"}
               </p>
             </div>
           </section>
 
+          {analyticsPools ? (
+            <section className="flex flex-col gap-6">
+              <div className="flex items-center gap-2 border-b border-zinc-200 dark:border-zinc-800">
+                {(["analytics", "activity"] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    onClick={() => setDetailTab(tab)}
+                    className={`px-4 py-3 text-sm font-semibold capitalize transition ${
+                      detailTab === tab
+                        ? "border-b-2 border-emerald-500 text-emerald-600 dark:text-emerald-400"
+                        : "text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+                    }`}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+              {detailTab === "analytics" ? (
+                <>
+                  <PoolCharts {...analyticsPools[0]} />
+                  <PoolAnalyticsPanel {...analyticsPools[0]} />
+                </>
+              ) : (
+                <PoolActivityFeed {...analyticsPools[0]} />
+              )}
+            </section>
+          ) : null}
+
       <section className="grid gap-6 lg:grid-cols-[2fr,3fr]">
         <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-6 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
           <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">Pool Information</h2>
@@ -284,24 +468,24 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
               <span className="text-sm font-mono text-zinc-900 dark:text-zinc-50">{shortenAddress(poolId, 8)}</span>
             </div>
             <div className="flex items-center justify-between rounded-2xl border border-zinc-200 bg-white/60 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-950/40">
-              <span className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">Token 0</span>
+              <span className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">{token0Label}</span>
               <span className="text-sm font-mono text-zinc-900 dark:text-zinc-50">{shortenAddress(poolInfo.token0, 6)}</span>
             </div>
             <div className="flex items-center justify-between rounded-2xl border border-zinc-200 bg-white/60 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-950/40">
-              <span className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">Token 1</span>
+              <span className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">{token1Label}</span>
               <span className="text-sm font-mono text-zinc-900 dark:text-zinc-50">{shortenAddress(poolInfo.token1, 6)}</span>
             </div>
             <div className="flex items-center justify-between rounded-2xl border border-zinc-200 bg-white/60 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-950/40">
               <span className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">Reserve 0</span>
-              <span className="text-sm text-zinc-900 dark:text-zinc-50">{(Number(poolInfo.reserve0) / 1e18).toFixed(4)}</span>
+              <span className="text-sm text-zinc-900 dark:text-zinc-50">{display(token0, poolInfo.reserve0)}</span>
             </div>
             <div className="flex items-center justify-between rounded-2xl border border-zinc-200 bg-white/60 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-950/40">
               <span className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">Reserve 1</span>
-              <span className="text-sm text-zinc-900 dark:text-zinc-50">{(Number(poolInfo.reserve1) / 1e18).toFixed(4)}</span>
+              <span className="text-sm text-zinc-900 dark:text-zinc-50">{display(token1, poolInfo.reserve1)}</span>
             </div>
             <div className="flex items-center justify-between rounded-2xl border border-zinc-200 bg-white/60 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-950/40">
               <span className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">Total Supply</span>
-              <span className="text-sm text-zinc-900 dark:text-zinc-50">{(Number(poolInfo.totalSupply) / 1e18).toFixed(4)} LP</span>
+              <span className="text-sm text-zinc-900 dark:text-zinc-50">{display(LP_TOKEN, poolInfo.totalSupply)} LP</span>
             </div>
             <div className="flex items-center justify-between rounded-2xl border border-zinc-200 bg-white/60 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-950/40">
               <span className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">Fee</span>
@@ -343,7 +527,7 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
                 <div className="mt-3 space-y-4">
                   <div className="space-y-2 rounded-2xl border border-zinc-200 bg-white px-4 py-4 dark:border-zinc-800 dark:bg-zinc-950/50">
                     <div className="flex items-center justify-between text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">
-                      <span>Token 0</span>
+                      <span>{token0Label}</span>
                       <button className="rounded-full border border-zinc-200 px-2 py-0.5 text-[11px] font-semibold text-zinc-500 transition hover:border-emerald-400 hover:text-emerald-500 dark:border-zinc-700">
                         Max
                       </button>
@@ -360,12 +544,12 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
                     </div>
                     <div className="flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
                       <span>Balance: —</span>
-                      <span>Reserve: {poolInfo ? (Number(poolInfo.reserve0) / 1e18).toFixed(4) : "—"}</span>
+                      <span>Reserve: {display(token0, poolInfo.reserve0)}</span>
                     </div>
                   </div>
 
                   <div className="space-y-2 rounded-2xl border border-zinc-200 bg-white px-4 py-4 dark:border-zinc-800 dark:bg-zinc-950/50">
-                    <div className="text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">Token 1</div>
+                    <div className="text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">{token1Label}</div>
                     <div className="mt-3 flex items-center justify-between gap-4">
                       <input
                         type="number"
@@ -378,17 +562,32 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
                     </div>
                     <div className="flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
                       <span>Balance: —</span>
-                      <span>Reserve: {poolInfo ? (Number(poolInfo.reserve1) / 1e18).toFixed(4) : "—"}</span>
+                      <span>Reserve: {display(token1, poolInfo.reserve1)}</span>
                     </div>
                   </div>
                 </div>
               </div>
 
-              {error && (
-                <div className="rounded-2xl border border-rose-200 bg-rose-50/70 p-4 text-sm text-rose-700 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-200">
-                  {error}
-                </div>
-              )}
+              {wethSide !== null ? (
+                <label className="flex items-center gap-2 text-xs font-semibold text-zinc-600 dark:text-zinc-300">
+                  <input
+                    type="checkbox"
+                    className="accent-emerald-500"
+                    checked={useNativeEth}
+                    onChange={(e) => setUseNativeEth(e.target.checked)}
+                  />
+                  Pay with native ETH (wrapped to WETH automatically)
+                </label>
+              ) : null}
+
+              <ApprovalModeSelector
+                value={approvalMode}
+                onChange={setApprovalMode}
+                permitSupported={permitSupported}
+                className="rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 dark:border-zinc-700 dark:bg-zinc-900/60"
+              />
+
+              {error && <ErrorAlert error={error} />}
               
               {success && (
                 <div className="rounded-2xl border border-emerald-200 bg-emerald-50/70 p-4 text-sm text-emerald-700 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-200">
@@ -400,23 +599,60 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
                 <div className="flex items-center justify-between">
                   <span className="font-semibold text-zinc-700 dark:text-zinc-200">Estimated LP tokens</span>
                   <span className="font-semibold text-emerald-600 dark:text-emerald-400">
-                    {estimatedLpTokens ?? "—"}
+                    {estimatedDeposit?.lpTokens ?? "—"}
                   </span>
                 </div>
                 <div className="mt-2 flex items-center justify-between text-xs">
                   <span>Share of pool</span>
-                  <span>
-                    {estimatedLpTokens && poolInfo
-                      ? `${((parseFloat(estimatedLpTokens) / (Number(poolInfo.totalSupply) / 1e18)) * 100).toFixed(4)}%`
-                      : "—"}
-                  </span>
+                  <span>{estimatedDeposit?.share ?? "—"}</span>
                 </div>
               </div>
 
+              <SimulationPreview
+                {...addSimulation}
+                skippedReason={
+                  !token0Amount || !token1Amount
+                    ? null
+                    : payWithEth
+                      ? "The deposit is simulated after your ETH is wrapped, right before you sign."
+                      : needsApproval
+                        ? "The deposit is simulated once both tokens are approved."
+                        : null
+                }
+                describe={(result) => [
+                  { label: "LP tokens minted", value: display(LP_TOKEN, result.liquidity, 6) },
+                  { label: `${token0Label} deposited`, value: display(token0, result.amount0, 6) },
+                  { label: `${token1Label} deposited`, value: display(token1, result.amount1, 6) },
+                ]}
+              />
+
+              {token0Amount && token1Amount ? (
+                <NetworkCost
+                  rows={[
+                    ...(payWithEth ? [{ label: "Wrap ETH", gas: null, note: "Shown in wallet" }] : []),
+                    ...approvalGas.rows,
+                    {
+                      label: "Add liquidity",
+                      gas: addSimulation.simulation?.ok ? addSimulation.simulation.gasEstimate : null,
+                      note: payWithEth || needsApproval ? "Estimated after approval" : undefined,
+                    },
+                  ]}
+                  loading={approvalGas.loading || addSimulation.simulating}
+                  className="rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 text-zinc-600 dark:border-zinc-700 dark:bg-zinc-900/60 dark:text-zinc-300"
+                />
+              ) : null}
+
               <button
                 onClick={handleAddLiquidity}
                 className="w-full rounded-2xl bg-emerald-500 py-4 text-base font-semibold text-white shadow-lg shadow-emerald-500/30 transition hover:bg-emerald-600 disabled:bg-zinc-300 disabled:text-zinc-500"
-                disabled={!isConnected || !token0Amount || !token1Amount || txLoading || !poolInfo}
+                disabled={
+                  !isConnected ||
+                  !token0Amount ||
+                  !token1Amount ||
+                  txLoading ||
+                  !poolInfo ||
+                  addSimulation.simulation?.ok === false
+                }
               >
                 {txLoading ? "Adding Liquidity..." : isConnected ? "Add Liquidity" : "Connect Wallet to Add"}
               </button>
@@ -431,7 +667,10 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
                   <div className="space-y-2 rounded-2xl border border-zinc-200 bg-white px-4 py-4 dark:border-zinc-800 dark:bg-zinc-950/50">
                     <div className="flex items-center justify-between text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">
                       <span>LP Tokens</span>
-                      <button className="rounded-full border border-zinc-200 px-2 py-0.5 text-[11px] font-semibold text-zinc-500 transition hover:border-emerald-400 hover:text-emerald-500 dark:border-zinc-700">
+                      <button
+                        onClick={() => setLiquidityToRemove(toAmountInput(tokenAmount(LP_TOKEN, userLpBalance)))}
+                        className="rounded-full border border-zinc-200 px-2 py-0.5 text-[11px] font-semibold text-zinc-500 transition hover:border-emerald-400 hover:text-emerald-500 dark:border-zinc-700"
+                      >
                         Max
                       </button>
                     </div>
@@ -446,18 +685,26 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
                       />
                     </div>
                     <div className="flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
-                      <span>Your balance: {isConnected ? `${(Number(userLpBalance) / 1e18).toFixed(4)} LP` : "—"}</span>
-                      <span>Total supply: {poolInfo ? `${(Number(poolInfo.totalSupply) / 1e18).toFixed(4)} LP` : "—"}</span>
+                      <span>Your balance: {isConnected ? `${display(LP_TOKEN, userLpBalance)} LP` : "—"}</span>
+                      <span>Total supply: {display(LP_TOKEN, poolInfo.totalSupply)} LP</span>
                     </div>
                   </div>
                 </div>
               </div>
 
-              {error && (
-                <div className="rounded-2xl border border-rose-200 bg-rose-50/70 p-4 text-sm text-rose-700 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-200">
-                  {error}
-                </div>
-              )}
+              {wethSide !== null ? (
+                <label className="flex items-center gap-2 text-xs font-semibold text-zinc-600 dark:text-zinc-300">
+                  <input
+                    type="checkbox"
+                    className="accent-emerald-500"
+                    checked={useNativeEth}
+                    onChange={(e) => setUseNativeEth(e.target.checked)}
+                  />
+                  Receive native ETH instead of WETH
+                </label>
+              ) : null}
+
+              {error && <ErrorAlert error={error} />}
               
               {success && (
                 <div className="rounded-2xl border border-emerald-200 bg-emerald-50/70 p-4 text-sm text-emerald-700 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-200">
@@ -471,13 +718,13 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
                 </div>
                 <div className="mt-3 space-y-2">
                   <div className="flex items-center justify-between text-xs">
-                    <span>Token 0</span>
+                    <span>{token0Label}</span>
                     <span className="font-semibold text-zinc-900 dark:text-zinc-50">
                       {amountsToReceive?.amount0 ?? "—"}
                     </span>
                   </div>
                   <div className="flex items-center justify-between text-xs">
-                    <span>Token 1</span>
+                    <span>{token1Label}</span>
                     <span className="font-semibold text-zinc-900 dark:text-zinc-50">
                       {amountsToReceive?.amount1 ?? "—"}
                     </span>
@@ -485,10 +732,34 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ poolId:
                 </div>
               </div>
 
+              <SimulationPreview
+                {...removeSimulation}
+                describe={(result) => [
+                  { label: `${token0Label} received`, value: display(token0, result.amount0, 6) },
+                  { label: `${token1Label} received`, value: display(token1, result.amount1, 6) },
+                ]}
+              />
+
+              {liquidityToRemove ? (
+                <NetworkCost
+                  rows={[
+                    {
+                      label: "Remove liquidity",
+                      gas: removeSimulation.simulation?.ok ? removeSimulation.simulation.gasEstimate : null,
+                    },
+                    ...(payWithEth ? [{ label: "Unwrap WETH", gas: null, note: "Shown in wallet" }] : []),
+                  ]}
+                  loading={removeSimulation.simulating}
+                  className="rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 text-zinc-600 dark:border-zinc-700 dark:bg-zinc-900/60 dark:text-zinc-300"
+                />
+              ) : null}
+
               <button
                 onClick={handleRemoveLiquidity}
                 className="w-full rounded-2xl bg-rose-500 py-4 text-base font-semibold text-white shadow-lg shadow-rose-500/30 transition hover:bg-rose-600 disabled:bg-zinc-300 disabled:text-zinc-500"
-                disabled={!isConnected || !liquidityToRemove || txLoading || !poolInfo}
+                disabled={
+                  !isConnected || !liquidityToRemove || txLoading || !poolInfo || removeSimulation.simulation?.ok === false
+                }
               >
                 {txLoading ? "Removing Liquidity..." : isConnected ? "Remove Liquidity" : "Connect Wallet to Remove"}
               </button>
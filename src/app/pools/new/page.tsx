@@ -1,17 +1,37 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useAccount, useWalletClient } from "wagmi";
-import { createPool, AMM_CONTRACT_ADDRESS } from "@/lib/amm";
-import { walletClientToSigner } from "@/config/adapter";
-
-const feeTiers = [
-  { value: "0.01%", description: "Best for stable pairs with minimal volatility." },
-  { value: "0.03%", description: "Balanced fee for blue-chip markets." },
-  { value: "0.05%", description: "Maximize yield for long-tail assets." },
-];
+import { isAddress } from "ethers";
+import { useAccount, useChainId, usePublicClient, useWalletClient } from "wagmi";
+import {
+  createPool,
+  getDefaultFeeBps,
+  isNativeToken,
+  simulateCreatePool,
+  AMM_CONTRACT_ADDRESS,
+} from "@/lib/amm";
+import { appError, decodeError, inputError, type DecodedError } from "@/lib/errors";
+import { publicClientToProvider, walletClientToSigner } from "@/config/adapter";
+import { ErrorAlert } from "@/components/error-alert";
+import { resolvePoolToken, wrapEth } from "@/lib/weth";
+import { SimulationPreview } from "@/components/simulation-preview";
+import { useSimulation } from "@/hooks/use-simulation";
+import { ApprovalModeSelector } from "@/components/approval-mode-selector";
+import { NetworkCost } from "@/components/network-cost";
+import { useApprovalGas } from "@/hooks/use-approval-gas";
+import { useTokenList } from "@/hooks/use-token-list";
+import { findToken } from "@/lib/token-list";
+import { TokenSelector } from "@/components/token-selector";
+import { ensureApproval, supportsPermit, type ApprovalMode } from "@/lib/approvals";
+import {
+  LP_TOKEN,
+  amountInputError,
+  formatTokenAmount,
+  tokenAmount,
+  tryParseTokenAmount,
+} from "@/lib/token-amount";
 
 const launchChecklist = [
   "Token contracts verified and decimals confirmed",
@@ -23,32 +43,113 @@ const launchChecklist = [
 export default function CreatePoolPage() {
   const { isConnected, address } = useAccount();
   const { data: walletClient } = useWalletClient();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
   const router = useRouter();
   
+  const { tokens } = useTokenList();
   const [token0, setToken0] = useState("");
   const [token1, setToken1] = useState("");
   const [amount0, setAmount0] = useState("");
   const [amount1, setAmount1] = useState("");
-  const [selectedFeeTier, setSelectedFeeTier] = useState("0.01%");
+  const [defaultFeeBps, setDefaultFeeBps] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<DecodedError | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>("exact");
+  const [permitSupported, setPermitSupported] = useState<boolean | null>(null);
+
+  const seedsWithEth = isNativeToken(token0) || isNativeToken(token1);
+  const token0Info = findToken(tokens, token0) ?? null;
+  const token1Info = findToken(tokens, token1) ?? null;
+
+  // Seed amounts in each token's own decimals; null while incomplete or invalid
+  const seedAmounts = useMemo(() => {
+    const seed0 = tryParseTokenAmount(amount0, token0Info);
+    const seed1 = tryParseTokenAmount(amount1, token1Info);
+    return seed0 && seed1 ? { amount0: seed0.raw, amount1: seed1.raw } : null;
+  }, [amount0, amount1, token0Info, token1Info]);
+
+  // Approvals the seed deposit still needs, with their gas
+  const approvalRequests = useMemo(() => {
+    if (!token0Info || !token1Info || !seedAmounts) return null;
+    return [
+      { token: resolvePoolToken(token0Info.address, chainId), amount: seedAmounts.amount0, symbol: token0Info.symbol },
+      { token: resolvePoolToken(token1Info.address, chainId), amount: seedAmounts.amount1, symbol: token1Info.symbol },
+    ];
+  }, [token0Info, token1Info, seedAmounts, chainId]);
+  const approvalGas = useApprovalGas(approvalRequests, approvalMode, AMM_CONTRACT_ADDRESS);
+  const needsApproval = approvalGas.rows.length > 0;
+
+  // Dry-run the deployment so reverts and the minted liquidity show before signing
+  const runSimulation = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !address || !isAddress(token0) || !isAddress(token1) || !seedAmounts || seedsWithEth) {
+      return null;
+    }
+    // Without the allowance the dry run would only report the missing approval
+    if (approvalGas.loading || needsApproval) return null;
+    const { amount0: amount0BigInt, amount1: amount1BigInt } = seedAmounts;
+    return () => simulateCreatePool(token0, token1, amount0BigInt, amount1BigInt, address, AMM_CONTRACT_ADDRESS, provider);
+  }, [publicClient, address, token0, token1, seedAmounts, seedsWithEth, approvalGas.loading, needsApproval]);
+  const { simulation, simulating } = useSimulation(runSimulation);
+
+  // Permits are only offered when both seed tokens accept them
+  useEffect(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !isAddress(token0) || !isAddress(token1)) return;
+
+    let mounted = true;
+    Promise.all([supportsPermit(token0, provider), supportsPermit(token1, provider)]).then((support) => {
+      if (!mounted) return;
+      const supported = support.every(Boolean);
+      setPermitSupported(supported);
+      if (!supported) setApprovalMode((mode) => (mode === "permit" ? "exact" : mode));
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [publicClient, token0, token1]);
+
+  // The contract applies its own default fee to every new pool
+  useEffect(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider) return;
+
+    let mounted = true;
+    getDefaultFeeBps(AMM_CONTRACT_ADDRESS, provider)
+      .then((feeBps) => {
+        if (mounted) setDefaultFeeBps(feeBps);
+      })
+      .catch((err) => console.error("Error reading default fee:", err));
+    return () => {
+      mounted = false;
+    };
+  }, [publicClient]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!isConnected || !walletClient || !address) {
-      setError("Please connect your wallet");
+      setError(appError("WALLET_NOT_CONNECTED"));
       return;
     }
 
     if (!token0 || !token1 || !amount0 || !amount1) {
-      setError("Please fill in all fields");
+      setError(inputError("Please fill in all fields"));
+      return;
+    }
+
+    const invalidAmount =
+      (token0Info ? amountInputError(amount0, token0Info) : null) ??
+      (token1Info ? amountInputError(amount1, token1Info) : null);
+    if (invalidAmount || !seedAmounts) {
+      setError(inputError(invalidAmount ?? "Select both tokens from the list"));
       return;
     }
 
     if (!AMM_CONTRACT_ADDRESS) {
-      setError("Contract address not configured");
+      setError(appError("WRONG_NETWORK", { message: "The AMM contract address is not configured for this network." }));
       return;
     }
 
@@ -62,20 +163,31 @@ export default function CreatePoolPage() {
         throw new Error("Failed to get signer");
       }
 
-      // Convert amounts to BigInt (assuming 18 decimals for now)
-      const amount0BigInt = BigInt(Math.floor(parseFloat(amount0) * 1e18));
-      const amount1BigInt = BigInt(Math.floor(parseFloat(amount1) * 1e18));
+      const { amount0: amount0BigInt, amount1: amount1BigInt } = seedAmounts;
+
+      // Native ETH is seeded as WETH: wrap it and let the AMM pull it
+      const nativeAmount = isNativeToken(token0) ? amount0BigInt : isNativeToken(token1) ? amount1BigInt : null;
+      if (nativeAmount !== null) {
+        await wrapEth(nativeAmount, resolvePoolToken(isNativeToken(token0) ? token0 : token1, chainId), signer);
+      }
+
+      const poolToken0 = resolvePoolToken(token0, chainId);
+      const poolToken1 = resolvePoolToken(token1, chainId);
+      await ensureApproval(approvalMode, signer, poolToken0, AMM_CONTRACT_ADDRESS, amount0BigInt);
+      await ensureApproval(approvalMode, signer, poolToken1, AMM_CONTRACT_ADDRESS, amount1BigInt);
 
       const result = await createPool(
-        token0,
-        token1,
+        poolToken0,
+        poolToken1,
         amount0BigInt,
         amount1BigInt,
         AMM_CONTRACT_ADDRESS,
         signer
       );
 
-      setSuccess(`Pool created successfully! Pool ID: ${result.poolId.substring(0, 10)}...`);
+      setSuccess(
+        `Pool created with ${result.token0Amount.formatted} ${result.token0Amount.symbol} and ${result.token1Amount.formatted} ${result.token1Amount.symbol}! Pool ID: ${result.poolId.substring(0, 10)}...`,
+      );
       
       // Redirect to pool details after a short delay
       setTimeout(() => {
@@ -83,7 +195,7 @@ export default function CreatePoolPage() {
       }, 2000);
     } catch (err) {
       console.error("Error creating pool:", err);
-      setError(err instanceof Error ? err.message : "Failed to create pool");
+      setError(decodeError(err));
     } finally {
       setLoading(false);
     }
@@ -112,22 +224,20 @@ export default function CreatePoolPage() {
             <div className="mt-3 grid gap-4 sm:grid-cols-2">
               <div className="space-y-1">
                 <span className="text-xs font-semibold text-zinc-500 dark:text-zinc-400">Token 0</span>
-                <input
-                  type="text"
-                  placeholder="0x... (token address)"
-                  value={token0}
-                  onChange={(e) => setToken0(e.target.value)}
-                  className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-700 focus:border-emerald-400 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950/60 dark:text-zinc-100"
+                <TokenSelector
+                  value={token0Info}
+                  onChange={(token) => setToken0(token.address)}
+                  disabledAddress={token1 || undefined}
+                  className="w-full"
                 />
               </div>
               <div className="space-y-1">
                 <span className="text-xs font-semibold text-zinc-500 dark:text-zinc-400">Token 1</span>
-                <input
-                  type="text"
-                  placeholder="0x... (token address)"
-                  value={token1}
-                  onChange={(e) => setToken1(e.target.value)}
-                  className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-700 focus:border-emerald-400 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950/60 dark:text-zinc-100"
+                <TokenSelector
+                  value={token1Info}
+                  onChange={(token) => setToken1(token.address)}
+                  disabledAddress={token0 || undefined}
+                  className="w-full"
                 />
               </div>
             </div>
@@ -165,25 +275,13 @@ export default function CreatePoolPage() {
             <label className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">
               Fee Tier
             </label>
-            <div className="mt-3 grid gap-3">
-              {feeTiers.map((tier) => (
-                <label
-                  key={tier.value}
-                  className="flex items-start gap-3 rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm shadow-sm transition hover:border-emerald-400 dark:border-zinc-700 dark:bg-zinc-950/50"
-                >
-                  <input 
-                    type="radio" 
-                    name="fee-tier" 
-                    className="mt-1 accent-emerald-500" 
-                    checked={selectedFeeTier === tier.value}
-                    onChange={() => setSelectedFeeTier(tier.value)}
-                  />
-                  <div>
-                    <p className="font-semibold text-zinc-900 dark:text-zinc-50">{tier.value}</p>
-                    <p className="text-xs text-zinc-500 dark:text-zinc-400">{tier.description}</p>
-                  </div>
-                </label>
-              ))}
+            <div className="mt-3 rounded-2xl border border-zinc-200 bg-zinc-50 px-4 py-3 text-sm dark:border-zinc-700 dark:bg-zinc-950/40">
+              <p className="font-semibold text-zinc-900 dark:text-zinc-50">
+                {defaultFeeBps === null ? "—" : `${(defaultFeeBps / 100).toFixed(2)}%`}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                Set by the AMM: every new pool uses the contract&apos;s current default fee.
+              </p>
             </div>
           </div>
 
@@ -217,11 +315,7 @@ export default function CreatePoolPage() {
             </div>
           </div>
 
-          {error && (
-            <div className="rounded-2xl border border-rose-200 bg-rose-50/70 p-4 text-sm text-rose-700 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-200">
-              {error}
-            </div>
-          )}
+          {error && <ErrorAlert error={error} />}
           
           {success && (
             <div className="rounded-2xl border border-emerald-200 bg-emerald-50/70 p-4 text-sm text-emerald-700 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-200">
@@ -229,10 +323,51 @@ export default function CreatePoolPage() {
             </div>
           )}
 
+          <ApprovalModeSelector
+            value={approvalMode}
+            onChange={setApprovalMode}
+            permitSupported={permitSupported}
+            className="rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 dark:border-zinc-700 dark:bg-zinc-900/60"
+          />
+
+          <SimulationPreview
+            simulation={simulation}
+            simulating={simulating}
+            skippedReason={
+              !amount0 || !amount1
+                ? null
+                : seedsWithEth
+                  ? "The deployment is simulated after your ETH is wrapped, right before you sign."
+                  : needsApproval
+                    ? "The deployment is simulated once both tokens are approved."
+                    : null
+            }
+            describe={(result) => [
+              { label: "Pool ID", value: `${result.poolId.substring(0, 10)}...` },
+              { label: "LP tokens minted", value: formatTokenAmount(tokenAmount(LP_TOKEN, result.liquidity)) },
+            ]}
+          />
+
+          {approvalRequests ? (
+            <NetworkCost
+              rows={[
+                ...(seedsWithEth ? [{ label: "Wrap ETH", gas: null, note: "Shown in wallet" }] : []),
+                ...approvalGas.rows,
+                {
+                  label: "Create pool",
+                  gas: simulation?.ok ? simulation.gasEstimate : null,
+                  note: seedsWithEth || needsApproval ? "Estimated after approval" : undefined,
+                },
+              ]}
+              loading={approvalGas.loading || simulating}
+              className="rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 text-zinc-600 dark:border-zinc-700 dark:bg-zinc-900/60 dark:text-zinc-300"
+            />
+          ) : null}
+
           <button
             type="submit"
             className="w-full rounded-2xl bg-emerald-500 py-4 text-base font-semibold text-white shadow-lg shadow-emerald-500/25 transition hover:bg-emerald-600 disabled:bg-zinc-300 disabled:text-zinc-500"
-            disabled={!isConnected || loading}
+            disabled={!isConnected || loading || simulation?.ok === false}
           >
             {loading ? "Creating Pool..." : isConnected ? "Deploy Pool" : "Connect Wallet to Deploy"}
           </button>
@@ -5,20 +5,25 @@ import Link from "next/link";
 import { useAccount, useChainId, usePublicClient } from "wagmi";
 
 import { networks } from "@/config/wagmi";
-import { getAllPools, getPool, AMM_CONTRACT_ADDRESS, type PoolCreatedEvent, type PoolInfo } from "@/lib/amm";
+import { AMM_CONTRACT_ADDRESS, type PoolInfo } from "@/lib/amm";
+import type { TokenMetadata } from "@/lib/amm-events";
+import { multicallPools, multicallTokenMetadata } from "@/lib/multicall";
 import { publicClientToProvider } from "@/config/adapter";
-import { shortenAddress } from "@/lib/utils";
+import { formatTokenAmount, tokenAmount } from "@/lib/token-amount";
+import { formatUsd } from "@/lib/price-oracle";
+import { ANALYTICS_WINDOWS, formatFractionPercent, type AnalyticsWindow } from "@/lib/pool-analytics";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+import { usePoolAnalytics, type AnalyticsPool } from "@/hooks/use-pool-analytics";
 
 type Pool = {
   id: string;
   pair: string;
   network: number;
   tvl: string;
-  apr: string;
-  volume24h: string;
   feeTier: string;
-  utilization: string;
   poolInfo?: PoolInfo;
+  token0: TokenMetadata;
+  token1: TokenMetadata;
 };
 
 export default function PoolsPage() {
@@ -29,17 +34,24 @@ export default function PoolsPage() {
     () => chainId ?? "all",
   );
   const [feeFilter, setFeeFilter] = useState<Pool["feeTier"] | "all">("all");
+  const [analyticsWindow, setAnalyticsWindow] = useState<AnalyticsWindow>("24h");
   const [pools, setPools] = useState<Pool[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { pools: poolEvents, loading: indexLoading, error: indexError } = useAmmIndex();
 
-  // Fetch pools from contract
+  // Fetch pool state for every indexed PoolCreated event
   useEffect(() => {
     const fetchPools = async () => {
-      if (!publicClient || !AMM_CONTRACT_ADDRESS) {
+      if (indexError) {
+        setError(indexError.message);
         setLoading(false);
         return;
       }
+      if (!publicClient || !AMM_CONTRACT_ADDRESS || indexLoading) {
+        setLoading(indexLoading);
+        return;
+      }
 
       try {
         setLoading(true);
@@ -51,37 +63,41 @@ export default function PoolsPage() {
           return;
         }
 
-        // Get all pools from events
-        const poolEvents = await getAllPools(AMM_CONTRACT_ADDRESS, provider);
-        
-        // Fetch detailed pool info for each
-        const poolsWithInfo = await Promise.all(
-          poolEvents.map(async (event: PoolCreatedEvent) => {
-            const poolInfo = await getPool(event.poolId, AMM_CONTRACT_ADDRESS, provider);
-            
-            // Format TVL (simplified - in production, you'd fetch token prices)
-            const reserve0Formatted = poolInfo 
-              ? (Number(poolInfo.reserve0) / 1e18).toFixed(2)
-              : "0";
-            const reserve1Formatted = poolInfo
-              ? (Number(poolInfo.reserve1) / 1e18).toFixed(2)
-              : "0";
-            
-            const feeTier = `${(event.feeBps / 100).toFixed(2)}%`;
-            
-            return {
-              id: event.poolId,
-              pair: `${shortenAddress(event.token0, 4)} / ${shortenAddress(event.token1, 4)}`,
-              network: chainId || 1,
-              tvl: `$${reserve0Formatted}M`, // Simplified
-              apr: "—", // Would need to calculate from fees
-              volume24h: "—", // Would need to track from swap events
-              feeTier,
-              utilization: "—", // Would need to calculate
-              poolInfo: poolInfo ?? undefined,
-            };
-          })
-        );
+        // Fetch detailed pool info for every pool in one batched read
+        const [poolInfos, metadata] = await Promise.all([
+          multicallPools(
+            poolEvents.map((event) => event.poolId),
+            AMM_CONTRACT_ADDRESS,
+            provider,
+          ),
+          multicallTokenMetadata(
+            poolEvents.flatMap((event) => [event.token0, event.token1]),
+            provider,
+          ),
+        ]);
+        const poolsWithInfo = poolEvents.map((event, index) => {
+          const poolInfo = poolInfos[index];
+          const token0 = metadata[index * 2];
+          const token1 = metadata[index * 2 + 1];
+
+          // Reserves in each token's own units, shown until the pool is priced
+          const tvl = poolInfo
+            ? `${formatTokenAmount(tokenAmount(token0, poolInfo.reserve0), { maxDecimals: 2, symbol: true })} / ${formatTokenAmount(tokenAmount(token1, poolInfo.reserve1), { maxDecimals: 2, symbol: true })}`
+            : "—";
+          
+          const feeTier = `${(event.feeBps / 100).toFixed(2)}%`;
+          
+          return {
+            id: event.poolId,
+            pair: `${token0.symbol} / ${token1.symbol}`,
+            network: chainId || 1,
+            tvl,
+            feeTier,
+            poolInfo: poolInfo ?? undefined,
+            token0,
+            token1,
+          };
+        });
 
         setPools(poolsWithInfo);
       } catch (err) {
@@ -93,7 +109,7 @@ export default function PoolsPage() {
     };
 
     fetchPools();
-  }, [publicClient, chainId]);
+  }, [publicClient, chainId, poolEvents, indexLoading, indexError]);
 
   const filteredPools = useMemo(() => {
     return pools.filter((pool) => {
@@ -105,6 +121,27 @@ export default function PoolsPage() {
     });
   }, [feeFilter, networkFilter, pools]);
 
+  const analyticsPools = useMemo(
+    () =>
+      pools.flatMap((pool): AnalyticsPool[] =>
+        pool.poolInfo ? [{ pool: pool.poolInfo, token0: pool.token0, token1: pool.token1 }] : [],
+      ),
+    [pools],
+  );
+  const analytics = usePoolAnalytics(analyticsPools, analyticsWindow);
+  const windowLabel = ANALYTICS_WINDOWS.find((entry) => entry.id === analyticsWindow)?.label ?? "24H";
+  const totals = useMemo(() => {
+    if (!analytics) return null;
+    const stats = [...analytics.values()];
+    const sum = (values: (number | null)[]) =>
+      values.some((value) => value !== null) ? values.reduce<number>((total, value) => total + (value ?? 0), 0) : null;
+    return {
+      tvlUsd: sum(stats.map((entry) => entry.tvlUsd)),
+      volumeUsd: sum(stats.map((entry) => entry.volumeUsd)),
+      swapCount: stats.reduce((total, entry) => total + entry.swapCount, 0),
+    };
+  }, [analytics]);
+
   return (
     <main className="mx-auto flex w-full max-w-6xl flex-1 flex-col gap-10 px-6 py-14">
       <header className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
@@ -133,13 +170,23 @@ export default function PoolsPage() {
       <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
           <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Total TVL</p>
-          <p className="mt-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">$212.5M</p>
-          <p className="mt-1 text-xs text-emerald-500">+3.2% this week</p>
+          <p className="mt-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
+            {formatUsd(totals?.tvlUsd)}
+          </p>
+          <p className="mt-1 text-xs text-emerald-500">
+            Across {pools.length} pool{pools.length !== 1 ? "s" : ""}
+          </p>
         </div>
         <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
-          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">24h Volume</p>
-          <p className="mt-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">$38.6M</p>
-          <p className="mt-1 text-xs text-emerald-500">+5.1% vs previous</p>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">
+            {windowLabel} Volume
+          </p>
+          <p className="mt-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
+            {formatUsd(totals?.volumeUsd)}
+          </p>
+          <p className="mt-1 text-xs text-emerald-500">
+            {totals ? `${totals.swapCount} swap${totals.swapCount !== 1 ? "s" : ""}` : "Indexing swaps…"}
+          </p>
         </div>
         <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
           <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Networks</p>
@@ -192,6 +239,22 @@ export default function PoolsPage() {
               <option value="0.03%">0.03%</option>
               <option value="0.05%">0.05%</option>
             </select>
+            <div className="flex rounded-full border border-zinc-200 p-1 dark:border-zinc-700">
+              {ANALYTICS_WINDOWS.map((entry) => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => setAnalyticsWindow(entry.id)}
+                  className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                    analyticsWindow === entry.id
+                      ? "bg-emerald-500 text-white"
+                      : "text-zinc-500 hover:text-emerald-500 dark:text-zinc-400"
+                  }`}
+                >
+                  {entry.label}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
         <div className="mt-6 overflow-hidden rounded-2xl border border-zinc-200/70 dark:border-zinc-800/70">
@@ -201,7 +264,7 @@ export default function PoolsPage() {
                 <th className="px-4 py-3">Pool</th>
                 <th className="px-4 py-3">Network</th>
                 <th className="px-4 py-3">TVL</th>
-                <th className="px-4 py-3">Volume (24h)</th>
+                <th className="px-4 py-3">Volume ({windowLabel})</th>
                 <th className="px-4 py-3">Fee Tier</th>
                 <th className="px-4 py-3">Utilization</th>
                 <th className="px-4 py-3">Est. APR</th>
@@ -230,6 +293,7 @@ export default function PoolsPage() {
               ) : (
                 filteredPools.map((pool) => {
                   const networkName = networks.find((network) => network.id === pool.network)?.name ?? "Unknown";
+                  const stats = analytics?.get(pool.id) ?? null;
                   return (
                     <tr key={pool.id} className="transition hover:bg-emerald-50 dark:hover:bg-emerald-500/10">
                       <td className="px-4 py-4 text-sm font-semibold text-zinc-900 dark:text-zinc-50">
@@ -238,11 +302,13 @@ export default function PoolsPage() {
                       <td className="px-4 py-4 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
                         {networkName}
                       </td>
-                      <td className="px-4 py-4">{pool.tvl}</td>
-                      <td className="px-4 py-4">{pool.volume24h}</td>
+                      <td className="px-4 py-4">{stats && stats.tvlUsd !== null ? formatUsd(stats.tvlUsd) : pool.tvl}</td>
+                      <td className="px-4 py-4">{formatUsd(stats?.volumeUsd)}</td>
                       <td className="px-4 py-4">{pool.feeTier}</td>
-                      <td className="px-4 py-4">{pool.utilization}</td>
-                      <td className="px-4 py-4 font-semibold text-emerald-600 dark:text-emerald-400">{pool.apr}</td>
+                      <td className="px-4 py-4">{formatFractionPercent(stats?.utilization ?? null)}</td>
+                      <td className="px-4 py-4 font-semibold text-emerald-600 dark:text-emerald-400">
+                        {formatFractionPercent(stats?.feeApr ?? null)}
+                      </td>
                       <td className="px-4 py-4 text-right">
                         <Link
                           href={`/pools/${encodeURIComponent(pool.id)}`}
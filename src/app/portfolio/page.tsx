@@ -3,22 +3,32 @@
 import { useMemo, useState, useEffect } from "react";
 import Link from "next/link";
 import { useAccount, useChainId, usePublicClient } from "wagmi";
-import { formatUnits } from "ethers";
 
 import { shortenAddress } from "@/lib/utils";
 import { networks } from "@/config/wagmi";
-import { getAllPools, getPool, getUserLiquidity, AMM_CONTRACT_ADDRESS, type PoolInfo, type PoolCreatedEvent } from "@/lib/amm";
+import { AMM_CONTRACT_ADDRESS, type PoolInfo } from "@/lib/amm";
+import { getLiquidityBurned } from "@/lib/amm-math";
+import { multicallLpBalances, multicallPools, multicallTokenMetadata } from "@/lib/multicall";
+import type { TokenMetadata } from "@/lib/amm-events";
+import { LP_TOKEN, formatTokenAmount, tokenAmount } from "@/lib/token-amount";
+import { formatUsd, getPairUsdValue, getTokenPrice } from "@/lib/price-oracle";
+import { getPositionPnl, type PositionPnl } from "@/lib/position-pnl";
+import { formatFractionPercent } from "@/lib/pool-analytics";
 import { publicClientToProvider } from "@/config/adapter";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+import { useHistoricalPrices, usePrices } from "@/hooks/use-price";
+import { WalletHistory } from "@/components/wallet-history";
 
 type Position = {
   poolId: string;
   pair: string;
   network: number;
   feeTier: string;
-  value: string;
   share: string;
   lpBalance: bigint;
   poolInfo: PoolInfo;
+  token0: TokenMetadata;
+  token1: TokenMetadata;
 };
 
 const rewards = [
@@ -27,6 +37,21 @@ const rewards = [
   { title: "Aggregator rebates", amount: "$0", description: "Captured from flow routed through Quantum Router." },
 ];
 
+const formatReserve = (token: TokenMetadata, raw: bigint) =>
+  formatTokenAmount(tokenAmount(token, raw), { maxDecimals: 2 });
+
+const formatPair = (token0: TokenMetadata, amount0: bigint, token1: TokenMetadata, amount1: bigint) =>
+  `${formatTokenAmount(tokenAmount(token0, amount0), { maxDecimals: 4, symbol: true })} + ${formatTokenAmount(tokenAmount(token1, amount1), { maxDecimals: 4, symbol: true })}`;
+
+const formatSignedUsd = (value: number | null) => (value !== null && value > 0 ? `+${formatUsd(value)}` : formatUsd(value));
+
+const pnlTone = (value: number | null) =>
+  value === null || value === 0
+    ? "text-zinc-900 dark:text-zinc-50"
+    : value > 0
+      ? "text-emerald-600 dark:text-emerald-400"
+      : "text-rose-600 dark:text-rose-400";
+
 export default function PortfolioPage() {
   const { isConnected, address } = useAccount();
   const chainId = useChainId();
@@ -35,7 +60,15 @@ export default function PortfolioPage() {
   const [positions, setPositions] = useState<Position[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [netLiquidity, setNetLiquidity] = useState(0);
+  const {
+    pools: poolEvents,
+    swaps,
+    liquidityAdded,
+    liquidityRemoved,
+    loading: indexLoading,
+    error: indexError,
+  } = useAmmIndex();
+  const { prices } = usePrices();
 
   const activeNetwork = useMemo(
     () => (chainId ? networks.find((item) => item.id === chainId) : undefined),
@@ -45,11 +78,16 @@ export default function PortfolioPage() {
   // Fetch user positions
   useEffect(() => {
     const fetchPositions = async () => {
-      if (!isConnected || !address || !publicClient || !AMM_CONTRACT_ADDRESS) {
-        setPositions([]);
+      if (indexError) {
+        setError(indexError.message);
         setLoading(false);
         return;
       }
+      if (!isConnected || !address || !publicClient || !AMM_CONTRACT_ADDRESS || indexLoading) {
+        setPositions([]);
+        setLoading(indexLoading);
+        return;
+      }
 
       try {
         setLoading(true);
@@ -62,48 +100,53 @@ export default function PortfolioPage() {
           return;
         }
 
-        // Get all pools
-        const poolEvents = await getAllPools(AMM_CONTRACT_ADDRESS, provider);
-        
-        // For each pool, check user's LP balance
+        // Batch LP balances for every pool, then pool state for the ones held
+        const poolIds = poolEvents.map((event) => event.poolId);
+        const lpBalances = await multicallLpBalances(poolIds, address, AMM_CONTRACT_ADDRESS, provider);
+        const held = poolEvents.filter((_, index) => lpBalances[index] > BigInt(0));
+        const heldBalances = lpBalances.filter((balance) => balance > BigInt(0));
+        const [poolInfos, metadata] = await Promise.all([
+          multicallPools(
+            held.map((event) => event.poolId),
+            AMM_CONTRACT_ADDRESS,
+            provider,
+          ),
+          multicallTokenMetadata(
+            held.flatMap((event) => [event.token0, event.token1]),
+            provider,
+          ),
+        ]);
+
         const userPositions: Position[] = [];
-        let totalLiquidity = 0;
-
-        for (const event of poolEvents) {
-          const userLpBalance = await getUserLiquidity(event.poolId, address, AMM_CONTRACT_ADDRESS, provider);
-          
-          if (userLpBalance > BigInt(0)) {
-            const poolInfo = await getPool(event.poolId, AMM_CONTRACT_ADDRESS, provider);
-            if (poolInfo) {
-              // Calculate user's share
-              const share = poolInfo.totalSupply > BigInt(0)
-                ? (Number(userLpBalance) / Number(poolInfo.totalSupply)) * 100
-                : 0;
-
-              // Calculate position value (simplified - assumes 1:1 token value)
-              const reserve0Value = Number(formatUnits(poolInfo.reserve0, 18));
-              const reserve1Value = Number(formatUnits(poolInfo.reserve1, 18));
-              const positionValue = (reserve0Value + reserve1Value) * (share / 100);
-              totalLiquidity += positionValue;
-
-              const feeTier = `${(event.feeBps / 100).toFixed(2)}%`;
-
-              userPositions.push({
-                poolId: event.poolId,
-                pair: `${shortenAddress(event.token0, 4)} / ${shortenAddress(event.token1, 4)}`,
-                network: chainId || 1,
-                feeTier,
-                value: `$${positionValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
-                share: `${share.toFixed(2)}%`,
-                lpBalance: userLpBalance,
-                poolInfo,
-              });
-            }
-          }
-        }
+
+        held.forEach((event, index) => {
+          const poolInfo = poolInfos[index];
+          const userLpBalance = heldBalances[index];
+          const token0 = metadata[index * 2];
+          const token1 = metadata[index * 2 + 1];
+          if (!poolInfo) return;
+
+          // Calculate user's share
+          const share = poolInfo.totalSupply > BigInt(0)
+            ? (Number(userLpBalance) / Number(poolInfo.totalSupply)) * 100
+            : 0;
+
+          const feeTier = `${(event.feeBps / 100).toFixed(2)}%`;
+
+          userPositions.push({
+            poolId: event.poolId,
+            pair: `${token0.symbol} / ${token1.symbol}`,
+            network: chainId || 1,
+            feeTier,
+            share: `${share.toFixed(2)}%`,
+            lpBalance: userLpBalance,
+            poolInfo,
+            token0,
+            token1,
+          });
+        });
 
         setPositions(userPositions);
-        setNetLiquidity(totalLiquidity);
       } catch (err) {
         console.error("Error fetching positions:", err);
         setError(err instanceof Error ? err.message : "Failed to fetch positions");
@@ -114,7 +157,75 @@ export default function PortfolioPage() {
     };
 
     fetchPositions();
-  }, [isConnected, address, publicClient, chainId]);
+  }, [isConnected, address, publicClient, chainId, poolEvents, indexLoading, indexError]);
+
+  // Value each position at its redeemable share of the reserves, priced by the pool oracle
+  const positionValues = useMemo(
+    () =>
+      new Map(
+        positions.map((position) => {
+          const { amount0, amount1 } = getLiquidityBurned(position.poolInfo, position.lpBalance);
+          const value = prices
+            ? getPairUsdValue(
+                tokenAmount(position.token0, amount0),
+                getTokenPrice(prices, position.token0.address, chainId),
+                tokenAmount(position.token1, amount1),
+                getTokenPrice(prices, position.token1.address, chainId),
+              )
+            : null;
+          return [position.poolId, value];
+        }),
+      ),
+    [positions, prices, chainId],
+  );
+  const netLiquidity = [...positionValues.values()].reduce<number>((total, value) => total + (value ?? 0), 0);
+
+  // Blocks of the wallet's own liquidity events, priced as of then for cost basis
+  const liquidityBlocks = useMemo(() => {
+    if (!address) return [];
+    const owner = address.toLowerCase();
+    const mine = (event: { provider: string }) => event.provider.toLowerCase() === owner;
+    return [
+      ...new Set(
+        [...poolEvents.filter(mine), ...liquidityAdded.filter(mine), ...liquidityRemoved.filter(mine)].map(
+          (event) => event.blockNumber,
+        ),
+      ),
+    ];
+  }, [address, poolEvents, liquidityAdded, liquidityRemoved]);
+  const historicalPrices = useHistoricalPrices(liquidityBlocks);
+
+  // Cost basis, fees and impermanent loss from the wallet's own liquidity events
+  const positionPnl = useMemo(() => {
+    if (!address) return new Map<string, PositionPnl>();
+    return new Map(
+      positions.map((position) => [
+        position.poolId,
+        getPositionPnl({
+          pool: position.poolInfo,
+          token0: position.token0,
+          token1: position.token1,
+          account: address,
+          lpBalance: position.lpBalance,
+          events: { pools: poolEvents, swaps, liquidityAdded, liquidityRemoved },
+          price0: prices ? getTokenPrice(prices, position.token0.address, chainId) : null,
+          price1: prices ? getTokenPrice(prices, position.token1.address, chainId) : null,
+          historicalPrices,
+          chainId,
+        }),
+      ]),
+    );
+  }, [address, positions, poolEvents, swaps, liquidityAdded, liquidityRemoved, prices, historicalPrices, chainId]);
+  // Unknown for the whole portfolio as soon as one position cannot be valued
+  const sumPnl = (field: "feesUsd" | "realizedUsd" | "unrealizedUsd") =>
+    [...positionPnl.values()].reduce<number | null>(
+      (total, pnl) => (total === null || pnl[field] === null ? null : total + pnl[field]),
+      0,
+    );
+  const totalFees = sumPnl("feesUsd");
+  const totalRealized = sumPnl("realizedUsd");
+  const totalUnrealized = sumPnl("unrealizedUsd");
+  const totalPnl = totalRealized === null || totalUnrealized === null ? null : totalRealized + totalUnrealized;
 
   return (
     <main className="mx-auto flex w-full max-w-6xl flex-1 flex-col gap-12 px-6 py-14">
@@ -142,23 +253,31 @@ export default function PortfolioPage() {
         <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
           <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Net Liquidity</p>
           <p className="mt-3 text-3xl font-semibold text-zinc-900 dark:text-zinc-50">
-            {loading ? "..." : isConnected ? `$${netLiquidity.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : "—"}
+            {loading ? "..." : isConnected ? formatUsd(netLiquidity) : "—"}
           </p>
           <p className="mt-1 text-xs text-emerald-500">
             {isConnected ? `${positions.length} position${positions.length !== 1 ? 's' : ''}` : "Connect to view"}
           </p>
         </div>
         <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
-          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Unclaimed Fees</p>
-          <p className="mt-3 text-3xl font-semibold text-zinc-900 dark:text-zinc-50">{isConnected ? "$0" : "—"}</p>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Fees Earned</p>
+          <p className="mt-3 text-3xl font-semibold text-zinc-900 dark:text-zinc-50">
+            {loading ? "..." : isConnected ? formatUsd(totalFees) : "—"}
+          </p>
           <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
-            {isConnected ? "Collect to claim and restake" : "Connect wallet to fetch"}
+            {isConnected ? "Accrued in position value, paid out on withdrawal" : "Connect wallet to fetch"}
           </p>
         </div>
         <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
-          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">APR (Weighted)</p>
-          <p className="mt-3 text-3xl font-semibold text-zinc-900 dark:text-zinc-50">{isConnected ? "—" : "—"}</p>
-          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">Across {positions.length} position{positions.length !== 1 ? 's' : ''}</p>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Total P&amp;L</p>
+          <p className={`mt-3 text-3xl font-semibold ${pnlTone(isConnected ? totalPnl : null)}`}>
+            {loading ? "..." : isConnected ? formatSignedUsd(totalPnl) : "—"}
+          </p>
+          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+            {isConnected
+              ? `${formatSignedUsd(totalRealized)} realized · ${formatSignedUsd(totalUnrealized)} unrealized`
+              : `Across ${positions.length} position${positions.length !== 1 ? 's' : ''}`}
+          </p>
         </div>
         <div className="rounded-3xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
           <p className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 dark:text-zinc-400">Risk Controls</p>
@@ -191,6 +310,7 @@ export default function PortfolioPage() {
                   <th className="px-4 py-3">Fee Tier</th>
                   <th className="px-4 py-3">LP Balance</th>
                   <th className="px-4 py-3">Value</th>
+                  <th className="px-4 py-3">P&amp;L</th>
                   <th className="px-4 py-3">Share</th>
                   <th className="px-4 py-3">Reserves</th>
                   <th className="px-4 py-3"></th>
@@ -199,25 +319,25 @@ export default function PortfolioPage() {
               <tbody className="divide-y divide-zinc-200/70 bg-white/60 dark:divide-zinc-800/70 dark:bg-zinc-950/40">
                 {loading ? (
                   <tr>
-                    <td colSpan={7} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                    <td colSpan={8} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
                       Loading positions...
                     </td>
                   </tr>
                 ) : error ? (
                   <tr>
-                    <td colSpan={7} className="px-4 py-12 text-center text-sm text-rose-500">
+                    <td colSpan={8} className="px-4 py-12 text-center text-sm text-rose-500">
                       Error: {error}
                     </td>
                   </tr>
                 ) : positions.length === 0 && isConnected ? (
                   <tr>
-                    <td colSpan={7} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                    <td colSpan={8} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
                       No liquidity positions found. <Link href="/pools/new" className="text-emerald-600 hover:text-emerald-500">Create a pool</Link> or <Link href="/pools" className="text-emerald-600 hover:text-emerald-500">add liquidity</Link> to get started.
                     </td>
                   </tr>
                 ) : !isConnected ? (
                   <tr>
-                    <td colSpan={7} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                    <td colSpan={8} className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
                       Connect a wallet to view positions across QuantumDEX.
                     </td>
                   </tr>
@@ -225,10 +345,8 @@ export default function PortfolioPage() {
                   positions.map((position) => {
                     const networkName =
                       networks.find((network) => network.id === position.network)?.name ?? "Unknown";
-                    const lpBalanceFormatted = formatUnits(position.lpBalance, 18);
-                    const reserve0Formatted = formatUnits(position.poolInfo.reserve0, 18);
-                    const reserve1Formatted = formatUnits(position.poolInfo.reserve1, 18);
-                    
+                    const pnl = positionPnl.get(position.poolId);
+
                     return (
                       <tr key={position.poolId} className="transition hover:bg-emerald-50 dark:hover:bg-emerald-500/10">
                         <td className="px-4 py-4">
@@ -237,12 +355,18 @@ export default function PortfolioPage() {
                         </td>
                         <td className="px-4 py-4">{position.feeTier}</td>
                         <td className="px-4 py-4 text-sm font-medium text-zinc-700 dark:text-zinc-300">
-                          {parseFloat(lpBalanceFormatted).toLocaleString(undefined, { maximumFractionDigits: 4 })} LP
+                          {formatTokenAmount(tokenAmount(LP_TOKEN, position.lpBalance), { maxDecimals: 4 })} LP
+                        </td>
+                        <td className="px-4 py-4 font-semibold text-zinc-900 dark:text-zinc-50">
+                          {formatUsd(positionValues.get(position.poolId))}
+                        </td>
+                        <td className={`px-4 py-4 font-semibold ${pnlTone(pnl?.unrealizedUsd ?? null)}`}>
+                          {formatSignedUsd(pnl?.unrealizedUsd ?? null)}
                         </td>
-                        <td className="px-4 py-4 font-semibold text-zinc-900 dark:text-zinc-50">{position.value}</td>
                         <td className="px-4 py-4 text-sm text-zinc-600 dark:text-zinc-400">{position.share}</td>
                         <td className="px-4 py-4 text-xs text-zinc-500 dark:text-zinc-400">
-                          {parseFloat(reserve0Formatted).toFixed(2)} / {parseFloat(reserve1Formatted).toFixed(2)}
+                          {formatReserve(position.token0, position.poolInfo.reserve0)} /{" "}
+                          {formatReserve(position.token1, position.poolInfo.reserve1)}
                         </td>
                         <td className="px-4 py-4 text-right">
                           <Link
@@ -282,6 +406,91 @@ export default function PortfolioPage() {
           </button>
         </div>
       </section>
+
+      {isConnected && positions.length > 0 ? (
+        <section className="rounded-3xl border border-zinc-200/60 bg-white/80 p-6 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">Position Performance</h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Cost basis from your liquidity deposits and withdrawals at the USD prices of their blocks, fees earned and
+            impermanent loss against holding the deposited tokens at current prices.
+          </p>
+          <div className="mt-6 space-y-4">
+            {positions.map((position) => {
+              const pnl = positionPnl.get(position.poolId);
+              if (!pnl) return null;
+              const metrics = [
+                {
+                  label: "Deposited",
+                  value: formatUsd(pnl.costBasisUsd),
+                  detail: formatPair(position.token0, pnl.deposited0, position.token1, pnl.deposited1),
+                },
+                {
+                  label: "Redeemable now",
+                  value: formatUsd(pnl.valueUsd),
+                  detail: formatPair(position.token0, pnl.redeemable0, position.token1, pnl.redeemable1),
+                },
+                {
+                  label: "HODL value",
+                  value: formatUsd(pnl.hodlUsd),
+                  detail:
+                    pnl.valueUsd !== null && pnl.hodlUsd !== null
+                      ? `${formatSignedUsd(pnl.valueUsd - pnl.hodlUsd)} vs holding`
+                      : null,
+                },
+                { label: "Fees earned", value: formatUsd(pnl.feesUsd), detail: null, amount: pnl.feesUsd },
+                {
+                  label: "Impermanent loss",
+                  value: formatFractionPercent(pnl.impermanentLoss),
+                  detail: formatUsd(pnl.impermanentLossUsd),
+                  amount: pnl.impermanentLossUsd,
+                },
+                {
+                  label: "Realized / Unrealized",
+                  value: formatSignedUsd(pnl.unrealizedUsd),
+                  detail: `${formatSignedUsd(pnl.realizedUsd)} realized`,
+                  amount: pnl.unrealizedUsd,
+                },
+              ];
+              return (
+                <div
+                  key={position.poolId}
+                  className="rounded-2xl border border-zinc-200 bg-white/60 p-4 dark:border-zinc-800 dark:bg-zinc-950/40"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">{position.pair}</p>
+                    {!pnl.complete ? (
+                      <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700 dark:bg-amber-500/20 dark:text-amber-300">
+                        Partial history: LP balance not fully explained by your deposits
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="mt-4 grid gap-4 sm:grid-cols-3 lg:grid-cols-6">
+                    {metrics.map((metric) => (
+                      <div key={metric.label}>
+                        <p className="text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">{metric.label}</p>
+                        <p
+                          className={`mt-1 text-base font-semibold ${
+                            metric.amount === undefined ? "text-zinc-900 dark:text-zinc-50" : pnlTone(metric.amount)
+                          }`}
+                        >
+                          {metric.value}
+                        </p>
+                        {metric.detail ? <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">{metric.detail}</p> : null}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <p className="mt-4 text-xs text-zinc-500 dark:text-zinc-400">
+            Flows are valued at the rate they executed at, in the pair&apos;s better-anchored token, converted at its USD
+            price as of each flow&apos;s block.
+          </p>
+        </section>
+      ) : null}
+
+      {isConnected ? <WalletHistory /> : null}
     </main>
   );
 }
@@ -1,46 +1,58 @@
 "use client";
 
-import { useMemo, useState, useEffect } from "react";
+import { useMemo, useState, useEffect, useCallback, useRef } from "react";
 import Link from "next/link";
-import { useAccount, useChainId } from "wagmi";
+import { useAccount, useBlockNumber, useChainId, usePublicClient, useWalletClient } from "wagmi";
 
 import { networks } from "@/config/wagmi";
+import { QUOTE_MAX_AGE_SECONDS, QUOTE_REFRESH_BLOCKS, QUOTE_REVIEW_THRESHOLD_BPS } from "@/config/constants";
 import { shortenAddress } from "@/lib/utils";
-import { BrowserProvider, parseUnits, formatUnits } from "ethers";
-import amm from "@/lib/amm";
+import amm, { AMM_CONTRACT_ADDRESS, isNativeToken, simulateSwap } from "@/lib/amm";
+import { BPS_DENOMINATOR, formatPercent, formatRatio, percentToBps } from "@/lib/amm-math";
+import { appError, decodeError, inputError, type DecodedError } from "@/lib/errors";
+import { publicClientToProvider, walletClientToSigner } from "@/config/adapter";
+import { ErrorAlert } from "@/components/error-alert";
+import { SimulationPreview } from "@/components/simulation-preview";
+import { ApprovalModeSelector } from "@/components/approval-mode-selector";
+import { NetworkCost } from "@/components/network-cost";
+import { useApprovalGas } from "@/hooks/use-approval-gas";
+import { useSimulation } from "@/hooks/use-simulation";
+import { multicallTokenBalances } from "@/lib/multicall";
+import { approveWithMode, supportsPermit, type ApprovalMode } from "@/lib/approvals";
+import {
+  compareFeeTiers,
+  discoverPairPools,
+  executeRoute,
+  findRoutes,
+  findRoutesForOutput,
+  getQuoteChange,
+  loadPoolGraph,
+  withSlippage,
+  type FeeTierQuote,
+  type Route,
+  type RouteExecution,
+  type TradeType,
+} from "@/lib/router";
+import { getWethAddress, isWrapPair, resolvePoolToken, unwrapEth, wrapEth } from "@/lib/weth";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+import { useTokenList } from "@/hooks/use-token-list";
+import { usePrices } from "@/hooks/use-price";
+import { findToken, type RegisteredToken } from "@/lib/token-list";
+import { formatUsd, getTokenPrice, getUsdValue } from "@/lib/price-oracle";
+import {
+  amountInputError,
+  formatTokenAmount,
+  parseTokenAmount,
+  toAmountInput,
+  tokenAmount,
+  tryParseTokenAmount,
+} from "@/lib/token-amount";
+import { TokenSelector } from "@/components/token-selector";
+import { UnlistedTokenWarning } from "@/components/unlisted-token-warning";
 
-// Add real addresses when available. These are placeholders used for example.
-const ROUTER_ADDRESS = process.env.NEXT_PUBLIC_ROUTER_ADDRESS ?? "0x0000000000000000000000000000000000000000";
-const FACTORY_ADDRESS = process.env.NEXT_PUBLIC_FACTORY_ADDRESS ?? "0x0000000000000000000000000000000000000000";
-
-const tokens = [
-  { symbol: "ETH", name: "Ethereum", address: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE", balance: "12.46", price: 2980.2, decimals: 18 },
-  { symbol: "USDC", name: "USD Coin", address: "0xA0b86991c6218b36c1d19d4a2e9eb0ce3606eb48", balance: "42300.12", price: 1.0, decimals: 6 },
-  { symbol: "WBTC", name: "Wrapped Bitcoin", address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", balance: "2.14", price: 58420.15, decimals: 8 },
-  { symbol: "ARB", name: "Arbitrum", address: "0x0000000000000000000000000000000000000001", balance: "18920.00", price: 1.23, decimals: 18 },
-];
 
 const slippageOptions = ["0.3%", "0.5%", "1.0%"];
-const routeLegs = [
-  {
-    step: "①",
-    description: "ETH → WETH",
-    detail: "Wrapped on-chain (0% fee)",
-    weight: "100%",
-  },
-  {
-    step: "②",
-    description: "WETH → USDC",
-    detail: "QuantumDEX v3 (0.01% fee tier)",
-    weight: "85%",
-  },
-  {
-    step: "③",
-    description: "WETH → USDC",
-    detail: "Aggregator partner (0.03% fee tier)",
-    weight: "15%",
-  },
-];
+const legMarkers = ["①", "②", "③", "④"];
 
 export default function SwapPage() {
   const { isConnected, address } = useAccount();
@@ -48,35 +60,150 @@ export default function SwapPage() {
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
 
-  const [sellToken, setSellToken] = useState(tokens[0]);
-  const [buyToken, setBuyToken] = useState(tokens[1]);
+  const { tokens } = useTokenList();
+  // Picks are kept by address and resolved against the current chain's tokens
+  const [sellAddress, setSellAddress] = useState<string | null>(null);
+  const [buyAddress, setBuyAddress] = useState<string | null>(null);
+  const sellToken = (sellAddress && findToken(tokens, sellAddress)) || tokens[0];
+  const buyToken =
+    (buyAddress && findToken(tokens, buyAddress)) ||
+    tokens.find((token) => token.tags?.includes("stablecoin")) ||
+    tokens[tokens.length > 1 ? 1 : 0];
   const [slippage, setSlippage] = useState("0.5%");
   const [advancedMode, setAdvancedMode] = useState(false);
+  const [tradeType, setTradeType] = useState<TradeType>("exactInput");
   const [sellAmount, setSellAmount] = useState<string>("");
+  const [buyAmountInput, setBuyAmountInput] = useState<string>("");
+  // Pool chosen from the fee-tier comparison; null routes through the best path automatically.
+  const [selectedPoolId, setSelectedPoolId] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [loadingQuote, setLoadingQuote] = useState(false);
-  const [sellTokenBalance, setSellTokenBalance] = useState<string>("0");
-  const [buyTokenBalance, setBuyTokenBalance] = useState<string>("0");
-  const [tokenAllowance, setTokenAllowance] = useState<string>("0");
-  const [needsApproval, setNeedsApproval] = useState(false);
+  const [sellTokenBalance, setSellTokenBalance] = useState(BigInt(0));
+  const [buyTokenBalance, setBuyTokenBalance] = useState(BigInt(0));
+  // Null until the allowance has been read (or when the sell token needs none).
+  const [tokenAllowance, setTokenAllowance] = useState<bigint | null>(null);
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>("exact");
+  const [permitSupported, setPermitSupported] = useState<boolean | null>(null);
   const [approving, setApproving] = useState(false);
   const [txStatus, setTxStatus] = useState<"idle" | "pending" | "success" | "error">("idle");
   const [txHash, setTxHash] = useState<string | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [swapResult, setSwapResult] = useState<RouteExecution | null>(null);
+  const [wrapMessage, setWrapMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<DecodedError | null>(null);
 
   const activeNetwork = useMemo(
     () => (chainId ? networks.find((item) => item.id === chainId) : undefined),
     [chainId],
   );
 
+  const { pools: poolEvents } = useAmmIndex();
+  const { prices } = usePrices();
+  // ETH ⇄ WETH settles 1:1 through the WETH contract instead of a pool
+  const wrapMode = isWrapPair(sellToken.address, buyToken.address, chainId);
+
+  const tokenLabel = useCallback(
+    (address: string) => findToken(tokens, address)?.symbol ?? shortenAddress(address, 4),
+    [tokens],
+  );
+
   const [quote, setQuote] = useState<null | {
+    route: Route;
     sellAmount: string;
     buyAmount: string;
+    minAmountOut: bigint;
     minReceived: string;
+    maxSold: string;
     executionPrice: string;
     impact: string;
     routeCount: number;
+    tiers: FeeTierQuote[];
+    /** Block the reserves were read at. */
+    blockNumber: number;
+    quotedAt: number;
   }>(null);
+  // Route the trader last reviewed; background refreshes are compared against it
+  const [reviewedRoute, setReviewedRoute] = useState<Route | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [manualRefresh, setManualRefresh] = useState(0);
+
+  // Requote every few blocks rather than every block; Base produces one every 2s
+  const { data: latestBlock } = useBlockNumber({ watch: true });
+  const refreshTick = latestBlock === undefined ? null : latestBlock / BigInt(QUOTE_REFRESH_BLOCKS);
+
+  const hasQuote = quote !== null;
+  useEffect(() => {
+    if (!hasQuote) return;
+    const timer = setInterval(() => setNow(Date.now()), 1_000);
+    return () => clearInterval(timer);
+  }, [hasQuote]);
+
+  const quoteAge = quote ? Math.max(0, Math.floor((now - quote.quotedAt) / 1000)) : 0;
+  const quoteStale = quote !== null && quoteAge >= QUOTE_MAX_AGE_SECONDS;
+  const priceChange = quote && reviewedRoute && reviewedRoute !== quote.route ? getQuoteChange(reviewedRoute, quote.route) : null;
+  // Only moves against the trader need a fresh review
+  const needsPriceReview =
+    priceChange !== null &&
+    priceChange.numerator * BPS_DENOMINATOR <= -BigInt(QUOTE_REVIEW_THRESHOLD_BPS) * priceChange.denominator;
+
+  // Amount the AMM must be allowed to pull: the typed input, or the slippage cap in exact-output mode.
+  const requiredAmountIn = useMemo(() => {
+    if (tradeType === "exactOutput") return quote?.route.maxAmountIn ?? null;
+    return tryParseTokenAmount(sellAmount, sellToken)?.raw ?? null;
+  }, [tradeType, quote, sellAmount, sellToken]);
+
+  // An exact approval only covers one trade, so the check always compares against this trade's input.
+  const needsApproval = useMemo(
+    () => tokenAllowance !== null && requiredAmountIn !== null && tokenAllowance < requiredAmountIn,
+    [tokenAllowance, requiredAmountIn],
+  );
+
+  // Dry-run the first leg; later legs depend on tokens the earlier ones deliver
+  const runSimulation = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !address || !quote || needsApproval || isNativeToken(sellToken.address)) return null;
+    const [leg] = quote.route.legs;
+    return () =>
+      simulateSwap(
+        leg.pool.poolId,
+        leg.tokenIn,
+        leg.amountIn,
+        leg.minAmountOut,
+        address,
+        address,
+        AMM_CONTRACT_ADDRESS,
+        provider,
+        { symbol: sellToken.symbol, decimals: sellToken.decimals },
+      );
+  }, [publicClient, address, quote, needsApproval, sellToken]);
+  const { simulation, simulating } = useSimulation(runSimulation);
+
+  // Gas for each transaction the swap sends: the approval when one is needed, then every leg
+  const approvalRequests = useMemo(() => {
+    if (wrapMode || requiredAmountIn === null) return null;
+    const native = isNativeToken(sellToken.address);
+    const token = native ? getWethAddress(chainId) : sellToken.address;
+    return token ? [{ token, amount: requiredAmountIn, symbol: native ? "WETH" : sellToken.symbol }] : null;
+  }, [wrapMode, requiredAmountIn, sellToken, chainId]);
+  const { rows: approvalGasRows, loading: approvalGasLoading } = useApprovalGas(
+    approvalRequests,
+    approvalMode,
+    AMM_CONTRACT_ADDRESS,
+  );
+  const gasRows = useMemo(() => {
+    if (!quote) return [];
+    const legs = quote.route.legs.length;
+    const native = isNativeToken(sellToken.address);
+    return [
+      ...(native ? [{ label: "Wrap ETH", gas: null, note: "Shown in wallet" }] : []),
+      ...approvalGasRows,
+      {
+        // Only the first leg can be dry-run, so later legs are assumed to cost the same
+        label: legs > 1 ? `Swap (${legs} legs)` : "Swap",
+        gas: simulation?.ok ? simulation.gasEstimate * BigInt(legs) : null,
+        note: native || needsApproval ? "Estimated after approval" : undefined,
+      },
+    ];
+  }, [quote, sellToken, approvalGasRows, simulation, needsApproval]);
 
   // Fetch token balances when wallet connects or tokens change
   useEffect(() => {
@@ -87,10 +214,7 @@ export default function SwapPage() {
     let mounted = true;
     (async () => {
       try {
-        const [sellBal, buyBal] = await Promise.all([
-          amm.getTokenBalance(provider, sellToken.address, address, sellToken.decimals ?? 18),
-          amm.getTokenBalance(provider, buyToken.address, address, buyToken.decimals ?? 18),
-        ]);
+        const [sellBal, buyBal] = await multicallTokenBalances([sellToken.address, buyToken.address], address, provider);
         if (mounted) {
           setSellTokenBalance(sellBal);
           setBuyTokenBalance(buyBal);
@@ -107,10 +231,9 @@ export default function SwapPage() {
   // Check token allowance for ERC20 tokens
   useEffect(() => {
     if (!isConnected || !address || !publicClient) return;
-    // Skip for native ETH
-    if (sellToken.address === "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE") {
-      setTokenAllowance("0");
-      setNeedsApproval(false);
+    // Skip for native ETH and WETH unwraps
+    if (isNativeToken(sellToken.address) || wrapMode) {
+      setTokenAllowance(null);
       return;
     }
 
@@ -120,17 +243,8 @@ export default function SwapPage() {
     let mounted = true;
     (async () => {
       try {
-        const allowance = await amm.getTokenAllowance(provider, sellToken.address, address, AMM_ADDRESS);
-        if (mounted) {
-          setTokenAllowance(allowance);
-          // Check if approval is needed
-          if (sellAmount) {
-            const amountInWei = parseUnits(sellAmount, sellToken.decimals ?? 18);
-            setNeedsApproval(BigInt(allowance) < amountInWei);
-          } else {
-            setNeedsApproval(false);
-          }
-        }
+        const allowance = await amm.getTokenAllowance(provider, sellToken.address, address, AMM_CONTRACT_ADDRESS);
+        if (mounted) setTokenAllowance(allowance);
       } catch (error) {
         console.error("Error checking allowance:", error);
       }
@@ -138,20 +252,78 @@ export default function SwapPage() {
     return () => {
       mounted = false;
     };
-  }, [isConnected, address, publicClient, sellToken, sellAmount]);
+  }, [isConnected, address, publicClient, sellToken, wrapMode]);
 
-  // Fetch on-chain quote when sellAmount or tokens change.
+  // Detect EIP-2612 support so the permit option is only offered where it works
   useEffect(() => {
+    if (!publicClient) return;
+    const provider = publicClientToProvider(publicClient);
+    if (!provider) return;
+
     let mounted = true;
-    setQuote(null);
-    setLoadingQuote(true);
-    setErrorMessage(null);
+    setPermitSupported(null);
+    supportsPermit(sellToken.address, provider).then((supported) => {
+      if (!mounted) return;
+      setPermitSupported(supported);
+      if (!supported) setApprovalMode((mode) => (mode === "permit" ? "exact" : mode));
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [publicClient, sellToken]);
 
-    if (!isConnected || !sellAmount || !sellToken || !buyToken || !publicClient) {
+  // Fetch on-chain quote when the typed amount or tokens change, then keep it
+  // fresh in the background as new blocks arrive.
+  const exactAmount = tradeType === "exactInput" ? sellAmount : buyAmountInput;
+
+  // USD estimates for both sides: the typed amount exactly, the other side from the quote
+  const usdEstimate = (token: RegisteredToken, raw: bigint | null | undefined) => {
+    const price = prices ? getTokenPrice(prices, token.address, chainId) : null;
+    const value = raw === null || raw === undefined ? null : getUsdValue(tokenAmount(token, raw), price);
+    return value === null ? null : `≈ ${formatUsd(value)}`;
+  };
+  const sellUsd = usdEstimate(
+    sellToken,
+    tradeType === "exactInput" || wrapMode ? tryParseTokenAmount(exactAmount, sellToken)?.raw : quote?.route.amountIn,
+  );
+  const buyUsd = usdEstimate(
+    buyToken,
+    tradeType === "exactOutput" || wrapMode ? tryParseTokenAmount(exactAmount, buyToken)?.raw : quote?.route.amountOut,
+  );
+  const quoteRequest = useMemo(
+    () => ({ tradeType, exactAmount, sellToken, buyToken, slippage, selectedPoolId, chainId }),
+    [tradeType, exactAmount, sellToken, buyToken, slippage, selectedPoolId, chainId],
+  );
+  const lastQuoteRequest = useRef<typeof quoteRequest | null>(null);
+  useEffect(() => {
+    // Same request as last time: this is a refresh, so keep showing the current quote meanwhile
+    const refreshing = lastQuoteRequest.current === quoteRequest;
+    lastQuoteRequest.current = quoteRequest;
+    // Never swap the quote out from under a transaction being signed
+    if (refreshing && submitting) return;
+
+    let mounted = true;
+    if (!refreshing) {
+      setQuote(null);
+      setReviewedRoute(null);
+      setLoadingQuote(true);
+      setErrorMessage(null);
+    }
+
+    if (!isConnected || !exactAmount || !sellToken || !buyToken || !publicClient || wrapMode) {
       setLoadingQuote(false);
       return;
     }
 
+    const exactToken = tradeType === "exactInput" ? sellToken : buyToken;
+    const invalidAmount = amountInputError(exactAmount, exactToken);
+    if (invalidAmount) {
+      setQuote(null);
+      setLoadingQuote(false);
+      setErrorMessage(inputError(invalidAmount));
+      return;
+    }
+
     const provider = publicClientToProvider(publicClient);
     if (!provider) {
       setLoadingQuote(false);
@@ -160,41 +332,52 @@ export default function SwapPage() {
 
     (async () => {
       try {
-        const out = await amm.getQuote(
-          provider as any,
-          ROUTER_ADDRESS || AMM_ADDRESS,
-          sellToken.address,
-          buyToken.address,
-          sellAmount,
-          sellToken.decimals ?? 18,
-          buyToken.decimals ?? 18,
-          undefined,
-          FACTORY_ADDRESS,
-        );
+        const amount = parseTokenAmount(exactAmount, exactToken).raw;
+        // Native ETH trades through the chain's WETH pools
+        const tokenIn = resolvePoolToken(sellToken.address, chainId);
+        const tokenOut = resolvePoolToken(buyToken.address, chainId);
+        const blockNumber = await provider.getBlockNumber();
+        // Probe every known fee tier directly so pools the index has not seen yet still quote
+        const pairPools = await discoverPairPools(tokenIn, tokenOut, AMM_CONTRACT_ADDRESS, provider);
+        const graph = await loadPoolGraph(poolEvents, AMM_CONTRACT_ADDRESS, provider, pairPools);
+        const routes =
+          tradeType === "exactInput"
+            ? findRoutes(graph, tokenIn, tokenOut, amount)
+            : findRoutesForOutput(graph, tokenIn, tokenOut, amount);
+        const tiers = compareFeeTiers(pairPools, tokenIn, tokenOut, amount, tradeType);
         if (!mounted) return;
-        if (!out) {
+        if (routes.length === 0) {
           setQuote(null);
-          setErrorMessage("Unable to fetch quote. Pool may not exist.");
+          setErrorMessage(appError("POOL_NOT_FOUND", { message: "No pool path with liquidity connects this pair." }));
           return;
         }
-        const buyHuman = formatUnits(out, buyToken.decimals ?? 18);
-        const slippagePercent = parseFloat(slippage.replace("%", ""));
-        const minReceived = (Number(buyHuman) * (1 - slippagePercent / 100)).toFixed(6);
-        const priceRatio = Number(buyHuman) / Number(sellAmount);
+        const selectedTier = tiers.find((tier) => tier.pool.poolId === selectedPoolId);
+        const route = withSlippage(selectedTier?.route ?? routes[0], percentToBps(slippage));
+        const decimalsIn = sellToken.decimals ?? 18;
+        const decimalsOut = buyToken.decimals ?? 18;
         setQuote({
-          sellAmount: sellAmount,
-          buyAmount: buyHuman,
-          minReceived,
-          executionPrice: `1 ${sellToken.symbol} ≈ ${priceRatio.toFixed(6)} ${buyToken.symbol}`,
-          impact: "~0.04%", // TODO: Calculate actual price impact
-          routeCount: 1,
+          route,
+          sellAmount: toAmountInput(tokenAmount(sellToken, route.amountIn)),
+          buyAmount: toAmountInput(tokenAmount(buyToken, route.amountOut)),
+          minAmountOut: route.minAmountOut,
+          minReceived: formatTokenAmount(tokenAmount(buyToken, route.minAmountOut)),
+          maxSold: formatTokenAmount(tokenAmount(sellToken, route.maxAmountIn)),
+          executionPrice: `1 ${sellToken.symbol} ≈ ${formatRatio(route.executionPrice, 6, decimalsIn - decimalsOut)} ${buyToken.symbol}`,
+          impact: formatPercent(route.priceImpact),
+          routeCount: routes.length,
+          tiers,
+          blockNumber,
+          quotedAt: Date.now(),
         });
+        // A refresh can land before the first quote did, so only fill an empty baseline
+        setReviewedRoute((reviewed) => (refreshing ? (reviewed ?? route) : route));
         setErrorMessage(null);
-      } catch (e: any) {
+      } catch (e: unknown) {
         console.error("quote error", e);
+        // A failed refresh keeps the previous quote, which expires on its own
         if (mounted) {
-          setQuote(null);
-          setErrorMessage(e?.message || "Failed to fetch quote");
+          if (!refreshing) setQuote(null);
+          setErrorMessage(decodeError(e));
         }
       } finally {
         if (mounted) setLoadingQuote(false);
@@ -203,21 +386,42 @@ export default function SwapPage() {
     return () => {
       mounted = false;
     };
-  }, [isConnected, sellAmount, sellToken, buyToken, publicClient, slippage]);
+  }, [
+    quoteRequest,
+    isConnected,
+    tradeType,
+    exactAmount,
+    sellToken,
+    buyToken,
+    publicClient,
+    slippage,
+    poolEvents,
+    selectedPoolId,
+    chainId,
+    wrapMode,
+    refreshTick,
+    manualRefresh,
+    submitting,
+  ]);
+
+  // A different pair has different pools; fall back to automatic selection.
+  useEffect(() => {
+    setSelectedPoolId(null);
+  }, [sellToken, buyToken]);
 
   const handleFlip = () => {
-    const tempToken = sellToken;
     const tempBalance = sellTokenBalance;
-    setSellToken(buyToken);
-    setBuyToken(tempToken);
+    setSellAddress(buyToken.address);
+    setBuyAddress(sellToken.address);
     setSellTokenBalance(buyTokenBalance);
     setBuyTokenBalance(tempBalance);
     setSellAmount("");
+    setBuyAmountInput("");
     setQuote(null);
   };
 
   const handleApprove = useCallback(async () => {
-    if (!isConnected || !address || !walletClient || !sellToken) return;
+    if (!isConnected || !address || !walletClient || !sellToken || requiredAmountIn === null) return;
 
     try {
       setApproving(true);
@@ -225,83 +429,147 @@ export default function SwapPage() {
       const signer = await walletClientToSigner(walletClient);
       if (!signer) throw new Error("Failed to get signer");
 
-      await amm.approveToken(signer, sellToken.address, AMM_ADDRESS);
-      
+      await approveWithMode(approvalMode, signer, sellToken.address, AMM_CONTRACT_ADDRESS, requiredAmountIn);
+
       // Refresh allowance
       if (publicClient) {
         const provider = publicClientToProvider(publicClient);
         if (provider) {
-          const newAllowance = await amm.getTokenAllowance(provider, sellToken.address, address, AMM_ADDRESS);
+          const newAllowance = await amm.getTokenAllowance(provider, sellToken.address, address, AMM_CONTRACT_ADDRESS);
           setTokenAllowance(newAllowance);
-          setNeedsApproval(false);
         }
       }
     } catch (error: unknown) {
       console.error("Approval error:", error);
-      const errorMessage = error instanceof Error ? error.message : "Approval failed";
-      setErrorMessage(errorMessage);
+      setErrorMessage(decodeError(error, { symbol: sellToken.symbol, decimals: sellToken.decimals }));
     } finally {
       setApproving(false);
     }
-  }, [isConnected, address, walletClient, sellToken, publicClient]);
+  }, [isConnected, address, walletClient, sellToken, publicClient, approvalMode, requiredAmountIn]);
 
   const handleSwap = useCallback(async () => {
-    if (!isConnected || !address || !walletClient || !sellAmount || !quote) return;
+    if (!isConnected || !address || !walletClient || !quote) return;
+    if (Date.now() - quote.quotedAt >= QUOTE_MAX_AGE_SECONDS * 1000) {
+      setErrorMessage(appError("QUOTE_EXPIRED"));
+      return;
+    }
 
     try {
       setSubmitting(true);
       setTxStatus("pending");
+      setSwapResult(null);
+      setWrapMessage(null);
       setErrorMessage(null);
       const signer = await walletClientToSigner(walletClient);
       if (!signer) throw new Error("Failed to get signer");
 
-      const amountIn = parseUnits(sellAmount, sellToken.decimals ?? 18);
-      const minAmountOut = parseUnits(quote.minReceived, buyToken.decimals ?? 18);
-
-      const result = await amm.swap(
-        signer,
-        AMM_ADDRESS,
-        sellToken.address,
-        buyToken.address,
-        amountIn.toString(),
-        minAmountOut.toString(),
+      const weth = getWethAddress(chainId) ?? undefined;
+      const result = await executeRoute(
+        quote.route,
         address, // recipient
-        30, // feeBps - default 0.3%
+        AMM_CONTRACT_ADDRESS,
+        signer,
+        {
+          onLeg: (_, legResult) => setTxHash(legResult.receipt.hash),
+          wrapInputWith: isNativeToken(sellToken.address) ? weth : undefined,
+          unwrapOutputWith: isNativeToken(buyToken.address) ? weth : undefined,
+          approvalMode,
+          // The quote's own expiry: waiting in the wallet does not extend it
+          deadline: Math.floor(quote.quotedAt / 1000) + QUOTE_MAX_AGE_SECONDS,
+        },
       );
 
-      if (result?.receipt) {
-        setTxHash(result.receipt.transactionHash);
+      if (result.incomplete) {
+        const { failedLeg, token, amount, error } = result.incomplete;
+        const held = findToken(tokens, token);
+        setTxStatus("error");
+        setErrorMessage(
+          appError("ROUTE_INCOMPLETE", {
+            message: `Leg${failedLeg > 1 ? `s 1–${failedLeg}` : " 1"} of ${result.route.legs.length} executed, then leg ${failedLeg + 1} failed: ${error.message} You now hold ${
+              held ? formatTokenAmount(tokenAmount(held, amount), { symbol: true }) : `${amount} base units of ${shortenAddress(token, 4)}`
+            }.`,
+            details: error.details,
+          }),
+        );
+      } else if (result.results.length > 0) {
+        setSwapResult(result);
         setTxStatus("success");
-        
+
         // Refresh balances after successful swap
         if (publicClient) {
           const provider = publicClientToProvider(publicClient);
           if (provider) {
-            const [newSellBal, newBuyBal] = await Promise.all([
-              amm.getTokenBalance(provider, sellToken.address, address, sellToken.decimals ?? 18),
-              amm.getTokenBalance(provider, buyToken.address, address, buyToken.decimals ?? 18),
-            ]);
+            const [newSellBal, newBuyBal] = await multicallTokenBalances(
+              [sellToken.address, buyToken.address],
+              address,
+              provider,
+            );
             setSellTokenBalance(newSellBal);
             setBuyTokenBalance(newBuyBal);
           }
         }
-        
-        // Reset form after successful swap
-        setTimeout(() => {
-          setSellAmount("");
-          setQuote(null);
-          setTxStatus("idle");
-        }, 3000);
+
+        // The transaction manager keeps the record, so the form can reset right away
+        setSellAmount("");
+        setBuyAmountInput("");
+        setQuote(null);
       }
     } catch (error: unknown) {
       console.error("Swap error:", error);
       setTxStatus("error");
-      const errorMessage = error instanceof Error ? error.message : "Swap failed";
-      setErrorMessage(errorMessage);
+      setErrorMessage(decodeError(error, { symbol: sellToken.symbol, decimals: sellToken.decimals }));
+    } finally {
+      setSubmitting(false);
+    }
+  }, [isConnected, address, walletClient, quote, sellToken, buyToken, publicClient, chainId, approvalMode, tokens]);
+
+  const handleWrap = useCallback(async () => {
+    const weth = getWethAddress(chainId);
+    if (!isConnected || !address || !walletClient || !exactAmount || !weth) return;
+    const invalidAmount = amountInputError(exactAmount, sellToken);
+    if (invalidAmount) {
+      setErrorMessage(inputError(invalidAmount));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setTxStatus("pending");
+      setSwapResult(null);
+      setWrapMessage(null);
+      setErrorMessage(null);
+      const signer = await walletClientToSigner(walletClient);
+      if (!signer) throw new Error("Failed to get signer");
+
+      const amount = parseTokenAmount(exactAmount, sellToken).raw;
+      const wrapping = isNativeToken(sellToken.address);
+      const receipt = wrapping ? await wrapEth(amount, weth, signer) : await unwrapEth(amount, weth, signer);
+      setTxHash(receipt.hash);
+      setWrapMessage(`${wrapping ? "Wrapped" : "Unwrapped"} ${exactAmount} ${sellToken.symbol} into ${buyToken.symbol}. `);
+      setTxStatus("success");
+
+      if (publicClient) {
+        const provider = publicClientToProvider(publicClient);
+        if (provider) {
+          const [newSellBal, newBuyBal] = await multicallTokenBalances(
+            [sellToken.address, buyToken.address],
+            address,
+            provider,
+          );
+          setSellTokenBalance(newSellBal);
+          setBuyTokenBalance(newBuyBal);
+        }
+      }
+      setSellAmount("");
+      setBuyAmountInput("");
+    } catch (error: unknown) {
+      console.error("Wrap error:", error);
+      setTxStatus("error");
+      setErrorMessage(decodeError(error, { symbol: sellToken.symbol, decimals: 18 }));
     } finally {
       setSubmitting(false);
     }
-  }, [isConnected, address, walletClient, sellAmount, quote, sellToken, buyToken, publicClient]);
+  }, [isConnected, address, walletClient, exactAmount, sellToken, buyToken, publicClient, chainId]);
 
   return (
     <main className="mx-auto flex w-full max-w-6xl flex-1 flex-col gap-12 px-6 py-14">
@@ -348,39 +616,37 @@ export default function SwapPage() {
             <div className="space-y-2 rounded-2xl border border-zinc-200 bg-white px-4 py-4 dark:border-zinc-800 dark:bg-zinc-950/50">
               <div className="flex items-center justify-between text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">
                 <span>Sell</span>
+                {tradeType === "exactInput" ? <span className="text-emerald-500">Exact</span> : <span>Estimated</span>}
               </div>
               <div className="mt-3 flex flex-wrap items-center justify-between gap-4">
-                <div className="relative flex flex-1 items-center gap-2">
-                  <select
-                    className="w-full appearance-none rounded-2xl border border-zinc-200 bg-white px-4 py-3 pr-10 text-sm font-semibold text-zinc-700 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
-                    value={sellToken.symbol}
-                    onChange={(event) =>
-                      setSellToken(tokens.find((token) => token.symbol === event.target.value) ?? tokens[0])
-                    }
-                  >
-                    {tokens.map((token) => (
-                      <option key={token.symbol} value={token.symbol}>
-                        {token.symbol} · {token.name}
-                      </option>
-                    ))}
-                  </select>
-                  <span className="pointer-events-none absolute right-4 top-1/2 -translate-y-1/2 text-xs text-zinc-400">▾</span>
-                </div>
+                <TokenSelector
+                  value={sellToken}
+                  onChange={(token) => setSellAddress(token.address)}
+                  disabledAddress={buyToken.address}
+                  className="flex-1"
+                />
                 <input
                   type="number"
                   placeholder={isConnected ? "0.0" : "Connect wallet"}
                   disabled={!isConnected}
-                  value={sellAmount}
-                  onChange={(e) => setSellAmount(e.target.value)}
+                  value={
+                    tradeType === "exactInput" || wrapMode ? exactAmount : loadingQuote ? "" : quote?.sellAmount ?? ""
+                  }
+                  onChange={(e) => {
+                    setTradeType("exactInput");
+                    setSellAmount(e.target.value);
+                  }}
                   className="w-full max-w-[160px] rounded-2xl border border-transparent bg-transparent text-right text-3xl font-semibold tracking-tight text-zinc-900 outline-none placeholder:text-zinc-300 dark:text-zinc-100"
                 />
               </div>
+              {sellUsd ? <p className="text-right text-xs text-zinc-400">{sellUsd}</p> : null}
               <div className="flex flex-wrap items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
-                <span>Balance: {isConnected ? sellTokenBalance : sellToken.balance} {sellToken.symbol}</span>
+                <span>Balance: {isConnected ? formatTokenAmount(tokenAmount(sellToken, sellTokenBalance), { symbol: true }) : "—"}</span>
                 <button
                   onClick={() => {
-                    if (isConnected && sellTokenBalance) {
-                      setSellAmount(sellTokenBalance);
+                    if (isConnected && sellTokenBalance > BigInt(0)) {
+                      setTradeType("exactInput");
+                      setSellAmount(toAmountInput(tokenAmount(sellToken, sellTokenBalance)));
                     }
                   }}
                   className="text-emerald-500 hover:text-emerald-600"
@@ -400,38 +666,43 @@ export default function SwapPage() {
             </div>
 
             <div className="space-y-2 rounded-2xl border border-zinc-200 bg-white px-4 py-4 dark:border-zinc-800 dark:bg-zinc-950/50">
-              <div className="text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">Buy</div>
+              <div className="flex items-center justify-between text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">
+                <span>Buy</span>
+                {tradeType === "exactOutput" ? <span className="text-emerald-500">Exact</span> : <span>Estimated</span>}
+              </div>
               <div className="mt-3 flex flex-wrap items-center justify-between gap-4">
-                <div className="relative flex flex-1 items-center gap-2">
-                  <select
-                    className="w-full appearance-none rounded-2xl border border-zinc-200 bg-white px-4 py-3 pr-10 text-sm font-semibold text-zinc-700 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
-                    value={buyToken.symbol}
-                    onChange={(event) =>
-                      setBuyToken(tokens.find((token) => token.symbol === event.target.value) ?? tokens[1])
-                    }
-                  >
-                    {tokens.map((token) => (
-                      <option key={token.symbol} value={token.symbol}>
-                        {token.symbol} · {token.name}
-                      </option>
-                    ))}
-                  </select>
-                  <span className="pointer-events-none absolute right-4 top-1/2 -translate-y-1/2 text-xs text-zinc-400">▾</span>
-                </div>
+                <TokenSelector
+                  value={buyToken}
+                  onChange={(token) => setBuyAddress(token.address)}
+                  disabledAddress={sellToken.address}
+                  className="flex-1"
+                />
                 <input
-                  type="text"
+                  type="number"
                   placeholder={loadingQuote ? "Loading..." : isConnected ? "~ 0.00" : "—"}
-                  disabled
-                  value={loadingQuote ? "" : quote?.buyAmount ?? ""}
+                  disabled={!isConnected}
+                  value={
+                    tradeType === "exactOutput" || wrapMode ? exactAmount : loadingQuote ? "" : quote?.buyAmount ?? ""
+                  }
+                  onChange={(e) => {
+                    setTradeType("exactOutput");
+                    setBuyAmountInput(e.target.value);
+                  }}
                   className="w-full max-w-[160px] rounded-2xl border border-transparent bg-transparent text-right text-3xl font-semibold tracking-tight text-emerald-500 outline-none"
                 />
               </div>
+              {buyUsd ? <p className="text-right text-xs text-zinc-400">{buyUsd}</p> : null}
               <div className="flex flex-wrap items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
-                <span>Balance: {isConnected ? buyTokenBalance : buyToken.balance} {buyToken.symbol}</span>
-                <span>Price: {buyToken.price}</span>
+                <span>Balance: {isConnected ? formatTokenAmount(tokenAmount(buyToken, buyTokenBalance), { symbol: true }) : "—"}</span>
               </div>
             </div>
 
+            {[sellToken, buyToken]
+              .filter((token) => !token.listed)
+              .map((token) => (
+                <UnlistedTokenWarning key={token.address} token={token} />
+              ))}
+
             <div className="rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 text-sm text-zinc-600 dark:border-zinc-700 dark:bg-zinc-900/60 dark:text-zinc-300">
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <span className="font-semibold text-zinc-700 dark:text-zinc-200">Slippage tolerance</span>
@@ -458,52 +729,131 @@ export default function SwapPage() {
                   ) : null}
                 </div>
               </div>
+              {!wrapMode && !isNativeToken(sellToken.address) ? (
+                <ApprovalModeSelector
+                  value={approvalMode}
+                  onChange={setApprovalMode}
+                  permitSupported={permitSupported}
+                  className="mt-3 border-t border-zinc-200 pt-3 dark:border-zinc-700"
+                />
+              ) : null}
               <div className="mt-3 flex flex-wrap items-center justify-between text-xs">
-                <span>Network fee: ~$4.28</span>
                 <span>
-                  Protocol fee: <strong className="text-emerald-500">0.01%</strong>
+                  Pool fee:{" "}
+                  <strong className="text-emerald-500">
+                    {quote ? quote.route.legs.map((leg) => `${(leg.pool.feeBps / 100).toFixed(2)}%`).join(" + ") : "—"}
+                  </strong>
                 </span>
               </div>
             </div>
 
-            {errorMessage && (
-              <div className="rounded-2xl border border-red-200 bg-red-50/70 p-3 text-sm text-red-700 dark:border-red-500/40 dark:bg-red-500/10 dark:text-red-200">
-                {errorMessage}
-              </div>
-            )}
+            {errorMessage && <ErrorAlert error={errorMessage} />}
+
+            {!wrapMode && quote ? (
+              <SimulationPreview
+                simulation={simulation}
+                simulating={simulating}
+                skippedReason={
+                  isNativeToken(sellToken.address)
+                    ? "The swap is simulated after your ETH is wrapped, right before you sign."
+                    : null
+                }
+                describe={(result) => {
+                  const [leg] = quote.route.legs;
+                  if (quote.route.legs.length === 1) {
+                    return [{ label: "You receive", value: formatTokenAmount(tokenAmount(buyToken, result.amountOut), { symbol: true }) }];
+                  }
+                  const known = findToken(tokens, leg.tokenOut);
+                  return [
+                    {
+                      label: `Leg 1 output (${tokenLabel(leg.tokenOut)})`,
+                      value: known ? formatTokenAmount(tokenAmount(known, result.amountOut)) : `${result.amountOut} base units`,
+                    },
+                  ];
+                }}
+              />
+            ) : null}
+
+            {!wrapMode && quote ? (
+              <NetworkCost
+                rows={gasRows}
+                loading={approvalGasLoading || simulating}
+                className="rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 text-zinc-600 dark:border-zinc-700 dark:bg-zinc-900/60 dark:text-zinc-300"
+              />
+            ) : null}
 
             {txStatus === "success" && txHash && (
               <div className="rounded-2xl border border-emerald-200 bg-emerald-50/70 p-3 text-sm text-emerald-700 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-200">
-                Swap successful! Transaction: {shortenAddress(txHash, 8)}
+                Swap successful!{" "}
+                {wrapMessage}
+                {swapResult
+                  ? `Sold ${swapResult.results[0].tokenInAmount.formatted} ${swapResult.results[0].tokenInAmount.symbol} for ${swapResult.results[swapResult.results.length - 1].tokenOutAmount.formatted} ${swapResult.results[swapResult.results.length - 1].tokenOutAmount.symbol}. `
+                  : null}
+                Transaction: {shortenAddress(txHash, 8)}
               </div>
             )}
 
-            {needsApproval && sellToken.address !== "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" ? (
+            {needsApproval && !isNativeToken(sellToken.address) ? (
               <button
                 className="w-full rounded-2xl bg-blue-500 py-4 text-base font-semibold text-white shadow-lg shadow-blue-500/30 transition hover:bg-blue-600 disabled:bg-zinc-300 disabled:text-zinc-500"
                 disabled={!isConnected || approving}
                 onClick={handleApprove}
               >
-                {approving ? "Approving…" : `Approve ${sellToken.symbol}`}
+                {approving
+                  ? approvalMode === "permit"
+                    ? "Signing permit…"
+                    : "Approving…"
+                  : approvalMode === "permit"
+                    ? `Sign permit for ${sellToken.symbol}`
+                    : approvalMode === "unlimited"
+                      ? `Approve unlimited ${sellToken.symbol}`
+                      : `Approve ${formatTokenAmount(tokenAmount(sellToken, requiredAmountIn ?? BigInt(0)), { symbol: true })}`}
               </button>
             ) : (
               <button
                 className="w-full rounded-2xl bg-emerald-500 py-4 text-base font-semibold text-white shadow-lg shadow-emerald-500/30 transition hover:bg-emerald-600 disabled:bg-zinc-300 disabled:text-zinc-500"
-                disabled={!isConnected || !sellAmount || submitting || loadingQuote || !quote}
-                onClick={handleSwap}
+                disabled={
+                  !isConnected ||
+                  !exactAmount ||
+                  submitting ||
+                  (!wrapMode && (loadingQuote || !quote || (simulation?.ok === false && !quoteStale)))
+                }
+                onClick={
+                  wrapMode
+                    ? handleWrap
+                    : quoteStale
+                      ? () => setManualRefresh((count) => count + 1)
+                      : needsPriceReview
+                        ? () => setReviewedRoute(quote?.route ?? null)
+                        : handleSwap
+                }
               >
                 {submitting
                   ? "Submitting…"
                   : txStatus === "pending"
                     ? "Transaction Pending…"
-                    : !quote
-                      ? "Enter amount"
-                      : "Review & Execute"}
+                    : wrapMode
+                      ? isNativeToken(sellToken.address)
+                        ? "Wrap ETH"
+                        : "Unwrap WETH"
+                      : !quote
+                        ? "Enter amount"
+                        : quoteStale
+                          ? "Quote expired — Refresh"
+                          : needsPriceReview
+                            ? "Accept New Price"
+                            : "Review & Execute"}
               </button>
             )}
+            {!wrapMode && needsPriceReview && priceChange && !quoteStale ? (
+              <p className="text-center text-xs text-rose-500">
+                The price moved {formatPercent({ ...priceChange, numerator: -priceChange.numerator })} against you since you reviewed this quote.
+              </p>
+            ) : null}
             {isConnected ? (
               <p className="text-center text-xs text-zinc-500 dark:text-zinc-400">
-                QuantumRouter will batch quotes across {quote?.routeCount ?? 0} pools and settle atomically.
+                Best of {quote?.routeCount ?? 0} candidate routes
+                {quote && quote.route.legs.length > 1 ? `, settled as ${quote.route.legs.length} swaps` : ""}.
               </p>
             ) : null}
           </div>
@@ -518,20 +868,84 @@ export default function SwapPage() {
           </div>
 
           <div className="space-y-3 rounded-2xl border border-zinc-200 bg-white/60 p-4 dark:border-zinc-800 dark:bg-zinc-950/40">
-            {routeLegs.map((leg) => (
-              <div key={leg.step} className="flex items-start gap-3">
-                <span className="mt-1 text-lg text-emerald-500">{leg.step}</span>
+            {wrapMode ? (
+              <div className="flex items-start gap-3">
+                <span className="mt-1 text-lg text-emerald-500">{legMarkers[0]}</span>
                 <div className="flex-1">
-                  <div className="flex items-center justify-between text-sm font-semibold text-zinc-900 dark:text-zinc-50">
-                    <span>{leg.description}</span>
-                    <span className="text-xs font-semibold text-emerald-500">{leg.weight}</span>
+                  <div className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                    {sellToken.symbol} → {buyToken.symbol}
                   </div>
-                  <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">{leg.detail}</p>
+                  <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    {isNativeToken(sellToken.address) ? "Wrapped" : "Unwrapped"} on-chain 1:1 (no pool fee)
+                  </p>
                 </div>
               </div>
-            ))}
+            ) : quote ? (
+              quote.route.legs.map((leg, index) => (
+                <div key={`${leg.pool.poolId}-${index}`} className="flex items-start gap-3">
+                  <span className="mt-1 text-lg text-emerald-500">{legMarkers[index] ?? index + 1}</span>
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                      <span>
+                        {tokenLabel(leg.tokenIn)} → {tokenLabel(leg.tokenOut)}
+                      </span>
+                      <span className="text-xs font-semibold text-emerald-500">{formatPercent(leg.priceImpact)} impact</span>
+                    </div>
+                    <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                      QuantumDEX pool {shortenAddress(leg.pool.poolId, 4)} ({(leg.pool.feeBps / 100).toFixed(2)}% fee tier)
+                    </p>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                {loadingQuote ? "Searching pools for the best path…" : "The best route appears here once you enter an amount."}
+              </p>
+            )}
           </div>
 
+          {quote && quote.tiers.length > 0 ? (
+            <div className="space-y-2 rounded-2xl border border-zinc-200 bg-white/60 p-4 dark:border-zinc-800 dark:bg-zinc-950/40">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-zinc-800 dark:text-zinc-100">Fee tiers</h3>
+                <button
+                  onClick={() => setSelectedPoolId(null)}
+                  className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                    selectedPoolId === null
+                      ? "bg-emerald-500 text-white"
+                      : "border border-zinc-200 text-zinc-600 hover:border-emerald-400 hover:text-emerald-500 dark:border-zinc-700 dark:text-zinc-300"
+                  }`}
+                >
+                  Auto
+                </button>
+              </div>
+              {quote.tiers.map((tier, index) => {
+                const selected = quote.route.legs.length === 1 && quote.route.legs[0].pool.poolId === tier.pool.poolId;
+                return (
+                  <button
+                    key={tier.pool.poolId}
+                    onClick={() => setSelectedPoolId(tier.pool.poolId)}
+                    className={`flex w-full items-center justify-between rounded-xl border px-3 py-2 text-left text-xs transition ${
+                      selected
+                        ? "border-emerald-400 bg-emerald-50/70 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-200"
+                        : "border-zinc-200 text-zinc-600 hover:border-emerald-400 dark:border-zinc-700 dark:text-zinc-300"
+                    }`}
+                  >
+                    <span className="font-semibold">
+                      {(tier.feeBps / 100).toFixed(2)}%{index === 0 ? " · Best" : ""}
+                    </span>
+                    <span>
+                      {tradeType === "exactInput"
+                        ? formatTokenAmount(tokenAmount(buyToken, tier.route.amountOut), { symbol: true })
+                        : formatTokenAmount(tokenAmount(sellToken, tier.route.amountIn), { symbol: true })}
+                    </span>
+                    <span>{formatPercent(tier.route.priceImpact)} impact</span>
+                  </button>
+                );
+              })}
+            </div>
+          ) : null}
+
           {loadingQuote ? (
             <div className="rounded-2xl border border-zinc-200/70 bg-zinc-50/70 p-4 text-sm text-zinc-500 dark:border-zinc-800/60 dark:bg-zinc-900/60 dark:text-zinc-300">
               <div className="flex items-center justify-center gap-2">
@@ -547,13 +961,30 @@ export default function SwapPage() {
               <div className="mt-2 flex items-center justify-between">
                 <span>Slippage ({slippage})</span>
                 <span className="font-semibold text-emerald-500">
-                  {quote.minReceived} {buyToken.symbol} min received
+                  {quote.route.tradeType === "exactOutput"
+                    ? `${quote.maxSold} ${sellToken.symbol} max sold`
+                    : `${quote.minReceived} ${buyToken.symbol} min received`}
                 </span>
               </div>
               <div className="mt-2 flex items-center justify-between">
                 <span>Price impact</span>
                 <span className="font-semibold text-emerald-500">{quote.impact}</span>
               </div>
+              {priceChange ? (
+                <div className="mt-2 flex items-center justify-between">
+                  <span>Since your review</span>
+                  <span className={`font-semibold ${needsPriceReview ? "text-rose-500" : "text-emerald-500"}`}>
+                    {priceChange.numerator > BigInt(0) ? "+" : ""}
+                    {formatPercent(priceChange)}
+                  </span>
+                </div>
+              ) : null}
+              <div className="mt-2 flex items-center justify-between">
+                <span>Quoted at block {quote.blockNumber.toLocaleString()}</span>
+                <span className={`font-semibold ${quoteStale ? "text-amber-500" : "text-emerald-500"}`}>
+                  {quoteStale ? "Expired" : `${quoteAge}s ago`}
+                </span>
+              </div>
               {txHash && (
                 <div className="mt-3 rounded-lg border border-emerald-300/50 bg-emerald-100/50 p-2 text-xs">
                   <div className="flex items-center justify-between">
@@ -571,9 +1002,7 @@ export default function SwapPage() {
               )}
             </div>
           ) : errorMessage ? (
-            <div className="rounded-2xl border border-red-200/70 bg-red-50/70 p-4 text-sm text-red-700 dark:border-red-500/40 dark:bg-red-500/10 dark:text-red-200">
-              {errorMessage}
-            </div>
+            <ErrorAlert error={errorMessage} />
           ) : (
             <div className="rounded-2xl border border-zinc-200/70 bg-zinc-50/70 p-4 text-sm text-zinc-500 dark:border-zinc-800/60 dark:bg-zinc-900/60 dark:text-zinc-300">
               {isConnected
@@ -0,0 +1,45 @@
+"use client";
+
+import { APPROVAL_MODES, type ApprovalMode } from "@/lib/approvals";
+
+type ApprovalModeSelectorProps = {
+  value: ApprovalMode;
+  onChange: (mode: ApprovalMode) => void;
+  /** Null while detection is running; permits are only offered when true. */
+  permitSupported: boolean | null;
+  className?: string;
+};
+
+export const ApprovalModeSelector = ({ value, onChange, permitSupported, className = "" }: ApprovalModeSelectorProps) => {
+  const selected = APPROVAL_MODES.find((mode) => mode.value === value);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-zinc-700 dark:text-zinc-200">Approval</span>
+        <div className="flex items-center gap-2">
+          {APPROVAL_MODES.map((mode) => {
+            const disabled = mode.value === "permit" && !permitSupported;
+            return (
+              <button
+                key={mode.value}
+                type="button"
+                disabled={disabled}
+                title={disabled ? "This token does not support EIP-2612 permits" : mode.description}
+                onClick={() => onChange(mode.value)}
+                className={`rounded-full px-3 py-1 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-40 ${
+                  value === mode.value
+                    ? "bg-emerald-500 text-white"
+                    : "border border-zinc-200 text-zinc-600 hover:border-emerald-400 hover:text-emerald-500 dark:border-zinc-700 dark:text-zinc-300"
+                }`}
+              >
+                {mode.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      {selected ? <p className="text-xs text-zinc-500 dark:text-zinc-400">{selected.description}</p> : null}
+    </div>
+  );
+};
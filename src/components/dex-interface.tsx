@@ -1,32 +1,58 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
-import { useAccount, useChainId } from "wagmi";
+import { useAccount, usePublicClient } from "wagmi";
 import { AppKitConnectButton } from "@reown/appkit/react";
 
 import { networks } from "@/config/wagmi";
+import { publicClientToProvider } from "@/config/adapter";
+import { multicallTokenBalances } from "@/lib/multicall";
+import { findToken } from "@/lib/token-list";
+import { formatTokenAmount, tokenAmount } from "@/lib/token-amount";
 import { shortenAddress } from "@/lib/utils";
-
-const tokens = [
-  { symbol: "ETH", name: "Ethereum", balance: "12.46", price: 2980.2 },
-  { symbol: "USDC", name: "USD Coin", balance: "42300.12", price: 1.0 },
-  { symbol: "WBTC", name: "Wrapped Bitcoin", balance: "2.14", price: 58420.15 },
-  { symbol: "ARB", name: "Arbitrum", balance: "18920.00", price: 1.23 },
-];
+import { useTokenList } from "@/hooks/use-token-list";
+import { TokenSelector } from "@/components/token-selector";
 
 export const DexInterface = () => {
   const { address, isConnected } = useAccount();
-  const chainId = useChainId();
-  const [sellToken, setSellToken] = useState(tokens[0]);
-  const [buyToken, setBuyToken] = useState(tokens[1]);
+  const publicClient = usePublicClient();
+  const { chainId, tokens } = useTokenList();
+  const [sellAddress, setSellAddress] = useState<string | null>(null);
+  const [buyAddress, setBuyAddress] = useState<string | null>(null);
   const [sellAmount, setSellAmount] = useState<string>("");
+  const [balances, setBalances] = useState<{ key: string; values: [string, string] } | null>(null);
+
+  const sellToken = (sellAddress && findToken(tokens, sellAddress)) || tokens[0];
+  const buyToken = (buyAddress && findToken(tokens, buyAddress)) || tokens[tokens.length > 1 ? 1 : 0];
+  const balanceKey = `${chainId}:${address}:${sellToken.address}:${buyToken.address}`;
+  const [sellBalance, buyBalance] = balances?.key === balanceKey ? balances.values : ["—", "—"];
 
   const activeNetwork = networks.find((item) => item.id === chainId);
 
+  useEffect(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !address) return;
+
+    let mounted = true;
+    multicallTokenBalances([sellToken.address, buyToken.address], address, provider)
+      .then(([sell, buy]) => {
+        if (mounted) {
+          setBalances({
+            key: balanceKey,
+            values: [formatTokenAmount(tokenAmount(sellToken, sell)), formatTokenAmount(tokenAmount(buyToken, buy))],
+          });
+        }
+      })
+      .catch((error) => console.error("Error fetching balances:", error));
+    return () => {
+      mounted = false;
+    };
+  }, [publicClient, address, sellToken, buyToken, balanceKey]);
+
   const handleFlip = () => {
-    setSellToken(buyToken);
-    setBuyToken(sellToken);
+    setSellAddress(buyToken.address);
+    setBuyAddress(sellToken.address);
     setSellAmount("");
   };
 
@@ -60,20 +86,15 @@ export const DexInterface = () => {
           <div className="rounded-2xl border border-purple-200/60 bg-white px-4 py-4 dark:border-purple-800/60 dark:bg-zinc-950/50">
             <div className="mb-3 flex items-center justify-between text-xs font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
               <span>Sell</span>
-              <span className="text-zinc-400">Balance: {sellToken.balance}</span>
+              <span className="text-zinc-400">Balance: {sellBalance}</span>
             </div>
             <div className="flex items-center justify-between gap-4">
-              <select
-                className="flex-1 appearance-none rounded-xl border border-purple-200/60 bg-white px-4 py-3 text-sm font-semibold text-zinc-700 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20 dark:border-purple-800/60 dark:bg-zinc-900 dark:text-zinc-100"
-                value={sellToken.symbol}
-                onChange={(e) => setSellToken(tokens.find((t) => t.symbol === e.target.value) ?? tokens[0])}
-              >
-                {tokens.map((token) => (
-                  <option key={token.symbol} value={token.symbol}>
-                    {token.symbol}
-                  </option>
-                ))}
-              </select>
+              <TokenSelector
+                value={sellToken}
+                onChange={(token) => setSellAddress(token.address)}
+                disabledAddress={buyToken.address}
+                className="flex-1"
+              />
               <input
                 type="number"
                 placeholder="0.0"
@@ -101,20 +122,15 @@ export const DexInterface = () => {
           <div className="rounded-2xl border border-purple-200/60 bg-white px-4 py-4 dark:border-purple-800/60 dark:bg-zinc-950/50">
             <div className="mb-3 flex items-center justify-between text-xs font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
               <span>Buy</span>
-              <span className="text-zinc-400">Balance: {buyToken.balance}</span>
+              <span className="text-zinc-400">Balance: {buyBalance}</span>
             </div>
             <div className="flex items-center justify-between gap-4">
-              <select
-                className="flex-1 appearance-none rounded-xl border border-purple-200/60 bg-white px-4 py-3 text-sm font-semibold text-zinc-700 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20 dark:border-purple-800/60 dark:bg-zinc-900 dark:text-zinc-100"
-                value={buyToken.symbol}
-                onChange={(e) => setBuyToken(tokens.find((t) => t.symbol === e.target.value) ?? tokens[1])}
-              >
-                {tokens.map((token) => (
-                  <option key={token.symbol} value={token.symbol}>
-                    {token.symbol}
-                  </option>
-                ))}
-              </select>
+              <TokenSelector
+                value={buyToken}
+                onChange={(token) => setBuyAddress(token.address)}
+                disabledAddress={sellToken.address}
+                className="flex-1"
+              />
               <div className="w-32 text-right text-2xl font-semibold text-purple-600 dark:text-purple-400">
                 ~ 0.00
               </div>
@@ -0,0 +1,27 @@
+"use client";
+
+import type { DecodedError } from "@/lib/errors";
+
+type ErrorAlertProps = {
+  error: DecodedError;
+  className?: string;
+};
+
+export const ErrorAlert = ({ error, className = "" }: ErrorAlertProps) => {
+  return (
+    <div
+      role="alert"
+      className={`rounded-2xl border border-rose-200 bg-rose-50/70 p-4 text-sm text-rose-700 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-200 ${className}`}
+    >
+      <p className="font-semibold">{error.title}</p>
+      <p className="mt-1">{error.message}</p>
+      {error.action ? <p className="mt-2 text-xs text-rose-600 dark:text-rose-300">{error.action}</p> : null}
+      {error.details && error.details !== error.message ? (
+        <details className="mt-2 text-xs text-rose-500 dark:text-rose-300/80">
+          <summary className="cursor-pointer">Details</summary>
+          <p className="mt-1 break-all font-mono">{error.details}</p>
+        </details>
+      ) : null}
+    </div>
+  );
+};
@@ -8,6 +8,7 @@ const footerLinks = {
     { href: "/swap", label: "Swap" },
     { href: "/pools", label: "Pools" },
     { href: "/portfolio", label: "Portfolio" },
+    { href: "/approvals", label: "Approvals" },
   ],
   resources: [
     { href: "#", label: "Documentation" },
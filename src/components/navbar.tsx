@@ -17,6 +17,7 @@ const NAV_LINKS = [
   { href: "/swap", label: "Swap" },
   { href: "/pools", label: "Pools" },
   { href: "/portfolio", label: "Portfolio" },
+  { href: "/approvals", label: "Approvals" },
 ];
 
 export const Navbar = () => {
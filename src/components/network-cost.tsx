@@ -0,0 +1,88 @@
+"use client";
+
+import { formatUnits } from "ethers";
+
+import { GAS_SPEEDS, estimateCost, formatCost, type GasRow } from "@/lib/gas";
+import { useNetworkFees } from "@/hooks/use-network-fees";
+
+type NetworkCostProps = {
+  rows: GasRow[];
+  loading?: boolean;
+  className?: string;
+};
+
+const formatGwei = (wei: bigint) =>
+  Number(formatUnits(wei, "gwei")).toLocaleString(undefined, { maximumSignificantDigits: 3 });
+
+export const NetworkCost = ({ rows, loading = false, className = "" }: NetworkCostProps) => {
+  const { options, ethUsd, loading: feesLoading, speed, setSpeed } = useNetworkFees();
+  const fee = options?.[speed] ?? null;
+  const known = rows.filter((row): row is GasRow & { gas: bigint } => row.gas !== null);
+  const total = fee
+    ? known.reduce(
+        (sum, row) => {
+          const cost = estimateCost(row.gas, fee);
+          return { expected: sum.expected + cost.expected, max: sum.max + cost.max };
+        },
+        { expected: BigInt(0), max: BigInt(0) },
+      )
+    : null;
+  const expectedTotal = total ? formatCost(total.expected, ethUsd) : null;
+  const maxTotal = total ? formatCost(total.max, ethUsd) : null;
+
+  return (
+    <div className={`space-y-2 text-xs ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-semibold text-zinc-700 dark:text-zinc-200">Network cost</span>
+        <div className="flex items-center gap-2">
+          {GAS_SPEEDS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              title={option.description}
+              onClick={() => setSpeed(option.value)}
+              className={`rounded-full px-3 py-1 font-semibold transition ${
+                speed === option.value
+                  ? "bg-emerald-500 text-white"
+                  : "border border-zinc-200 text-zinc-600 hover:border-emerald-400 hover:text-emerald-500 dark:border-zinc-700 dark:text-zinc-300"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading || feesLoading ? (
+        <p className="text-zinc-500 dark:text-zinc-400">Estimating gas…</p>
+      ) : !fee ? (
+        <p className="text-zinc-500 dark:text-zinc-400">Fee data is unavailable; your wallet will price the transaction.</p>
+      ) : (
+        <div className="space-y-1">
+          {rows.map((row) => {
+            const cost = row.gas === null ? null : formatCost(estimateCost(row.gas, fee).expected, ethUsd);
+            return (
+              <div key={row.label} className="flex items-center justify-between gap-4">
+                <span>{row.label}</span>
+                <span className="text-right font-semibold">
+                  {cost ? `${cost.eth}${cost.usd ? ` · ${cost.usd}` : ""}` : (row.note ?? "—")}
+                </span>
+              </div>
+            );
+          })}
+          {expectedTotal && maxTotal && known.length > 0 ? (
+            <div className="flex items-center justify-between gap-4 border-t border-zinc-200 pt-1 dark:border-zinc-700">
+              <span>Total</span>
+              <span className="text-right font-semibold">
+                {expectedTotal.usd ?? expectedTotal.eth} (max {maxTotal.usd ?? maxTotal.eth})
+              </span>
+            </div>
+          ) : null}
+          <p className="text-zinc-500 dark:text-zinc-400">
+            Base fee {formatGwei(fee.baseFeePerGas)} gwei · priority {formatGwei(fee.maxPriorityFeePerGas)} gwei
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useAccount, useChainId } from "wagmi";
+
+import { ACTIVITY_TYPES, getAmmActivity, type ActivityType, type AmmActivity } from "@/lib/amm-activity";
+import { estimateBlockTimestamp, formatBlockTime } from "@/lib/block-time";
+import { explorerTxUrl } from "@/lib/explorer";
+import { formatTokenAmount, tokenAmount } from "@/lib/token-amount";
+import { shortenAddress } from "@/lib/utils";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+import { useBlockAnchor } from "@/hooks/use-block-anchor";
+import type { AnalyticsPool } from "@/hooks/use-pool-analytics";
+
+type PoolActivityFeedProps = AnalyticsPool & {
+  className?: string;
+};
+
+const PAGE_SIZE = 10;
+
+const TYPE_STYLES: Record<ActivityType, string> = {
+  Swap: "bg-sky-100 text-sky-700 dark:bg-sky-500/20 dark:text-sky-300",
+  LiquidityAdded: "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-300",
+  LiquidityRemoved: "bg-rose-100 text-rose-700 dark:bg-rose-500/20 dark:text-rose-300",
+  PoolCreated: "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300",
+};
+
+const TYPE_LABELS: Record<ActivityType, string> = {
+  Swap: "Swap",
+  LiquidityAdded: "Add",
+  LiquidityRemoved: "Remove",
+  PoolCreated: "Create",
+};
+
+/**
+ * Paginated feed of a pool's indexed swaps, liquidity changes and creation,
+ * filterable by event type and to the connected wallet.
+ */
+export const PoolActivityFeed = ({ pool, token0, token1, className = "" }: PoolActivityFeedProps) => {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { pools, swaps, liquidityAdded, liquidityRemoved, lastIndexedBlock } = useAmmIndex();
+  const anchor = useBlockAnchor();
+  const [types, setTypes] = useState<ActivityType[]>(ACTIVITY_TYPES.map((entry) => entry.id));
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const activity = useMemo(
+    () =>
+      getAmmActivity(
+        { pools, swaps, liquidityAdded, liquidityRemoved },
+        { poolId: pool.poolId, types, account: onlyMine ? (address ?? null) : null },
+      ),
+    [pools, swaps, liquidityAdded, liquidityRemoved, pool.poolId, types, onlyMine, address],
+  );
+
+  const pageCount = Math.max(Math.ceil(activity.length / PAGE_SIZE), 1);
+  const currentPage = Math.min(page, pageCount - 1);
+  const rows = activity.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const toggleType = (type: ActivityType) => {
+    setTypes((current) => (current.includes(type) ? current.filter((entry) => entry !== type) : [...current, type]));
+    setPage(0);
+  };
+
+  const amount0 = (value: bigint) => formatTokenAmount(tokenAmount(token0, value), { maxDecimals: 4, symbol: true });
+  const amount1 = (value: bigint) => formatTokenAmount(tokenAmount(token1, value), { maxDecimals: 4, symbol: true });
+
+  const describe = (item: AmmActivity) => {
+    if (item.type === "Swap") {
+      const zeroForOne = item.tokenIn.toLowerCase() === pool.token0.toLowerCase();
+      return zeroForOne
+        ? `${amount0(item.amountIn)} → ${amount1(item.amountOut)}`
+        : `${amount1(item.amountIn)} → ${amount0(item.amountOut)}`;
+    }
+    return `${amount0(item.amount0)} + ${amount1(item.amount1)}`;
+  };
+
+  const accountLabel = (account: string) =>
+    address && account.toLowerCase() === address.toLowerCase() ? "You" : shortenAddress(account, 4);
+
+  return (
+    <section
+      className={`rounded-3xl border border-zinc-200/60 bg-white/80 p-6 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70 ${className}`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {ACTIVITY_TYPES.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => toggleType(entry.id)}
+              className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                types.includes(entry.id)
+                  ? "border-emerald-500 bg-emerald-500 text-white"
+                  : "border-zinc-200 text-zinc-500 hover:text-emerald-500 dark:border-zinc-700 dark:text-zinc-400"
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs font-semibold text-zinc-500 dark:text-zinc-400">
+          <input
+            type="checkbox"
+            checked={onlyMine && !!address}
+            disabled={!address}
+            onChange={(event) => {
+              setOnlyMine(event.target.checked);
+              setPage(0);
+            }}
+            className="h-4 w-4 rounded border-zinc-300 text-emerald-500 focus:ring-emerald-500"
+          />
+          Only my wallet
+        </label>
+      </div>
+
+      {lastIndexedBlock === null ? (
+        <p className="mt-6 py-8 text-center text-sm text-zinc-500 dark:text-zinc-400">Indexing pool events…</p>
+      ) : rows.length === 0 ? (
+        <p className="mt-6 py-8 text-center text-sm text-zinc-500 dark:text-zinc-400">No matching activity</p>
+      ) : (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full min-w-[40rem] text-left text-sm">
+            <thead className="text-xs uppercase text-zinc-500 dark:text-zinc-400">
+              <tr>
+                <th className="pb-3 font-semibold">Action</th>
+                <th className="pb-3 font-semibold">Amounts</th>
+                <th className="pb-3 font-semibold">Account</th>
+                <th className="pb-3 font-semibold">Time</th>
+                <th className="pb-3 text-right font-semibold">Tx</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {rows.map((item) => {
+                const url = explorerTxUrl({ chainId, hash: item.transactionHash });
+                return (
+                  <tr key={`${item.transactionHash}-${item.logIndex}`} className="text-zinc-700 dark:text-zinc-300">
+                    <td className="py-3">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${TYPE_STYLES[item.type]}`}>
+                        {TYPE_LABELS[item.type]}
+                      </span>
+                    </td>
+                    <td className="py-3 text-zinc-900 dark:text-zinc-50">{describe(item)}</td>
+                    <td className="py-3 font-mono text-xs">{accountLabel(item.account)}</td>
+                    <td className="py-3 text-xs text-zinc-500 dark:text-zinc-400">
+                      {anchor
+                        ? formatBlockTime(estimateBlockTimestamp(item.blockNumber, anchor))
+                        : `Block ${item.blockNumber.toLocaleString()}`}
+                    </td>
+                    <td className="py-3 text-right">
+                      {url ? (
+                        <a
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-xs text-emerald-600 underline hover:text-emerald-700 dark:text-emerald-300"
+                        >
+                          {shortenAddress(item.transactionHash, 4)}
+                        </a>
+                      ) : (
+                        <span className="font-mono text-xs">{shortenAddress(item.transactionHash, 4)}</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {activity.length > PAGE_SIZE ? (
+        <div className="mt-4 flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
+          <span>
+            {activity.length} events · page {currentPage + 1} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="rounded-full border border-zinc-200 px-3 py-1 font-semibold transition hover:text-emerald-500 disabled:opacity-40 dark:border-zinc-700"
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+              className="rounded-full border border-zinc-200 px-3 py-1 font-semibold transition hover:text-emerald-500 disabled:opacity-40 dark:border-zinc-700"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+};
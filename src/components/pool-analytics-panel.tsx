@@ -0,0 +1,82 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { ANALYTICS_WINDOWS, formatFractionPercent, type AnalyticsWindow } from "@/lib/pool-analytics";
+import { formatUsd } from "@/lib/price-oracle";
+import { formatTokenAmount, tokenAmount } from "@/lib/token-amount";
+import { usePoolAnalytics, type AnalyticsPool } from "@/hooks/use-pool-analytics";
+
+type PoolAnalyticsPanelProps = AnalyticsPool & {
+  className?: string;
+};
+
+/**
+ * Volume, fees, fee APR and utilization of one pool over a selectable window.
+ */
+export const PoolAnalyticsPanel = ({ pool, token0, token1, className = "" }: PoolAnalyticsPanelProps) => {
+  const [analyticsWindow, setAnalyticsWindow] = useState<AnalyticsWindow>("24h");
+  const pools = useMemo(() => [{ pool, token0, token1 }], [pool, token0, token1]);
+  const stats = usePoolAnalytics(pools, analyticsWindow)?.get(pool.poolId) ?? null;
+
+  const metrics = [
+    {
+      label: "Volume",
+      value: formatUsd(stats?.volumeUsd),
+      detail: stats
+        ? `${formatTokenAmount(tokenAmount(token0, stats.volume0), { maxDecimals: 2, symbol: true })} · ${formatTokenAmount(tokenAmount(token1, stats.volume1), { maxDecimals: 2, symbol: true })}`
+        : null,
+    },
+    {
+      label: "Fees earned",
+      value: formatUsd(stats?.feesUsd),
+      detail: stats ? `${stats.swapCount} swap${stats.swapCount !== 1 ? "s" : ""}` : null,
+    },
+    {
+      label: "Fee APR",
+      value: formatFractionPercent(stats?.feeApr ?? null),
+      detail: "Annualised on current TVL",
+    },
+    {
+      label: "Utilization",
+      value: formatFractionPercent(stats?.utilization ?? null),
+      detail: "Volume ÷ TVL",
+    },
+  ];
+
+  return (
+    <section
+      className={`rounded-3xl border border-zinc-200/60 bg-white/80 p-6 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70 ${className}`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">Pool Analytics</h2>
+        <div className="flex rounded-full border border-zinc-200 p-1 dark:border-zinc-700">
+          {ANALYTICS_WINDOWS.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => setAnalyticsWindow(entry.id)}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                analyticsWindow === entry.id ? "bg-emerald-500 text-white" : "text-zinc-500 hover:text-emerald-500 dark:text-zinc-400"
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {metrics.map((metric) => (
+          <div
+            key={metric.label}
+            className="rounded-2xl border border-zinc-200 bg-white/60 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-950/40"
+          >
+            <p className="text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">{metric.label}</p>
+            <p className="mt-2 text-xl font-semibold text-zinc-900 dark:text-zinc-50">{stats ? metric.value : "…"}</p>
+            {metric.detail ? <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">{metric.detail}</p> : null}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,139 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { estimateBlockTimestamp } from "@/lib/block-time";
+import { CHART_RANGES, type ChartRange } from "@/lib/pool-analytics";
+import { formatUsd } from "@/lib/price-oracle";
+import { TimeSeriesChart } from "@/components/time-series-chart";
+import { useBlockAnchor } from "@/hooks/use-block-anchor";
+import type { AnalyticsPool } from "@/hooks/use-pool-analytics";
+import { usePoolSeries } from "@/hooks/use-pool-series";
+
+type PoolChartsProps = AnalyticsPool & {
+  className?: string;
+};
+
+type ChartTab = "price" | "reserves" | "tvl" | "volume";
+
+const CHART_TABS: { id: ChartTab; label: string }[] = [
+  { id: "price", label: "Price" },
+  { id: "reserves", label: "Reserves" },
+  { id: "tvl", label: "TVL" },
+  { id: "volume", label: "Volume" },
+];
+
+const CHART_POINTS = 48;
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumSignificantDigits: value !== 0 && Math.abs(value) < 1 ? 4 : 6 });
+
+/**
+ * Historical price, reserve, TVL and volume charts for one pool, rebuilt from
+ * indexed events over a selectable range.
+ */
+export const PoolCharts = ({ pool, token0, token1, className = "" }: PoolChartsProps) => {
+  const [range, setRange] = useState<ChartRange>("7d");
+  const [tab, setTab] = useState<ChartTab>("price");
+  const series = usePoolSeries({ pool, token0, token1 }, range, CHART_POINTS);
+  const anchor = useBlockAnchor();
+
+  const blocks = useMemo(() => series?.map((point) => point.blockNumber) ?? [], [series]);
+  const times = useMemo(
+    () => blocks.map((block) => (anchor ? estimateBlockTimestamp(block, anchor) : null)),
+    [blocks, anchor],
+  );
+  const pick = (value: (point: NonNullable<typeof series>[number]) => number | null) => series?.map(value) ?? [];
+  const unpriced = series?.some((point) => point.price !== null) ? "No USD price for this pair" : undefined;
+  const shared = { blocks, times };
+
+  return (
+    <section
+      className={`rounded-3xl border border-zinc-200/60 bg-white/80 p-6 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70 ${className}`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex rounded-full border border-zinc-200 p-1 dark:border-zinc-700">
+          {CHART_TABS.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => setTab(entry.id)}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                tab === entry.id ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900" : "text-zinc-500 hover:text-emerald-500 dark:text-zinc-400"
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex rounded-full border border-zinc-200 p-1 dark:border-zinc-700">
+          {CHART_RANGES.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => setRange(entry.id)}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                range === entry.id ? "bg-emerald-500 text-white" : "text-zinc-500 hover:text-emerald-500 dark:text-zinc-400"
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!series ? (
+        <div className="mt-6 flex h-56 items-center justify-center text-sm text-zinc-500 dark:text-zinc-400">
+          Loading pool history…
+        </div>
+      ) : tab === "price" ? (
+        <TimeSeriesChart
+          {...shared}
+          className="mt-6"
+          title={`${token0.symbol} price in ${token1.symbol}`}
+          values={pick((point) => point.price)}
+          format={(value) => `${formatNumber(value)} ${token1.symbol}`}
+        />
+      ) : tab === "reserves" ? (
+        <div className="mt-6 grid gap-4 md:grid-cols-2">
+          <TimeSeriesChart
+            {...shared}
+            title={`${token0.symbol} reserve`}
+            values={pick((point) => point.reserve0)}
+            format={(value) => `${formatNumber(value)} ${token0.symbol}`}
+          />
+          <TimeSeriesChart
+            {...shared}
+            title={`${token1.symbol} reserve`}
+            values={pick((point) => point.reserve1)}
+            format={(value) => `${formatNumber(value)} ${token1.symbol}`}
+            color="text-sky-500"
+          />
+        </div>
+      ) : tab === "tvl" ? (
+        <TimeSeriesChart
+          {...shared}
+          className="mt-6"
+          title="Total value locked"
+          values={pick((point) => point.tvlUsd)}
+          format={formatUsd}
+          emptyLabel={unpriced}
+        />
+      ) : (
+        <TimeSeriesChart
+          {...shared}
+          className="mt-6"
+          title="Volume"
+          values={pick((point) => point.volumeUsd)}
+          format={formatUsd}
+          emptyLabel={unpriced}
+          variant="bars"
+        />
+      )}
+      <p className="mt-3 text-xs text-zinc-500 dark:text-zinc-400">
+        Rebuilt from indexed swaps and liquidity events. Times are estimated from block numbers; USD values use
+        current prices of the better-anchored token.
+      </p>
+    </section>
+  );
+};
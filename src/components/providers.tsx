@@ -1,23 +1,66 @@
 "use client";
 
-import { PropsWithChildren } from "react";
+import { PropsWithChildren, useEffect, useSyncExternalStore } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { WagmiProvider } from "wagmi";
+import { getPublicClient } from "@wagmi/core";
 import { AppKitProvider } from "@reown/appkit/react";
 import { wagmiConfig } from "@/config/wagmi";
-import { appKitOptions } from "@/config/adapter";
+import { appKitOptions, publicClientToProvider } from "@/config/adapter";
+import { transactionStore } from "@/lib/transactions";
+import { TransactionCenter } from "@/components/transaction-center";
+import { TransactionToasts } from "@/components/transaction-toasts";
 
 const queryClient = new QueryClient();
 
+// How often pending transactions are checked for receipts, drops and replacements.
+const TRANSACTION_POLL_INTERVAL_MS = 4_000;
+
+const countPending = () => transactionStore.getState().filter((tx) => tx.status === "pending").length;
+
+/**
+ * Polls every chain that has pending transactions, whichever network the
+ * wallet is on, so a page reload or navigation never loses track of them.
+ */
+const TransactionWatcher = () => {
+  const pendingCount = useSyncExternalStore(transactionStore.subscribe, countPending, () => 0);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const poll = () => {
+      const chainIds = new Set(
+        transactionStore
+          .getState()
+          .filter((tx) => tx.status === "pending")
+          .map((tx) => tx.chainId),
+      );
+      chainIds.forEach((chainId) => {
+        const provider = publicClientToProvider(getPublicClient(wagmiConfig, { chainId }) ?? null);
+        if (provider) transactionStore.poll(provider, chainId);
+      });
+    };
+    poll();
+    const timer = setInterval(poll, TRANSACTION_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount]);
+
+  return (
+    <>
+      <TransactionToasts />
+      <TransactionCenter />
+    </>
+  );
+};
+
 export const Providers = ({ children }: PropsWithChildren) => {
   return (
     <WagmiProvider config={wagmiConfig}>
       <QueryClientProvider client={queryClient}>
-        <AppKitProvider {...(appKitOptions as any)}>
+        <AppKitProvider {...appKitOptions}>
           {children}
+          <TransactionWatcher />
         </AppKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
   );
 };
-
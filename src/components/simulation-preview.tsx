@@ -0,0 +1,65 @@
+"use client";
+
+import type { Simulation } from "@/lib/amm";
+import { ErrorAlert } from "@/components/error-alert";
+
+type SimulationPreviewProps<T> = {
+  simulation: Simulation<T> | null;
+  simulating: boolean;
+  /** Values to show once the dry run succeeds. */
+  describe: (result: T) => { label: string; value: string }[];
+  /** Shown instead of a dry run when one cannot run yet (e.g. ETH still has to be wrapped). */
+  skippedReason?: string | null;
+  className?: string;
+};
+
+export const SimulationPreview = <T,>({
+  simulation,
+  simulating,
+  describe,
+  skippedReason,
+  className = "",
+}: SimulationPreviewProps<T>) => {
+  if (skippedReason) {
+    return (
+      <div
+        className={`rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 text-xs text-zinc-500 dark:border-zinc-700 dark:bg-zinc-900/60 dark:text-zinc-400 ${className}`}
+      >
+        {skippedReason}
+      </div>
+    );
+  }
+
+  if (simulating) {
+    return (
+      <div
+        className={`rounded-2xl border border-zinc-200 bg-zinc-50/70 p-4 text-xs text-zinc-500 dark:border-zinc-700 dark:bg-zinc-900/60 dark:text-zinc-400 ${className}`}
+      >
+        Simulating transaction…
+      </div>
+    );
+  }
+
+  if (!simulation) return null;
+  if (!simulation.ok) return <ErrorAlert error={simulation.error} className={className} />;
+
+  return (
+    <div
+      className={`rounded-2xl border border-emerald-200 bg-emerald-50/70 p-4 text-sm text-emerald-700 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-200 ${className}`}
+    >
+      <p className="font-semibold">Simulation passed</p>
+      <div className="mt-2 space-y-1 text-xs">
+        {describe(simulation.result).map((row) => (
+          <div key={row.label} className="flex items-center justify-between gap-4">
+            <span>{row.label}</span>
+            <span className="break-all text-right font-semibold">{row.value}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-4">
+          <span>Estimated gas</span>
+          <span className="font-semibold">{simulation.gasEstimate.toLocaleString()} units</span>
+        </div>
+      </div>
+    </div>
+  );
+};
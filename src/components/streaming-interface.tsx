@@ -1,16 +1,14 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import Link from "next/link";
 import { useAccount } from "wagmi";
 import { AppKitConnectButton } from "@reown/appkit/react";
 
-// Mock tokens for demonstration
-const mockTokens = [
-  { symbol: "USDC", name: "USD Coin", address: "0x..." },
-  { symbol: "DAI", name: "Dai Stablecoin", address: "0x..." },
-  { symbol: "WETH", name: "Wrapped Ether", address: "0x..." },
-];
+import { isNativeToken } from "@/lib/amm";
+import { findToken } from "@/lib/token-list";
+import { useTokenList } from "@/hooks/use-token-list";
+import { TokenSelector } from "@/components/token-selector";
 
 // Mock active streams for demonstration
 const mockStreams = [
@@ -36,7 +34,11 @@ const mockStreams = [
 
 export const StreamingInterface = () => {
   const { isConnected } = useAccount();
-  const [selectedToken, setSelectedToken] = useState(mockTokens[0]);
+  const { tokens } = useTokenList();
+  // Streams move ERC20 balances, so native ETH is not offered
+  const streamTokens = useMemo(() => tokens.filter((token) => !isNativeToken(token.address)), [tokens]);
+  const [selectedAddress, setSelectedAddress] = useState<string | null>(null);
+  const selectedToken = (selectedAddress && findToken(streamTokens, selectedAddress)) || streamTokens[0];
   const [recipient, setRecipient] = useState("");
   const [amount, setAmount] = useState("");
   const [paymentRate, setPaymentRate] = useState("");
@@ -97,19 +99,12 @@ export const StreamingInterface = () => {
                   <label className="mb-1 block text-xs font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
                     Token
                   </label>
-                  <select
-                    className="w-full appearance-none rounded-xl border border-purple-200/60 bg-white px-4 py-3 text-sm font-semibold text-zinc-700 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20 dark:border-purple-800/60 dark:bg-zinc-900 dark:text-zinc-100"
-                    value={selectedToken.symbol}
-                    onChange={(e) =>
-                      setSelectedToken(mockTokens.find((t) => t.symbol === e.target.value) ?? mockTokens[0])
-                    }
-                  >
-                    {mockTokens.map((token) => (
-                      <option key={token.symbol} value={token.symbol}>
-                        {token.symbol}
-                      </option>
-                    ))}
-                  </select>
+                  <TokenSelector
+                    value={selectedToken}
+                    onChange={(token) => setSelectedAddress(token.address)}
+                    tokens={streamTokens}
+                    className="w-full"
+                  />
                 </div>
                 <div>
                   <label className="mb-1 block text-xs font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
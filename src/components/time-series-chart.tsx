@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, type PointerEvent } from "react";
+
+import { formatBlockTime } from "@/lib/block-time";
+
+type TimeSeriesChartProps = {
+  title: string;
+  values: (number | null)[];
+  /** Unix timestamp (seconds) of each value; block numbers are shown until known. */
+  times: (number | null)[];
+  blocks: number[];
+  format: (value: number) => string;
+  variant?: "line" | "bars";
+  /** Tailwind text colour the series is drawn in. */
+  color?: string;
+  /** Shown in place of the chart when no value is defined. */
+  emptyLabel?: string;
+  className?: string;
+};
+
+const WIDTH = 100;
+const HEIGHT = 40;
+
+function scaleY(values: number[], fromZero: boolean) {
+  const max = Math.max(...values);
+  const min = fromZero ? 0 : Math.min(...values);
+  const span = max - min || Math.abs(max) * 0.1 || 1;
+  const floor = fromZero ? 0 : min - span * 0.1;
+  const ceiling = max + span * 0.1;
+  return (value: number) => HEIGHT - ((value - floor) / (ceiling - floor)) * HEIGHT;
+}
+
+function linePath(values: (number | null)[], y: (value: number) => number) {
+  const step = values.length > 1 ? WIDTH / (values.length - 1) : 0;
+  let path = "";
+  let drawing = false;
+  values.forEach((value, index) => {
+    if (value === null) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? "L" : "M"}${(index * step).toFixed(3)},${y(value).toFixed(3)}`;
+    drawing = true;
+  });
+  return path;
+}
+
+/**
+ * Minimal SVG line or bar chart over evenly spaced buckets. Hovering a bucket
+ * shows its value and time in the header; otherwise the latest value is shown.
+ */
+export const TimeSeriesChart = ({
+  title,
+  values,
+  times,
+  blocks,
+  format,
+  variant = "line",
+  color = "text-emerald-500",
+  emptyLabel = "No history in this range",
+  className = "",
+}: TimeSeriesChartProps) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const defined = values.filter((value): value is number => value !== null);
+  const y = defined.length > 0 ? scaleY(defined, variant === "bars") : null;
+  const step = values.length > 1 ? WIDTH / (values.length - 1) : 0;
+  const barWidth = WIDTH / Math.max(values.length, 1);
+
+  const latestIndex = values.findLastIndex((value) => value !== null);
+  const shownIndex = hovered ?? (variant === "bars" ? values.length - 1 : latestIndex);
+  const shownValue = shownIndex >= 0 ? values[shownIndex] : null;
+  const labelAt = (index: number) => {
+    const time = times[index];
+    return time === null || time === undefined ? `Block ${blocks[index]?.toLocaleString() ?? "—"}` : formatBlockTime(time);
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || values.length === 0) return;
+    const fraction = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    setHovered(
+      variant === "bars"
+        ? Math.min(Math.floor(fraction * values.length), values.length - 1)
+        : Math.round(fraction * (values.length - 1)),
+    );
+  };
+
+  const line = y && variant === "line" ? linePath(values, y) : "";
+  const firstIndex = values.findIndex((value) => value !== null);
+  const area =
+    line && firstIndex >= 0 && !values.slice(firstIndex).includes(null)
+      ? `${line}L${WIDTH},${HEIGHT}L${(firstIndex * step).toFixed(3)},${HEIGHT}Z`
+      : "";
+  const guideX = hovered === null ? null : variant === "bars" ? (hovered + 0.5) * barWidth : hovered * step;
+
+  return (
+    <div className={`rounded-2xl border border-zinc-200 bg-white/60 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-950/40 ${className}`}>
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">{title}</p>
+        {shownIndex >= 0 ? <p className="text-xs text-zinc-500 dark:text-zinc-400">{labelAt(shownIndex)}</p> : null}
+      </div>
+      <p className="mt-1 text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+        {shownValue === null || shownValue === undefined ? "—" : format(shownValue)}
+      </p>
+      {y ? (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className={`mt-3 h-40 w-full touch-none ${color}`}
+          onPointerMove={handlePointerMove}
+          onPointerLeave={() => setHovered(null)}
+        >
+          {variant === "bars"
+            ? values.map((value, index) =>
+                value === null ? null : (
+                  <rect
+                    key={index}
+                    x={index * barWidth + barWidth * 0.15}
+                    y={y(value)}
+                    width={barWidth * 0.7}
+                    height={HEIGHT - y(value)}
+                    fill="currentColor"
+                    opacity={hovered === index ? 1 : 0.7}
+                  />
+                ),
+              )
+            : null}
+          {area ? <path d={area} fill="currentColor" opacity={0.1} /> : null}
+          {line ? (
+            <path d={line} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          ) : null}
+          {guideX === null ? null : (
+            <line
+              x1={guideX}
+              x2={guideX}
+              y1={0}
+              y2={HEIGHT}
+              className="text-zinc-400"
+              stroke="currentColor"
+              strokeDasharray="2 2"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      ) : (
+        <div className="mt-3 flex h-40 items-center justify-center text-sm text-zinc-500 dark:text-zinc-400">
+          {emptyLabel}
+        </div>
+      )}
+      {values.length > 0 ? (
+        <div className="mt-2 flex justify-between text-xs text-zinc-400 dark:text-zinc-500">
+          <span>{labelAt(0)}</span>
+          <span>{labelAt(values.length - 1)}</span>
+        </div>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { isAddress } from "ethers";
+import { usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import { decodeError, inputError, type DecodedError } from "@/lib/errors";
+import { findToken, lookupToken, type RegisteredToken, type TokenInfo } from "@/lib/token-list";
+import { useTokenList } from "@/hooks/use-token-list";
+import { ErrorAlert } from "@/components/error-alert";
+import { UnlistedTokenWarning } from "@/components/unlisted-token-warning";
+
+type TokenImportProps = {
+  /** Address to look up; when set the component shows no input of its own. */
+  address?: string;
+  /** Called with the token once it is in the registry, whether newly imported or already known. */
+  onImported?: (token: RegisteredToken) => void;
+  className?: string;
+};
+
+type Lookup = { token: TokenInfo | null; error: DecodedError | null };
+
+export const TokenImport = ({ address: controlledAddress, onImported, className = "" }: TokenImportProps) => {
+  const publicClient = usePublicClient();
+  const { chainId, tokens, importToken } = useTokenList();
+  const [typedAddress, setTypedAddress] = useState("");
+
+  const trimmed = (controlledAddress ?? typedAddress).trim();
+  const known = isAddress(trimmed) ? findToken(tokens, trimmed) : undefined;
+
+  const run = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !isAddress(trimmed) || known) return null;
+    return (): Promise<Lookup> =>
+      lookupToken(trimmed, chainId, provider)
+        .then((token) => ({
+          token,
+          error: token ? null : inputError("No ERC20 token was found at this address on the current network."),
+        }))
+        .catch((error: unknown) => ({ token: null, error: decodeError(error) }));
+  }, [publicClient, trimmed, known, chainId]);
+
+  const [settled, setSettled] = useState<{ run: typeof run; lookup: Lookup } | null>(null);
+
+  useEffect(() => {
+    if (!run) return;
+    let active = true;
+    run().then((lookup) => {
+      if (active) setSettled({ run, lookup });
+    });
+    return () => {
+      active = false;
+    };
+  }, [run]);
+
+  const lookup = settled && settled.run === run ? settled.lookup : null;
+  const invalid = trimmed !== "" && !isAddress(trimmed);
+
+  const handleImport = (token: RegisteredToken) => {
+    if (!token.listed) importToken(token);
+    setTypedAddress("");
+    onImported?.(token);
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {controlledAddress === undefined ? (
+        <input
+          type="text"
+          value={typedAddress}
+          onChange={(event) => setTypedAddress(event.target.value)}
+          placeholder="Paste a token address to import"
+          className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 font-mono text-sm text-zinc-700 outline-none placeholder:font-sans placeholder:text-zinc-400 focus:border-emerald-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+        />
+      ) : null}
+
+      {invalid ? <ErrorAlert error={inputError("Enter a valid 0x token address.")} /> : null}
+
+      {known ? (
+        <div className="flex items-center justify-between gap-4 text-sm text-zinc-600 dark:text-zinc-300">
+          <span>
+            Already available as <strong>{known.symbol}</strong>
+            {known.listed ? "" : " (imported)"}.
+          </span>
+          <button
+            type="button"
+            onClick={() => handleImport(known)}
+            className="text-xs font-semibold text-emerald-500 hover:text-emerald-600"
+          >
+            Select
+          </button>
+        </div>
+      ) : run && !lookup ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">Reading token…</p>
+      ) : lookup?.error ? (
+        <ErrorAlert error={lookup.error} />
+      ) : lookup?.token ? (
+        <div className="space-y-3">
+          <UnlistedTokenWarning token={lookup.token} />
+          <div className="flex items-center justify-between gap-4 text-sm text-zinc-600 dark:text-zinc-300">
+            <span>
+              <strong>{lookup.token.symbol}</strong> · {lookup.token.name} · {lookup.token.decimals} decimals
+            </span>
+            <button
+              type="button"
+              onClick={() => lookup.token && handleImport({ ...lookup.token, listed: false })}
+              className="rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { isAddress } from "ethers";
+import { useAccount } from "wagmi";
+
+import { isNativeToken } from "@/lib/amm";
+import { isWeth } from "@/lib/weth";
+import {
+  findToken,
+  tokenKey,
+  tokenPreferenceStore,
+  type RegisteredToken,
+  type TokenInfo,
+  type TokenPreferences,
+} from "@/lib/token-list";
+import { amountToNumber, formatTokenAmount, tokenAmount } from "@/lib/token-amount";
+import { formatUsd, getTokenPrice } from "@/lib/price-oracle";
+import { shortenAddress } from "@/lib/utils";
+import { useNetworkFees } from "@/hooks/use-network-fees";
+import { usePrices } from "@/hooks/use-price";
+import { useTokenBalances } from "@/hooks/use-token-balances";
+import { useTokenList } from "@/hooks/use-token-list";
+import { TokenImport } from "@/components/token-import";
+
+const EMPTY_PREFERENCES: TokenPreferences = { favorites: [], recents: [] };
+
+type TokenSelectorProps = {
+  value: TokenInfo | null | undefined;
+  onChange: (token: RegisteredToken) => void;
+  /** Tokens to offer (memoised); defaults to every token registered on the connected chain. */
+  tokens?: RegisteredToken[];
+  /** The other side of a pair; shown but not selectable. */
+  disabledAddress?: string;
+  placeholder?: string;
+  className?: string;
+};
+
+type TokenSelectorModalProps = Omit<TokenSelectorProps, "value" | "placeholder" | "className"> & {
+  onClose: () => void;
+};
+
+const matchesQuery = (token: TokenInfo, query: string) => {
+  if (!query) return true;
+  if (query.startsWith("0x")) return token.address.toLowerCase().startsWith(query);
+  return token.symbol.toLowerCase().includes(query) || token.name.toLowerCase().includes(query);
+};
+
+/**
+ * Searchable token picker: a button showing the current token that opens a
+ * modal with wallet balances, favourites, recent picks and import by address.
+ */
+export const TokenSelector = ({
+  value,
+  onChange,
+  tokens,
+  disabledAddress,
+  placeholder = "Select token",
+  className = "",
+}: TokenSelectorProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={`flex items-center justify-between gap-2 rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm font-semibold text-zinc-700 transition hover:border-emerald-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100 ${className}`}
+      >
+        <span className="truncate">{value ? `${value.symbol} · ${value.name}` : placeholder}</span>
+        <span className="text-xs text-zinc-400">▾</span>
+      </button>
+      {open ? (
+        <TokenSelectorModal
+          tokens={tokens}
+          disabledAddress={disabledAddress}
+          onChange={onChange}
+          onClose={() => setOpen(false)}
+        />
+      ) : null}
+    </>
+  );
+};
+
+const TokenSelectorModal = ({ tokens: offered, disabledAddress, onChange, onClose }: TokenSelectorModalProps) => {
+  const { isConnected } = useAccount();
+  const { chainId, tokens: registered } = useTokenList();
+  const tokens = offered ?? registered;
+  const { balances, loading } = useTokenBalances(tokens);
+  const { ethUsd } = useNetworkFees();
+  const { prices } = usePrices();
+  const preferences = useSyncExternalStore(
+    tokenPreferenceStore.subscribe,
+    tokenPreferenceStore.getState,
+    () => EMPTY_PREFERENCES,
+  );
+  const [search, setSearch] = useState("");
+  const query = search.trim().toLowerCase();
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const rows = useMemo(() => {
+    // Pool-derived prices first; stablecoins and ETH fall back to $1 and the
+    // Chainlink feed when no pool path reaches the anchor
+    const usdValue = (token: TokenInfo, balance: bigint) => {
+      const fallback = token.tags?.includes("stablecoin")
+        ? 1
+        : isNativeToken(token.address) || isWeth(token.address, chainId)
+          ? ethUsd
+          : null;
+      const price = (prices ? getTokenPrice(prices, token.address, chainId)?.usd : null) ?? fallback;
+      return price === null ? null : amountToNumber(tokenAmount(token, balance)) * price;
+    };
+    const entries = tokens
+      .filter((token) => matchesQuery(token, query))
+      .map((token, index) => {
+        const balance = balances?.get(token.address.toLowerCase()) ?? null;
+        return { token, index, balance, value: balance === null ? null : usdValue(token, balance) };
+      });
+    // Priced holdings by value, then other holdings, then the rest in list order
+    return entries.sort((a, b) => {
+      const aValue = a.value ?? -1;
+      const bValue = b.value ?? -1;
+      if (aValue !== bValue) return bValue - aValue;
+      const aHeld = (a.balance ?? BigInt(0)) > BigInt(0);
+      const bHeld = (b.balance ?? BigInt(0)) > BigInt(0);
+      if (aHeld !== bHeld) return aHeld ? -1 : 1;
+      return a.index - b.index;
+    });
+  }, [tokens, query, balances, chainId, ethUsd, prices]);
+
+  const pinned = (keys: string[]) =>
+    keys
+      .map((key) => tokens.find((token) => tokenKey(token) === key))
+      .filter((token): token is RegisteredToken => token !== undefined);
+  const favorites = pinned(preferences.favorites);
+  const recents = pinned(preferences.recents).filter((token) => !preferences.favorites.includes(tokenKey(token)));
+
+  const select = (token: RegisteredToken) => {
+    tokenPreferenceStore.recordPick(token);
+    onChange(token);
+    onClose();
+  };
+
+  const isDisabled = (token: TokenInfo) =>
+    disabledAddress !== undefined && token.address.toLowerCase() === disabledAddress.toLowerCase();
+
+  const chip = (token: RegisteredToken) => (
+    <button
+      key={token.address}
+      type="button"
+      disabled={isDisabled(token)}
+      onClick={() => select(token)}
+      className="rounded-full border border-zinc-200 px-3 py-1 text-xs font-semibold text-zinc-600 transition hover:border-emerald-400 hover:text-emerald-500 disabled:cursor-not-allowed disabled:opacity-40 dark:border-zinc-700 dark:text-zinc-300"
+    >
+      {token.symbol}
+    </button>
+  );
+
+  // An address nobody has registered yet can be imported right here
+  const importAddress = isAddress(search.trim()) && !findToken(tokens, search.trim()) ? search.trim() : null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4 backdrop-blur-sm"
+      onClick={onClose}
+      role="presentation"
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Select a token"
+        onClick={(event) => event.stopPropagation()}
+        className="flex max-h-[80vh] w-full max-w-md flex-col gap-4 rounded-3xl border border-zinc-200 bg-white p-6 shadow-xl dark:border-zinc-800 dark:bg-zinc-950"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">Select a token</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="text-sm text-zinc-400 transition hover:text-zinc-600 dark:hover:text-zinc-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <input
+          type="text"
+          autoFocus
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search name, symbol or paste address"
+          className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-700 outline-none placeholder:text-zinc-400 focus:border-emerald-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+        />
+
+        {favorites.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">Favourites</p>
+            <div className="flex flex-wrap gap-2">{favorites.map(chip)}</div>
+          </div>
+        ) : null}
+        {recents.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase text-zinc-500 dark:text-zinc-400">Recent</p>
+            <div className="flex flex-wrap gap-2">{recents.map(chip)}</div>
+          </div>
+        ) : null}
+
+        <div className="-mx-2 flex-1 overflow-y-auto">
+          {importAddress ? (
+            <TokenImport address={importAddress} onImported={select} className="px-2" />
+          ) : rows.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-zinc-500 dark:text-zinc-400">No tokens match your search.</p>
+          ) : (
+            rows.map(({ token, balance, value }) => {
+              const favorite = preferences.favorites.includes(tokenKey(token));
+              return (
+                <div
+                  key={token.address}
+                  className={`flex items-center gap-3 rounded-2xl px-2 py-2 transition ${
+                    isDisabled(token) ? "opacity-40" : "hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => tokenPreferenceStore.toggleFavorite(token)}
+                    aria-label={favorite ? `Unpin ${token.symbol}` : `Pin ${token.symbol}`}
+                    className={`text-base ${favorite ? "text-amber-500" : "text-zinc-300 hover:text-amber-500 dark:text-zinc-600"}`}
+                  >
+                    {favorite ? "★" : "☆"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={isDisabled(token)}
+                    onClick={() => select(token)}
+                    className="flex flex-1 items-center justify-between gap-4 text-left disabled:cursor-not-allowed"
+                  >
+                    <span className="min-w-0">
+                      <span className="flex items-center gap-2 text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                        {token.symbol}
+                        {token.listed ? null : (
+                          <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-semibold text-amber-700 dark:bg-amber-500/20 dark:text-amber-300">
+                            Unlisted
+                          </span>
+                        )}
+                      </span>
+                      <span className="block truncate text-xs text-zinc-500 dark:text-zinc-400">
+                        {token.name} · {isNativeToken(token.address) ? "Native" : shortenAddress(token.address, 4)}
+                      </span>
+                    </span>
+                    <span className="text-right text-sm">
+                      <span className="block font-semibold text-zinc-700 dark:text-zinc-200">
+                        {balance !== null ? formatTokenAmount(tokenAmount(token, balance)) : isConnected && loading ? "…" : ""}
+                      </span>
+                      {value !== null && value > 0 ? (
+                        <span className="block text-xs text-zinc-500 dark:text-zinc-400">{formatUsd(value)}</span>
+                      ) : null}
+                    </span>
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
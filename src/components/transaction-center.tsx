@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+
+import { explorerTxUrl } from "@/lib/explorer";
+import { shortenAddress } from "@/lib/utils";
+import { decodeError, type DecodedError } from "@/lib/errors";
+import { describeTransaction, type TrackedTransaction, type TransactionStatus } from "@/lib/transactions";
+import { ErrorAlert } from "@/components/error-alert";
+import { useTransactions } from "@/hooks/use-transactions";
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pending: "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300",
+  confirmed: "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-300",
+  failed: "bg-rose-100 text-rose-700 dark:bg-rose-500/20 dark:text-rose-300",
+  dropped: "bg-zinc-200 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-300",
+  replaced: "bg-zinc-200 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-300",
+  cancelled: "bg-zinc-200 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-300",
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+export const TransactionCenter = () => {
+  const { address } = useAccount();
+  const { transactions, pending, speedUp, cancel, clearSettled } = useTransactions();
+  const [open, setOpen] = useState(false);
+  // Hash of the transaction whose replacement is being signed
+  const [replacing, setReplacing] = useState<string | null>(null);
+  const [error, setError] = useState<DecodedError | null>(null);
+
+  if (transactions.length === 0) return null;
+
+  const handleReplace = async (tx: TrackedTransaction, mode: "speedUp" | "cancel") => {
+    try {
+      setReplacing(tx.hash);
+      setError(null);
+      await (mode === "speedUp" ? speedUp(tx.hash) : cancel(tx.hash));
+    } catch (err) {
+      console.error("Replacement error:", err);
+      setError(decodeError(err));
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 flex flex-col items-end gap-3">
+      {open ? (
+        <div className="w-[22rem] max-w-[calc(100vw-3rem)] rounded-3xl border border-zinc-200/60 bg-white/95 p-4 shadow-xl backdrop-blur dark:border-zinc-800/60 dark:bg-zinc-900/95">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">Recent transactions</h2>
+            <button
+              onClick={clearSettled}
+              className="text-xs font-semibold text-zinc-500 transition hover:text-emerald-500 dark:text-zinc-400"
+            >
+              Clear completed
+            </button>
+          </div>
+
+          {error ? <ErrorAlert error={error} className="mt-3" /> : null}
+
+          <ul className="mt-3 max-h-96 space-y-2 overflow-y-auto">
+            {transactions.map((tx) => {
+              const url = explorerTxUrl(tx);
+              const canReplace = tx.status === "pending" && address?.toLowerCase() === tx.from.toLowerCase();
+              return (
+                <li
+                  key={tx.hash}
+                  className="rounded-2xl border border-zinc-200 bg-zinc-50/70 p-3 text-xs text-zinc-600 dark:border-zinc-700 dark:bg-zinc-950/40 dark:text-zinc-300"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">{describeTransaction(tx)}</p>
+                    <span className={`shrink-0 rounded-full px-2 py-0.5 font-semibold capitalize ${STATUS_STYLES[tx.status]}`}>
+                      {tx.status}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex items-center justify-between gap-2 text-zinc-500 dark:text-zinc-400">
+                    <span>
+                      {formatTime(tx.submittedAt)} · nonce {tx.nonce}
+                      {tx.replaces ? " · replacement" : ""}
+                    </span>
+                    {url ? (
+                      <a
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-emerald-600 underline hover:text-emerald-700 dark:text-emerald-300"
+                      >
+                        {shortenAddress(tx.hash, 6)}
+                      </a>
+                    ) : (
+                      <span className="font-mono">{shortenAddress(tx.hash, 6)}</span>
+                    )}
+                  </div>
+                  {canReplace ? (
+                    <div className="mt-2 flex gap-2">
+                      <button
+                        onClick={() => handleReplace(tx, "speedUp")}
+                        disabled={replacing !== null}
+                        className="rounded-full bg-emerald-500 px-3 py-1 font-semibold text-white transition hover:bg-emerald-600 disabled:bg-zinc-300 disabled:text-zinc-500"
+                      >
+                        {replacing === tx.hash ? "Confirm in wallet…" : "Speed up"}
+                      </button>
+                      <button
+                        onClick={() => handleReplace(tx, "cancel")}
+                        disabled={replacing !== null}
+                        className="rounded-full border border-rose-200 px-3 py-1 font-semibold text-rose-600 transition hover:bg-rose-500 hover:text-white disabled:opacity-50 dark:border-rose-500/40 dark:text-rose-300"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
+
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className={`rounded-full px-4 py-2 text-sm font-semibold shadow-lg transition ${
+          pending.length > 0
+            ? "bg-amber-500 text-white shadow-amber-500/30 hover:bg-amber-600"
+            : "bg-emerald-500 text-white shadow-emerald-500/30 hover:bg-emerald-600"
+        }`}
+      >
+        {pending.length > 0 ? `${pending.length} pending` : "Transactions"}
+      </button>
+    </div>
+  );
+};
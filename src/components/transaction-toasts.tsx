@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { explorerTxUrl } from "@/lib/explorer";
+import { describeTransaction, transactionStore, type TrackedTransaction } from "@/lib/transactions";
+
+// How long a settlement toast stays on screen.
+const TOAST_DURATION_MS = 6_000;
+
+const TOAST_COPY: Record<Exclude<TrackedTransaction["status"], "pending">, { title: string; className: string }> = {
+  confirmed: {
+    title: "Transaction confirmed",
+    className: "border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-500/40 dark:bg-emerald-950 dark:text-emerald-200",
+  },
+  failed: {
+    title: "Transaction failed",
+    className: "border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-500/40 dark:bg-rose-950 dark:text-rose-200",
+  },
+  dropped: {
+    title: "Transaction dropped",
+    className: "border-zinc-200 bg-white text-zinc-700 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-200",
+  },
+  replaced: {
+    title: "Transaction replaced",
+    className: "border-zinc-200 bg-white text-zinc-700 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-200",
+  },
+  cancelled: {
+    title: "Transaction cancelled",
+    className: "border-zinc-200 bg-white text-zinc-700 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-200",
+  },
+};
+
+/**
+ * Toasts for transactions leaving the pending state. Also raises a browser
+ * notification when the user has already granted permission.
+ */
+export const TransactionToasts = () => {
+  const [toasts, setToasts] = useState<TrackedTransaction[]>([]);
+
+  useEffect(
+    () =>
+      transactionStore.onSettled((tx) => {
+        setToasts((current) => [...current.filter((item) => item.hash !== tx.hash), tx]);
+        setTimeout(() => setToasts((current) => current.filter((item) => item.hash !== tx.hash)), TOAST_DURATION_MS);
+
+        if (typeof Notification !== "undefined" && Notification.permission === "granted" && document.hidden) {
+          new Notification(TOAST_COPY[tx.status as keyof typeof TOAST_COPY].title, { body: describeTransaction(tx) });
+        }
+      }),
+    [],
+  );
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-20 right-6 z-50 flex w-80 max-w-[calc(100vw-3rem)] flex-col gap-2">
+      {toasts.map((tx) => {
+        const copy = TOAST_COPY[tx.status as keyof typeof TOAST_COPY];
+        const url = explorerTxUrl(tx);
+        return (
+          <div key={tx.hash} role="status" className={`rounded-2xl border p-3 text-sm shadow-lg ${copy.className}`}>
+            <p className="font-semibold">{copy.title}</p>
+            <p className="mt-1 text-xs">{describeTransaction(tx)}</p>
+            {url ? (
+              <a href={url} target="_blank" rel="noopener noreferrer" className="mt-1 inline-block text-xs underline">
+                View on explorer
+              </a>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
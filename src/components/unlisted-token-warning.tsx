@@ -0,0 +1,42 @@
+"use client";
+
+import { useChainId } from "wagmi";
+
+import { networks } from "@/config/wagmi";
+import type { TokenInfo } from "@/lib/token-list";
+import { shortenAddress } from "@/lib/utils";
+
+type UnlistedTokenWarningProps = {
+  token: TokenInfo;
+  className?: string;
+};
+
+export const UnlistedTokenWarning = ({ token, className = "" }: UnlistedTokenWarningProps) => {
+  const chainId = useChainId();
+  const explorer = networks.find((item) => item.id === chainId)?.blockExplorers?.default?.url;
+
+  return (
+    <div
+      role="alert"
+      className={`rounded-2xl border border-amber-200 bg-amber-50/70 p-4 text-sm text-amber-700 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-300 ${className}`}
+    >
+      <p className="font-semibold">{token.symbol} is not on the token list</p>
+      <p className="mt-1">
+        Anyone can deploy a token with any name and symbol, including copies of real ones. Make sure{" "}
+        {explorer ? (
+          <a
+            href={`${explorer}/token/${token.address}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono underline"
+          >
+            {shortenAddress(token.address, 6)}
+          </a>
+        ) : (
+          <span className="font-mono">{shortenAddress(token.address, 6)}</span>
+        )}{" "}
+        is the token you mean to trade.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useChainId } from "wagmi";
+
+import { formatBlockTime } from "@/lib/block-time";
+import { explorerTxUrl } from "@/lib/explorer";
+import { formatUsd } from "@/lib/price-oracle";
+import { shortenAddress } from "@/lib/utils";
+import { historyToCsv, historyToJson, type HistoryAction, type HistoryRecord } from "@/lib/wallet-history";
+import { useWalletHistory } from "@/hooks/use-wallet-history";
+
+const PAGE_SIZE = 15;
+
+const ACTION_LABELS: Record<HistoryAction, string> = {
+  swap: "Swap",
+  receive: "Receive",
+  add_liquidity: "Add liquidity",
+  remove_liquidity: "Remove liquidity",
+  create_pool: "Create pool",
+};
+
+const legs = (entries: [string, string][]) =>
+  entries
+    .filter(([token]) => token)
+    .map(([token, amount]) => `${Number(amount).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${token}`)
+    .join(" + ");
+
+function download(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * The connected wallet's AMM history with a date-range filter and CSV/JSON
+ * export of the filtered records.
+ */
+export const WalletHistory = ({ className = "" }: { className?: string }) => {
+  const chainId = useChainId();
+  const { records, loading, complete } = useWalletHistory();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const filtered = useMemo(() => {
+    if (!from && !to) return records;
+    // Date inputs are local calendar days; the range includes the whole end day
+    const start = from ? new Date(`${from}T00:00:00`).getTime() : -Infinity;
+    const end = to ? new Date(`${to}T23:59:59.999`).getTime() : Infinity;
+    return records.filter((record) => {
+      if (record.timestamp === null) return false;
+      const time = new Date(record.timestamp).getTime();
+      return time >= start && time <= end;
+    });
+  }, [records, from, to]);
+
+  // A date range needs every timestamp before it can say what falls inside it
+  const filtering = (!!from || !!to) && !complete;
+  // Exports carry the time and USD value of each record, so they wait for both
+  const canExport = complete && filtered.length > 0;
+
+  const pageCount = Math.max(Math.ceil(filtered.length / PAGE_SIZE), 1);
+  const currentPage = Math.min(page, pageCount - 1);
+  const rows = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const exportAs = (format: "csv" | "json") => {
+    const name = `quantumdex-history-${chainId}${from ? `-from-${from}` : ""}${to ? `-to-${to}` : ""}.${format}`;
+    if (format === "csv") download(historyToCsv(filtered), name, "text/csv");
+    else download(historyToJson(filtered), name, "application/json");
+  };
+
+  const describeTime = (record: HistoryRecord) =>
+    record.timestamp === null
+      ? `Block ${record.blockNumber.toLocaleString()}`
+      : formatBlockTime(new Date(record.timestamp).getTime() / 1000);
+
+  return (
+    <section
+      className={`rounded-3xl border border-zinc-200/60 bg-white/80 p-6 shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/70 ${className}`}
+    >
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">History</h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Swaps, liquidity changes and pool creations by this wallet, decoded from AMM events.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 text-xs font-semibold text-zinc-500 dark:text-zinc-400">
+          <label className="flex flex-col gap-1">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(event) => {
+                setFrom(event.target.value);
+                setPage(0);
+              }}
+              className="rounded-xl border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-50"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(event) => {
+                setTo(event.target.value);
+                setPage(0);
+              }}
+              className="rounded-xl border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-50"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => exportAs("csv")}
+            disabled={!canExport}
+            className="rounded-full border border-emerald-200 px-3 py-1.5 text-sm font-semibold text-emerald-600 transition hover:bg-emerald-500 hover:text-white disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => exportAs("json")}
+            disabled={!canExport}
+            className="rounded-full border border-emerald-200 px-3 py-1.5 text-sm font-semibold text-emerald-600 transition hover:bg-emerald-500 hover:text-white disabled:opacity-40"
+          >
+            Export JSON
+          </button>
+          {!complete && records.length > 0 ? <span className="self-center">Loading times and prices…</span> : null}
+        </div>
+      </div>
+
+      {loading || filtering ? (
+        <p className="mt-6 py-8 text-center text-sm text-zinc-500 dark:text-zinc-400">Loading history…</p>
+      ) : rows.length === 0 ? (
+        <p className="mt-6 py-8 text-center text-sm text-zinc-500 dark:text-zinc-400">
+          {records.length === 0 ? "No activity from this wallet yet" : "No activity in this date range"}
+        </p>
+      ) : (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full min-w-[44rem] text-left text-sm">
+            <thead className="text-xs uppercase text-zinc-500 dark:text-zinc-400">
+              <tr>
+                <th className="pb-3 font-semibold">Time</th>
+                <th className="pb-3 font-semibold">Action</th>
+                <th className="pb-3 font-semibold">Paid</th>
+                <th className="pb-3 font-semibold">Received</th>
+                <th className="pb-3 font-semibold">Value</th>
+                <th className="pb-3 text-right font-semibold">Tx</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {rows.map((record) => {
+                const url = explorerTxUrl({ chainId, hash: record.txHash });
+                return (
+                  <tr key={`${record.txHash}-${record.logIndex}`} className="text-zinc-700 dark:text-zinc-300">
+                    <td className="py-3 text-xs text-zinc-500 dark:text-zinc-400">{describeTime(record)}</td>
+                    <td className="py-3 font-semibold text-zinc-900 dark:text-zinc-50">{ACTION_LABELS[record.action]}</td>
+                    <td className="py-3">
+                      {legs([
+                        [record.tokenIn, record.amountIn],
+                        [record.tokenIn2, record.amountIn2],
+                      ])}
+                    </td>
+                    <td className="py-3">
+                      {legs([
+                        [record.tokenOut, record.amountOut],
+                        [record.tokenOut2, record.amountOut2],
+                      ])}
+                    </td>
+                    <td className="py-3">{formatUsd(record.usdValue)}</td>
+                    <td className="py-3 text-right">
+                      {url ? (
+                        <a
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-xs text-emerald-600 underline hover:text-emerald-700 dark:text-emerald-300"
+                        >
+                          {shortenAddress(record.txHash, 4)}
+                        </a>
+                      ) : (
+                        <span className="font-mono text-xs">{shortenAddress(record.txHash, 4)}</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {filtered.length > PAGE_SIZE ? (
+        <div className="mt-4 flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
+          <span>
+            {filtered.length} records · page {currentPage + 1} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="rounded-full border border-zinc-200 px-3 py-1 font-semibold transition hover:text-emerald-500 disabled:opacity-40 dark:border-zinc-700"
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+              className="rounded-full border border-zinc-200 px-3 py-1 font-semibold transition hover:text-emerald-500 disabled:opacity-40 dark:border-zinc-700"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <p className="mt-4 text-xs text-zinc-500 dark:text-zinc-400">
+        USD values use the rate each action executed at, in the pair&apos;s better-anchored token at its USD price
+        as of the action&apos;s block.
+      </p>
+    </section>
+  );
+};
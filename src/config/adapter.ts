@@ -1,5 +1,6 @@
 import { BrowserProvider, JsonRpcSigner } from "ethers";
 import type { Address, PublicClient, WalletClient } from "viem";
+import type { AppKitNetwork } from "@reown/appkit/networks";
 import { wagmiAdapter, wagmiConfig, networks, projectId } from "./wagmi";
 
 type Eip1193Provider = {
@@ -15,7 +16,7 @@ export const metadata = {
 
 export const appKitOptions = {
   adapters: [wagmiAdapter],
-  networks: networks as [typeof networks[0], ...typeof networks[]],
+  networks: [networks[0], ...networks.slice(1)] as [AppKitNetwork, ...AppKitNetwork[]],
   projectId: projectId!, // Non-null assertion since wagmi.ts throws if undefined
   metadata,
   features: {
@@ -8,6 +8,35 @@
 // AMM Contract Address
 export const AMM_CONTRACT_ADDRESS = "0x0000000000000000000000000000000000000000";
 
+// Block the AMM was deployed at on each chain. Event indexing starts here
+// instead of genesis; set it together with AMM_CONTRACT_ADDRESS on deployment.
+export const AMM_DEPLOYMENT_BLOCKS: Record<number, number> = {
+  8453: 0, // Base
+  84532: 0, // Base Sepolia
+};
+
+// Fee tiers (basis points) probed, alongside the AMM's current `defaultFeeBps`,
+// when discovering pools for a pair. `createPool` always applies the default at
+// the time, so this list is what finds pools created under earlier defaults.
+export const KNOWN_FEE_TIERS_BPS = [1, 3, 5, 30];
+
+// Wrapped ether per chain. Native ETH (the 0xEeee…EEeE sentinel) is routed
+// through these pools because the AMM only moves ERC20 tokens.
+export const WETH_ADDRESSES: Record<number, string> = {
+  8453: "0x4200000000000000000000000000000000000006", // Base
+  84532: "0x4200000000000000000000000000000000000006", // Base Sepolia
+};
+
+// Swap quotes are recomputed every few blocks and expire after a fixed age.
+// The AMM's swap takes no deadline, so the app refuses to sign an expired quote.
+export const QUOTE_REFRESH_BLOCKS = 5;
+export const QUOTE_MAX_AGE_SECONDS = 30;
+// A refreshed quote this much worse than the one the trader reviewed must be accepted again
+export const QUOTE_REVIEW_THRESHOLD_BPS = 50;
+
+// Multicall3 — deployed at the same address on Base and Base Sepolia
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
 // Token Streaming Contract Address
 export const STREAMING_CONTRACT_ADDRESS = "0x0000000000000000000000000000000000000000";
 
@@ -17,3 +46,31 @@ export const ROUTER_ADDRESS = "0x0000000000000000000000000000000000000000";
 // Factory Address (for pool creation)
 export const FACTORY_ADDRESS = "0x0000000000000000000000000000000000000000";
 
+
+// Spenders audited on the approvals page. Undeployed (zero) addresses are skipped.
+export const APPROVAL_SPENDERS = [
+  { address: AMM_CONTRACT_ADDRESS, label: "QuantumDEX AMM" },
+  { address: STREAMING_CONTRACT_ADDRESS, label: "Token Streaming" },
+  { address: ROUTER_ADDRESS, label: "Router" },
+];
+
+// Base and Base Sepolia produce a block every 2 seconds. Event history only
+// carries block numbers, so time windows are converted to block spans.
+export const BLOCK_TIME_SECONDS = 2;
+
+// Stablecoin every pool price is walked back to; it is valued at exactly $1.
+export const USD_ANCHOR_TOKENS: Record<number, string> = {
+  8453: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // USDC on Base
+  84532: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", // USDC on Base Sepolia
+};
+// Pool prices are averaged over this many blocks (~1h at Base's 2s blocks)
+// so a single manipulated block barely moves the derived USD price.
+export const PRICE_TWAP_WINDOW_BLOCKS = 1_800;
+// Pools with less USD depth than this on the already-priced side are ignored.
+export const PRICE_MIN_LIQUIDITY_USD = 100;
+
+// Chainlink ETH/USD feeds, used to show network costs in dollars
+export const ETH_USD_FEEDS: Record<number, string> = {
+  8453: "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70", // Base
+  84532: "0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1", // Base Sepolia
+};
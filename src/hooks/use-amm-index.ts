@@ -0,0 +1,57 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import { useChainId, usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import { AMM_CONTRACT_ADDRESS } from "@/lib/amm";
+import { getAmmIndexer, type AmmIndexState } from "@/lib/indexer";
+
+const noopSubscribe = () => () => {};
+const EMPTY: never[] = [];
+
+/**
+ * Subscribe to the persisted AMM event index for the active chain.
+ * Cached pools and events are returned immediately; a delta sync runs on mount.
+ */
+export function useAmmIndex() {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  const indexer = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !chainId) return null;
+    return getAmmIndexer(chainId, AMM_CONTRACT_ADDRESS, provider);
+  }, [chainId, publicClient]);
+
+  const state = useSyncExternalStore<AmmIndexState | null>(
+    indexer?.subscribe ?? noopSubscribe,
+    () => indexer?.getState() ?? null,
+    () => null,
+  );
+
+  useEffect(() => {
+    indexer?.sync();
+  }, [indexer]);
+
+  const refresh = useCallback(async () => {
+    await indexer?.sync();
+  }, [indexer]);
+
+  const snapshot = state?.snapshot;
+  const neverSynced = !snapshot || snapshot.lastIndexedBlock < snapshot.startBlock;
+
+  return {
+    pools: snapshot?.pools ?? EMPTY,
+    swaps: snapshot?.swaps ?? EMPTY,
+    liquidityAdded: snapshot?.liquidityAdded ?? EMPTY,
+    liquidityRemoved: snapshot?.liquidityRemoved ?? EMPTY,
+    lastIndexedBlock: snapshot?.lastIndexedBlock ?? null,
+    headBlock: state?.headBlock ?? null,
+    /** True until either a cached snapshot or a first sync is available. */
+    loading: !!indexer && (!state?.loaded || (state.syncing && neverSynced)),
+    syncing: state?.syncing ?? false,
+    error: state?.error ?? null,
+    refresh,
+  };
+}
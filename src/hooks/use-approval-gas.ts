@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAccount, usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import { estimateApprovalGas, type ApprovalMode } from "@/lib/approvals";
+import type { GasRow } from "@/lib/gas";
+
+export type ApprovalRequest = { token: string; amount: bigint; symbol: string };
+
+/**
+ * Gas rows for the approvals a write still needs. Tokens whose allowance
+ * already covers the amount are left out. Memoise `requests`.
+ */
+export function useApprovalGas(requests: ApprovalRequest[] | null, mode: ApprovalMode, spender: string) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+
+  const run = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !address || !requests) return null;
+    return () =>
+      Promise.all(
+        requests.map(async (request): Promise<GasRow | null> => {
+          try {
+            const gas = await estimateApprovalGas(mode, request.token, spender, request.amount, address, provider);
+            return gas === null ? null : { label: `Approve ${request.symbol}`, gas };
+          } catch (error) {
+            console.error("Error estimating approval gas:", error);
+            return { label: `Approve ${request.symbol}`, gas: null };
+          }
+        }),
+      ).then((rows) => rows.filter((row): row is GasRow => row !== null));
+  }, [publicClient, address, requests, mode, spender]);
+
+  const [settled, setSettled] = useState<{ run: typeof run; rows: GasRow[] } | null>(null);
+
+  useEffect(() => {
+    if (!run) return;
+    let active = true;
+    run().then((rows) => {
+      if (active) setSettled({ run, rows });
+    });
+    return () => {
+      active = false;
+    };
+  }, [run]);
+
+  const current = settled && settled.run === run ? settled.rows : null;
+  return { rows: current ?? [], loading: !!run && !current };
+}
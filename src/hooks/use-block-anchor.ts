@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import type { BlockAnchor } from "@/lib/block-time";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+
+/**
+ * Timestamp of the latest indexed block, used to date events by block number.
+ * Keeps the previous anchor while a newer block is being read; null until the
+ * first read completes.
+ */
+export function useBlockAnchor() {
+  const publicClient = usePublicClient();
+  const { lastIndexedBlock } = useAmmIndex();
+  const provider = useMemo(() => publicClientToProvider(publicClient ?? null), [publicClient]);
+  const [anchor, setAnchor] = useState<BlockAnchor | null>(null);
+
+  useEffect(() => {
+    if (!provider || lastIndexedBlock === null) return;
+    let active = true;
+    provider
+      .getBlock(lastIndexedBlock)
+      .then((block) => {
+        if (active && block) setAnchor({ blockNumber: block.number, timestamp: block.timestamp });
+      })
+      .catch((error) => console.error("Error reading block timestamp:", error));
+    return () => {
+      active = false;
+    };
+  }, [provider, lastIndexedBlock]);
+
+  return anchor;
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { useChainId, usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import { gasSpeedStore, getEthUsdPrice, getFeeOptions, type FeeOptions } from "@/lib/gas";
+
+// Base produces a block every 2s; fees rarely move enough to matter faster than this.
+const REFRESH_MS = 15_000;
+
+/**
+ * Current fee options and ETH/USD for the connected chain, refreshed in the
+ * background, plus the app-wide priority speed.
+ */
+export function useNetworkFees() {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const speed = useSyncExternalStore(gasSpeedStore.subscribe, gasSpeedStore.getState, () => "market" as const);
+  // Keyed by chain so a network switch never shows the previous chain's fees.
+  const [fees, setFees] = useState<{ chainId: number; options: FeeOptions | null; ethUsd: number | null } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider) return;
+
+    let active = true;
+    const load = async () => {
+      const [options, ethUsd] = await Promise.all([
+        getFeeOptions(provider).catch((error) => {
+          console.error("Error fetching fee history:", error);
+          return null;
+        }),
+        getEthUsdPrice(chainId, provider),
+      ]);
+      if (active) setFees({ chainId, options, ethUsd });
+    };
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => {
+      active = false;
+      clearInterval(timer);
+    };
+  }, [publicClient, chainId]);
+
+  const current = fees?.chainId === chainId ? fees : null;
+  return {
+    options: current?.options ?? null,
+    ethUsd: current?.ethUsd ?? null,
+    loading: !current,
+    speed,
+    setSpeed: gasSpeedStore.set,
+  };
+}
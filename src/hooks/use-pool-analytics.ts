@@ -0,0 +1,46 @@
+"use client";
+
+import { useMemo } from "react";
+
+import type { PoolInfo } from "@/lib/amm";
+import type { TokenMetadata } from "@/lib/amm-events";
+import { getPoolAnalytics, type AnalyticsWindow, type PoolAnalytics } from "@/lib/pool-analytics";
+import { getTokenPrice } from "@/lib/price-oracle";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+import { usePrices } from "@/hooks/use-price";
+
+export type AnalyticsPool = {
+  pool: PoolInfo;
+  token0: TokenMetadata;
+  token1: TokenMetadata;
+};
+
+/**
+ * Rolling-window analytics for `pools` (memoise it), keyed by poolId. Null
+ * until the event index has synced.
+ */
+export function usePoolAnalytics(pools: readonly AnalyticsPool[] | null, window: AnalyticsWindow) {
+  const { pools: poolEvents, swaps, lastIndexedBlock } = useAmmIndex();
+  const { chainId, prices } = usePrices();
+
+  return useMemo(() => {
+    if (!pools || lastIndexedBlock === null) return null;
+    const createdAt = new Map(poolEvents.map((event) => [event.poolId.toLowerCase(), event.blockNumber]));
+    return new Map<string, PoolAnalytics>(
+      pools.map(({ pool, token0, token1 }) => [
+        pool.poolId,
+        getPoolAnalytics({
+          pool,
+          token0,
+          token1,
+          price0: prices ? getTokenPrice(prices, token0.address, chainId) : null,
+          price1: prices ? getTokenPrice(prices, token1.address, chainId) : null,
+          swaps,
+          headBlock: lastIndexedBlock,
+          createdBlock: createdAt.get(pool.poolId.toLowerCase()) ?? null,
+          window,
+        }),
+      ]),
+    );
+  }, [pools, window, poolEvents, swaps, lastIndexedBlock, prices, chainId]);
+}
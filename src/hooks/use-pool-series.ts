@@ -0,0 +1,43 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { getPoolSeries, windowBlocks, type ChartRange } from "@/lib/pool-analytics";
+import { getReserveHistory } from "@/lib/pool-history";
+import { getTokenPrice } from "@/lib/price-oracle";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+import type { AnalyticsPool } from "@/hooks/use-pool-analytics";
+import { usePrices } from "@/hooks/use-price";
+
+/**
+ * Historical price, reserves, TVL and volume of one pool over `range`,
+ * rebuilt from indexed events into `points` buckets ending at the latest
+ * indexed block. Null until the event index has synced.
+ */
+export function usePoolSeries({ pool, token0, token1 }: AnalyticsPool, range: ChartRange, points: number) {
+  const { pools, swaps, liquidityAdded, liquidityRemoved, lastIndexedBlock } = useAmmIndex();
+  const { chainId, prices } = usePrices();
+
+  const history = useMemo(
+    () => getReserveHistory(pool, { pools, swaps, liquidityAdded, liquidityRemoved }),
+    [pool, pools, swaps, liquidityAdded, liquidityRemoved],
+  );
+
+  return useMemo(() => {
+    if (lastIndexedBlock === null) return null;
+    const fromBlock =
+      range === "all" ? Math.min(history[0]?.blockNumber ?? lastIndexedBlock, lastIndexedBlock) - 1 : lastIndexedBlock - windowBlocks(range);
+    return getPoolSeries({
+      pool,
+      token0,
+      token1,
+      price0: prices ? getTokenPrice(prices, token0.address, chainId) : null,
+      price1: prices ? getTokenPrice(prices, token1.address, chainId) : null,
+      history,
+      swaps,
+      fromBlock,
+      toBlock: lastIndexedBlock,
+      points,
+    });
+  }, [pool, token0, token1, range, points, history, swaps, lastIndexedBlock, prices, chainId]);
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { useChainId, usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import { USD_ANCHOR_TOKENS } from "@/config/constants";
+import { AMM_CONTRACT_ADDRESS } from "@/lib/amm";
+import {
+  derivePricesAt,
+  getPriceOracle,
+  getTokenPrice,
+  type PriceMap,
+  type PriceOracleState,
+} from "@/lib/price-oracle";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+
+const noopSubscribe = () => () => {};
+
+/**
+ * USD prices for every token the AMM's pools connect to the chain's
+ * stablecoin anchor, re-derived whenever the event index advances.
+ */
+export function usePrices() {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { pools, swaps, liquidityAdded, liquidityRemoved, lastIndexedBlock } = useAmmIndex();
+
+  const oracle = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !chainId) return null;
+    return getPriceOracle(chainId, AMM_CONTRACT_ADDRESS, provider);
+  }, [chainId, publicClient]);
+
+  const state = useSyncExternalStore<PriceOracleState | null>(
+    oracle?.subscribe ?? noopSubscribe,
+    () => oracle?.getState() ?? null,
+    () => null,
+  );
+
+  useEffect(() => {
+    if (lastIndexedBlock === null) return;
+    oracle?.update({ pools, swaps, liquidityAdded, liquidityRemoved }, lastIndexedBlock);
+  }, [oracle, pools, swaps, liquidityAdded, liquidityRemoved, lastIndexedBlock]);
+
+  return {
+    chainId,
+    prices: state?.prices ?? null,
+    /** Pool states, metadata and events the current prices were derived from. */
+    inputs: state?.inputs ?? null,
+    /** True until the first set of prices is derived. */
+    loading: !!oracle && state?.block === null,
+    error: state?.error ?? null,
+  };
+}
+
+/**
+ * USD price of one whole `token`, or null while loading or when no pool path
+ * with enough liquidity reaches the anchor. Native ETH is priced as WETH.
+ */
+export function usePrice(token: string | null | undefined) {
+  const { chainId, prices } = usePrices();
+  return prices && token ? (getTokenPrice(prices, token, chainId)?.usd ?? null) : null;
+}
+
+/**
+ * USD prices as they stood at each of `blocks`, keyed by block, derived the
+ * same way as the current ones from reserves rebuilt from the event index.
+ * Null until the current prices are derived. Pass a memoized array.
+ */
+export function useHistoricalPrices(blocks: readonly number[]): ReadonlyMap<number, PriceMap> | null {
+  const { chainId, inputs } = usePrices();
+  return useMemo(() => {
+    const anchor = USD_ANCHOR_TOKENS[chainId];
+    if (!inputs || !anchor) return null;
+    return derivePricesAt({ ...inputs, anchor, blocks });
+  }, [chainId, inputs, blocks]);
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { Simulation } from "@/lib/amm";
+
+// Wait for typing to settle before hitting the RPC.
+const DEBOUNCE_MS = 400;
+
+/**
+ * Dry-run a write whenever `run` changes. Memoise `run` on the form inputs and
+ * pass null while the form is incomplete.
+ */
+export function useSimulation<T>(run: (() => Promise<Simulation<T>>) | null) {
+  // Results are keyed by the `run` that produced them so stale ones are never shown.
+  const [settled, setSettled] = useState<{ run: typeof run; simulation: Simulation<T> } | null>(null);
+
+  useEffect(() => {
+    if (!run) return;
+    let active = true;
+    const timer = setTimeout(async () => {
+      const simulation = await run();
+      if (active) setSettled({ run, simulation });
+    }, DEBOUNCE_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [run]);
+
+  const current = settled && settled.run === run ? settled.simulation : null;
+  return { simulation: current, simulating: !!run && !current };
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAccount, usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import { multicallTokenBalances } from "@/lib/multicall";
+import type { TokenInfo } from "@/lib/token-list";
+
+/**
+ * Connected wallet balances for `tokens`, in one multicall, keyed by
+ * lower-cased address. Pass null to skip loading; memoise `tokens`.
+ */
+export function useTokenBalances(tokens: readonly TokenInfo[] | null) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+
+  const run = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !address || !tokens || tokens.length === 0) return null;
+    return () =>
+      multicallTokenBalances(
+        tokens.map((token) => token.address),
+        address,
+        provider,
+      ).then((values) => new Map(tokens.map((token, index) => [token.address.toLowerCase(), values[index]])));
+  }, [publicClient, address, tokens]);
+
+  const [settled, setSettled] = useState<{ run: typeof run; balances: Map<string, bigint> } | null>(null);
+
+  useEffect(() => {
+    if (!run) return;
+    let active = true;
+    run()
+      .then((balances) => {
+        if (active) setSettled({ run, balances });
+      })
+      .catch((error) => console.error("Error fetching balances:", error));
+    return () => {
+      active = false;
+    };
+  }, [run]);
+
+  const current = settled && settled.run === run ? settled.balances : null;
+  return { balances: current, loading: !!run && !current };
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import { useChainId } from "wagmi";
+
+import { getChainTokens, importedTokenStore, type TokenInfo } from "@/lib/token-list";
+
+const EMPTY: TokenInfo[] = [];
+
+/**
+ * Listed and imported tokens for the connected chain, with native ETH first.
+ */
+export function useTokenList() {
+  const chainId = useChainId();
+  const imported = useSyncExternalStore(importedTokenStore.subscribe, importedTokenStore.getState, () => EMPTY);
+  const tokens = useMemo(() => getChainTokens(chainId, imported), [chainId, imported]);
+
+  return {
+    chainId,
+    tokens,
+    importToken: importedTokenStore.add,
+    removeToken: (address: string) => importedTokenStore.remove(chainId, address),
+  };
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import type { TokenMetadata } from "@/lib/amm-events";
+import { multicallTokenMetadata } from "@/lib/multicall";
+
+/**
+ * Symbol, name and decimals for `tokens`, read in one multicall. Null until
+ * loaded; memoise `tokens`.
+ */
+export function useTokenMetadata(tokens: readonly string[] | null) {
+  const publicClient = usePublicClient();
+
+  const run = useMemo(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider || !tokens || tokens.length === 0) return null;
+    return () => multicallTokenMetadata(tokens, provider);
+  }, [publicClient, tokens]);
+
+  const [settled, setSettled] = useState<{ run: typeof run; metadata: TokenMetadata[] } | null>(null);
+
+  useEffect(() => {
+    if (!run) return;
+    let active = true;
+    run()
+      .then((metadata) => {
+        if (active) setSettled({ run, metadata });
+      })
+      .catch((error) => console.error("Error reading token metadata:", error));
+    return () => {
+      active = false;
+    };
+  }, [run]);
+
+  return settled && settled.run === run ? settled.metadata : null;
+}
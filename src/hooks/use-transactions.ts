@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { useWalletClient } from "wagmi";
+import type { JsonRpcSigner } from "ethers";
+
+import { walletClientToSigner } from "@/config/adapter";
+import { transactionStore, type TrackedTransaction } from "@/lib/transactions";
+
+const EMPTY: TrackedTransaction[] = [];
+
+/**
+ * Subscribe to the app-wide transaction store. `speedUp` and `cancel` sign the
+ * same-nonce replacement with the connected wallet.
+ */
+export function useTransactions() {
+  const { data: walletClient } = useWalletClient();
+  const transactions = useSyncExternalStore(transactionStore.subscribe, transactionStore.getState, () => EMPTY);
+
+  const withSigner = useCallback(
+    async (run: (signer: JsonRpcSigner) => Promise<TrackedTransaction>) => {
+      const signer = await walletClientToSigner(walletClient);
+      if (!signer) throw new Error("Failed to get signer");
+      return run(signer);
+    },
+    [walletClient],
+  );
+
+  const speedUp = useCallback(
+    (hash: string) => withSigner((signer) => transactionStore.speedUp(hash, signer)),
+    [withSigner],
+  );
+  const cancel = useCallback(
+    (hash: string) => withSigner((signer) => transactionStore.cancel(hash, signer)),
+    [withSigner],
+  );
+
+  return {
+    transactions,
+    pending: transactions.filter((tx) => tx.status === "pending"),
+    speedUp,
+    cancel,
+    clearSettled: transactionStore.clearSettled,
+  };
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAccount, useChainId, usePublicClient } from "wagmi";
+
+import { publicClientToProvider } from "@/config/adapter";
+import { networks } from "@/config/wagmi";
+import { getAmmActivity } from "@/lib/amm-activity";
+import { getBlockTimestamps } from "@/lib/block-time";
+import { getWalletHistory } from "@/lib/wallet-history";
+import { useAmmIndex } from "@/hooks/use-amm-index";
+import { useHistoricalPrices, usePrices } from "@/hooks/use-price";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+
+const blockKey = (chainId: number, blockNumber: number) => `${chainId}:${blockNumber}`;
+
+/**
+ * Swaps, liquidity changes and pool creations by the connected wallet, newest
+ * first, valued at the prices of their block, with exact block timestamps
+ * read as activity appears. Empty while disconnected.
+ */
+export function useWalletHistory() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { pools, swaps, liquidityAdded, liquidityRemoved, loading } = useAmmIndex();
+
+  const events = useMemo(
+    () => ({ pools, swaps, liquidityAdded, liquidityRemoved }),
+    [pools, swaps, liquidityAdded, liquidityRemoved],
+  );
+  const activity = useMemo(() => (address ? getAmmActivity(events, { account: address }) : []), [events, address]);
+  const blocks = useMemo(() => [...new Set(activity.map((item) => item.blockNumber))], [activity]);
+  const prices = useHistoricalPrices(blocks);
+  const { loading: pricesLoading } = usePrices();
+
+  const tokens = useMemo(() => {
+    const poolIds = new Set(activity.map((item) => item.poolId.toLowerCase()));
+    const addresses = pools
+      .filter((event) => poolIds.has(event.poolId.toLowerCase()))
+      .flatMap((event) => [event.token0.toLowerCase(), event.token1.toLowerCase()]);
+    return [...new Set(addresses)];
+  }, [activity, pools]);
+  const metadataList = useTokenMetadata(tokens);
+
+  // Timestamps accumulate per chain; each block is requested until it loads
+  const [timestamps, setTimestamps] = useState<ReadonlyMap<string, number>>(new Map());
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    const provider = publicClientToProvider(publicClient ?? null);
+    if (!provider) return;
+    const missing = blocks.filter((blockNumber) => !requested.current.has(blockKey(chainId, blockNumber)));
+    if (missing.length === 0) return;
+    missing.forEach((blockNumber) => requested.current.add(blockKey(chainId, blockNumber)));
+    getBlockTimestamps(missing, provider)
+      .then((read) => {
+        // Blocks that failed are requested again on the next pass
+        missing
+          .filter((blockNumber) => !read.has(blockNumber))
+          .forEach((blockNumber) => requested.current.delete(blockKey(chainId, blockNumber)));
+        setTimestamps((current) => {
+          const next = new Map(current);
+          read.forEach((timestamp, blockNumber) => next.set(blockKey(chainId, blockNumber), timestamp));
+          return next;
+        });
+      })
+      .catch((error) => {
+        console.error("Error reading block timestamps:", error);
+        missing.forEach((blockNumber) => requested.current.delete(blockKey(chainId, blockNumber)));
+      });
+  }, [blocks, chainId, publicClient]);
+
+  const records = useMemo(() => {
+    if (!address || !metadataList) return [];
+    const chainTimestamps = new Map(
+      activity.flatMap((item) => {
+        const timestamp = timestamps.get(blockKey(chainId, item.blockNumber));
+        return timestamp === undefined ? [] : [[item.blockNumber, timestamp] as const];
+      }),
+    );
+    return getWalletHistory({
+      events,
+      account: address,
+      chainId,
+      chain: networks.find((network) => network.id === chainId)?.name ?? String(chainId),
+      metadata: new Map(metadataList.map((token) => [token.address.toLowerCase(), token])),
+      prices,
+      timestamps: chainTimestamps,
+    });
+  }, [address, activity, events, metadataList, timestamps, chainId, prices]);
+
+  const historyLoading = loading || (tokens.length > 0 && !metadataList);
+
+  return {
+    records,
+    /** True until the index has synced and every record's tokens are known. */
+    loading: historyLoading,
+    /** True once every record also has its block timestamp and the prices of its block. */
+    complete: !historyLoading && !pricesLoading && records.every((record) => record.timestamp !== null),
+  };
+}
@@ -0,0 +1,175 @@
+import { Interface, MaxUint256, ZeroAddress, getAddress, zeroPadValue, type Provider } from "ethers";
+
+import ERC20_ABI from "@/lib/abi/MockToken.json";
+import { APPROVAL_SPENDERS } from "@/config/constants";
+import type { TokenMetadata } from "@/lib/amm-events";
+import { getBlockTimestamps } from "@/lib/block-time";
+import { getLogsWithRetry, isRangeError } from "@/lib/logs";
+import { multicallAllowances, multicallTokenMetadata } from "@/lib/multicall";
+
+/**
+ * Rebuilds the allowances a wallet has granted to the app's spenders from
+ * ERC20 `Approval` logs, then reads each one live so revoked or spent
+ * approvals drop out.
+ */
+
+// Blocks per eth_getLogs request; halved automatically when the RPC rejects a range.
+const DEFAULT_CHUNK_SIZE = 5_000;
+const MIN_CHUNK_SIZE = 100;
+
+// Tokens that decrement on transferFrom drift below max uint256 but are still effectively unlimited.
+const UNLIMITED_THRESHOLD = MaxUint256 / BigInt(2);
+
+const erc20Interface = new Interface(ERC20_ABI);
+const approvalTopic = erc20Interface.getEvent("Approval")!.topicHash;
+
+export type AllowanceSpender = { address: string; label: string };
+
+export type WalletAllowance = {
+  token: TokenMetadata;
+  spender: AllowanceSpender;
+  /** Live allowance in base units. */
+  allowance: bigint;
+  unlimited: boolean;
+  /** Most recent `Approval` event, or null when the allowance was only found by a live read. */
+  lastApproval: {
+    blockNumber: number;
+    transactionHash: string;
+    value: bigint;
+    /** Unix seconds. */
+    timestamp: number | null;
+  } | null;
+};
+
+type ScanOptions = {
+  fromBlock?: number;
+  /** Tokens to read even without a matching log, e.g. every token with an indexed pool. */
+  extraTokens?: readonly string[];
+  chunkSize?: number;
+  /** Called after each log chunk with the last scanned block and the chain head. */
+  onProgress?: (scannedBlock: number, headBlock: number) => void;
+};
+
+const allowanceKey = (token: string, spender: string) => `${token.toLowerCase()}:${spender.toLowerCase()}`;
+
+/**
+ * Configured spenders with a deployed address, deduplicated.
+ */
+export function getApprovalSpenders(): AllowanceSpender[] {
+  const seen = new Set<string>();
+  return APPROVAL_SPENDERS.filter((spender) => {
+    const key = spender.address.toLowerCase();
+    if (spender.address === ZeroAddress || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Find every non-zero allowance `owner` has granted to `spenders`.
+ * Sorted with unlimited approvals first, then by most recent approval.
+ */
+export async function getWalletAllowances(
+  owner: string,
+  spenders: readonly AllowanceSpender[],
+  provider: Provider,
+  { fromBlock = 0, extraTokens = [], chunkSize = DEFAULT_CHUNK_SIZE, onProgress }: ScanOptions = {},
+): Promise<WalletAllowance[]> {
+  if (spenders.length === 0) return [];
+
+  const head = await provider.getBlockNumber();
+  const topics = [approvalTopic, zeroPadValue(owner, 32), spenders.map((spender) => zeroPadValue(spender.address, 32))];
+  const latest = new Map<string, NonNullable<WalletAllowance["lastApproval"]> & { token: string; spender: string }>();
+
+  let from = fromBlock;
+  let currentChunkSize = chunkSize;
+  while (from <= head) {
+    const to = Math.min(from + currentChunkSize - 1, head);
+    let logs;
+    try {
+      logs = await getLogsWithRetry(provider, { topics, fromBlock: from, toBlock: to });
+    } catch (error) {
+      if (currentChunkSize > MIN_CHUNK_SIZE && isRangeError(error)) {
+        currentChunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(currentChunkSize / 2));
+        continue;
+      }
+      throw error;
+    }
+
+    // Logs arrive in chain order, so later ones overwrite earlier approvals
+    for (const log of logs) {
+      const parsed = erc20Interface.parseLog(log);
+      if (!parsed) continue;
+      const spender = getAddress(parsed.args.spender);
+      latest.set(allowanceKey(log.address, spender), {
+        token: getAddress(log.address),
+        spender,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        value: parsed.args.value,
+        timestamp: null,
+      });
+    }
+    onProgress?.(to, head);
+    from = to + 1;
+  }
+
+  // Candidate pairs: every logged approval plus each extra token for every spender
+  const candidates = new Map<string, { token: string; spender: AllowanceSpender }>();
+  for (const found of latest.values()) {
+    const spender = spenders.find((item) => item.address.toLowerCase() === found.spender.toLowerCase());
+    if (spender) candidates.set(allowanceKey(found.token, spender.address), { token: found.token, spender });
+  }
+  for (const token of extraTokens) {
+    for (const spender of spenders) {
+      const key = allowanceKey(token, spender.address);
+      if (!candidates.has(key)) candidates.set(key, { token, spender });
+    }
+  }
+
+  const pairs = [...candidates.values()];
+  const allowances = await Promise.all(
+    spenders.map(async (spender) => {
+      const tokens = pairs.filter((pair) => pair.spender === spender).map((pair) => pair.token);
+      const values = await multicallAllowances(tokens, owner, spender.address, provider);
+      return new Map(tokens.map((token, index) => [allowanceKey(token, spender.address), values[index]]));
+    }),
+  );
+  const liveAllowance = (key: string) => allowances.find((values) => values.has(key))?.get(key) ?? BigInt(0);
+
+  const active = pairs.filter((pair) => liveAllowance(allowanceKey(pair.token, pair.spender.address)) > BigInt(0));
+  const tokens = [...new Map(active.map((pair) => [pair.token.toLowerCase(), pair.token])).values()];
+  const [metadata, timestamps] = await Promise.all([
+    multicallTokenMetadata(tokens, provider),
+    getBlockTimestamps(
+      active.flatMap((pair) => latest.get(allowanceKey(pair.token, pair.spender.address))?.blockNumber ?? []),
+      provider,
+    ),
+  ]);
+
+  return active
+    .map((pair): WalletAllowance => {
+      const key = allowanceKey(pair.token, pair.spender.address);
+      const allowance = liveAllowance(key);
+      const event = latest.get(key);
+      return {
+        token: metadata[tokens.findIndex((token) => token.toLowerCase() === pair.token.toLowerCase())],
+        spender: pair.spender,
+        allowance,
+        unlimited: allowance >= UNLIMITED_THRESHOLD,
+        lastApproval: event
+          ? {
+              blockNumber: event.blockNumber,
+              transactionHash: event.transactionHash,
+              value: event.value,
+              timestamp: timestamps.get(event.blockNumber) ?? null,
+            }
+          : null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.unlimited) - Number(a.unlimited) ||
+        (b.lastApproval?.blockNumber ?? -1) - (a.lastApproval?.blockNumber ?? -1),
+    );
+}
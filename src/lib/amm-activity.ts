@@ -0,0 +1,106 @@
+import type { AmmEventMeta } from "@/lib/amm";
+import type { PoolEvents } from "@/lib/pool-history";
+
+/**
+ * Indexed AMM events normalised into one newest-first activity list, for the
+ * pool activity feed and wallet history.
+ */
+
+export type ActivityType = "Swap" | "LiquidityAdded" | "LiquidityRemoved" | "PoolCreated";
+
+export const ACTIVITY_TYPES: { id: ActivityType; label: string }[] = [
+  { id: "Swap", label: "Swaps" },
+  { id: "LiquidityAdded", label: "Adds" },
+  { id: "LiquidityRemoved", label: "Removes" },
+  { id: "PoolCreated", label: "Creation" },
+];
+
+export type AmmActivity = AmmEventMeta & {
+  poolId: string;
+  /** The address that initiated the action: swap sender or liquidity provider. */
+  account: string;
+} & (
+    | { type: "Swap"; tokenIn: string; amountIn: bigint; amountOut: bigint; recipient: string }
+    | { type: "LiquidityAdded" | "LiquidityRemoved" | "PoolCreated"; amount0: bigint; amount1: bigint; liquidity: bigint }
+  );
+
+export type ActivityFilter = {
+  poolId?: string;
+  types?: readonly ActivityType[];
+  /** Only actions sent by, or swaps paid out to, this address. */
+  account?: string | null;
+};
+
+const newestFirst = (a: AmmEventMeta, b: AmmEventMeta) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex;
+
+/**
+ * Activity matching `filter`, newest first.
+ */
+export function getAmmActivity(events: PoolEvents, filter: ActivityFilter = {}): AmmActivity[] {
+  const poolId = filter.poolId?.toLowerCase();
+  const account = filter.account?.toLowerCase();
+  const types = filter.types ? new Set(filter.types) : null;
+
+  const activity: AmmActivity[] = [
+    ...events.pools.map(
+      (event): AmmActivity => ({
+        ...meta(event),
+        type: "PoolCreated",
+        poolId: event.poolId,
+        account: event.provider,
+        amount0: event.amount0,
+        amount1: event.amount1,
+        liquidity: event.initialLiquidity,
+      }),
+    ),
+    ...events.liquidityAdded.map(
+      (event): AmmActivity => ({
+        ...meta(event),
+        type: "LiquidityAdded",
+        poolId: event.poolId,
+        account: event.provider,
+        amount0: event.amount0,
+        amount1: event.amount1,
+        liquidity: event.liquidityMinted,
+      }),
+    ),
+    ...events.liquidityRemoved.map(
+      (event): AmmActivity => ({
+        ...meta(event),
+        type: "LiquidityRemoved",
+        poolId: event.poolId,
+        account: event.provider,
+        amount0: event.amount0,
+        amount1: event.amount1,
+        liquidity: event.liquidityBurned,
+      }),
+    ),
+    ...events.swaps.map(
+      (event): AmmActivity => ({
+        ...meta(event),
+        type: "Swap",
+        poolId: event.poolId,
+        account: event.sender,
+        tokenIn: event.tokenIn,
+        amountIn: event.amountIn,
+        amountOut: event.amountOut,
+        recipient: event.recipient,
+      }),
+    ),
+  ];
+
+  return activity
+    .filter((item) => {
+      if (poolId && item.poolId.toLowerCase() !== poolId) return false;
+      if (types && !types.has(item.type)) return false;
+      if (!account) return true;
+      return (
+        item.account.toLowerCase() === account || (item.type === "Swap" && item.recipient.toLowerCase() === account)
+      );
+    })
+    .sort(newestFirst);
+}
+
+function meta({ blockNumber, transactionHash, logIndex }: AmmEventMeta): AmmEventMeta {
+  return { blockNumber, transactionHash, logIndex };
+}
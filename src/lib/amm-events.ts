@@ -0,0 +1,161 @@
+import { Interface, formatUnits, type Log, type LogDescription } from "ethers";
+
+import AMM_ABI from "@/lib/abi/AMM.json";
+import type {
+  AmmEventMeta,
+  LiquidityAddedEvent,
+  LiquidityRemovedEvent,
+  OwnershipTransferredEvent,
+  PoolCreatedEvent,
+  SwapEvent,
+} from "@/lib/amm";
+
+/**
+ * Decoding of AMM event logs (from receipts or `eth_getLogs`) into the typed
+ * event shapes exported by `@/lib/amm`.
+ */
+
+export const ammInterface = new Interface(AMM_ABI);
+
+type EventArgs = LogDescription["args"];
+
+/** A raw AMM event tagged with its name. */
+export type AmmEvent =
+  | { type: "PoolCreated"; event: PoolCreatedEvent }
+  | { type: "LiquidityAdded"; event: LiquidityAddedEvent }
+  | { type: "LiquidityRemoved"; event: LiquidityRemovedEvent }
+  | { type: "Swap"; event: SwapEvent }
+  | { type: "OwnershipTransferred"; event: OwnershipTransferredEvent };
+
+export type AmmEventType = AmmEvent["type"];
+
+/** ERC20 metadata needed to present amounts. */
+export type TokenMetadata = {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+};
+
+/** A base-unit amount together with the token it is denominated in. */
+export type TokenAmountDetail = {
+  token: string;
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+  formatted: string;
+};
+
+/** An AMM event with its token amounts resolved and formatted with token decimals. */
+export type DecodedAmmEvent =
+  | { type: "PoolCreated"; event: PoolCreatedEvent; token0: TokenAmountDetail; token1: TokenAmountDetail }
+  | { type: "LiquidityAdded"; event: LiquidityAddedEvent; token0: TokenAmountDetail; token1: TokenAmountDetail }
+  | { type: "LiquidityRemoved"; event: LiquidityRemovedEvent; token0: TokenAmountDetail; token1: TokenAmountDetail }
+  | { type: "Swap"; event: SwapEvent; tokenIn: TokenAmountDetail; tokenOut: TokenAmountDetail };
+
+const eventMeta = (log: Log): AmmEventMeta => ({
+  blockNumber: log.blockNumber,
+  transactionHash: log.transactionHash,
+  logIndex: log.index,
+});
+
+export const toPoolCreatedEvent = (args: EventArgs, log: Log): PoolCreatedEvent => ({
+  ...eventMeta(log),
+  poolId: args.poolId,
+  token0: args.token0,
+  token1: args.token1,
+  feeBps: Number(args.feeBps),
+  initialLiquidity: args.initialLiquidity,
+  amount0: args.amount0,
+  amount1: args.amount1,
+  provider: args.provider,
+});
+
+export const toLiquidityAddedEvent = (args: EventArgs, log: Log): LiquidityAddedEvent => ({
+  ...eventMeta(log),
+  poolId: args.poolId,
+  provider: args.provider,
+  liquidityMinted: args.liquidityMinted,
+  amount0: args.amount0,
+  amount1: args.amount1,
+});
+
+export const toLiquidityRemovedEvent = (args: EventArgs, log: Log): LiquidityRemovedEvent => ({
+  ...eventMeta(log),
+  poolId: args.poolId,
+  provider: args.provider,
+  liquidityBurned: args.liquidityBurned,
+  amount0: args.amount0,
+  amount1: args.amount1,
+});
+
+export const toSwapEvent = (args: EventArgs, log: Log): SwapEvent => ({
+  ...eventMeta(log),
+  poolId: args.poolId,
+  sender: args.sender,
+  tokenIn: args.tokenIn,
+  amountIn: args.amountIn,
+  amountOut: args.amountOut,
+  recipient: args.recipient,
+});
+
+export const toOwnershipTransferredEvent = (args: EventArgs, log: Log): OwnershipTransferredEvent => ({
+  ...eventMeta(log),
+  previousOwner: args.previousOwner,
+  newOwner: args.newOwner,
+});
+
+/**
+ * Decode a single log against the AMM ABI. Returns null for foreign logs.
+ */
+export function decodeAmmLog(log: Log): AmmEvent | null {
+  let parsed: LogDescription | null = null;
+  try {
+    parsed = ammInterface.parseLog(log);
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  switch (parsed.name) {
+    case "PoolCreated":
+      return { type: "PoolCreated", event: toPoolCreatedEvent(parsed.args, log) };
+    case "LiquidityAdded":
+      return { type: "LiquidityAdded", event: toLiquidityAddedEvent(parsed.args, log) };
+    case "LiquidityRemoved":
+      return { type: "LiquidityRemoved", event: toLiquidityRemovedEvent(parsed.args, log) };
+    case "Swap":
+      return { type: "Swap", event: toSwapEvent(parsed.args, log) };
+    case "OwnershipTransferred":
+      return { type: "OwnershipTransferred", event: toOwnershipTransferredEvent(parsed.args, log) };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode every log emitted by the AMM at `ammAddress`, in log order.
+ */
+export function decodeAmmLogs(logs: readonly Log[], ammAddress: string): AmmEvent[] {
+  const target = ammAddress.toLowerCase();
+  const events: AmmEvent[] = [];
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== target) continue;
+    const decoded = decodeAmmLog(log);
+    if (decoded) events.push(decoded);
+  }
+  return events;
+}
+
+/**
+ * Attach token metadata to a base-unit amount.
+ */
+export function toTokenAmountDetail(token: TokenMetadata, amount: bigint): TokenAmountDetail {
+  return {
+    token: token.address,
+    symbol: token.symbol,
+    decimals: token.decimals,
+    amount,
+    formatted: formatUnits(amount, token.decimals),
+  };
+}
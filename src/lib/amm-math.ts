@@ -0,0 +1,259 @@
+import type { PoolInfo } from "@/lib/amm";
+
+/**
+ * Off-chain constant-product math for the QuantumDEX AMM.
+ *
+ * Every function works on raw base units (bigint) so results match the contract
+ * to the wei. Formatting to human amounts is left to the caller.
+ */
+
+export const BPS_DENOMINATOR = BigInt(10_000);
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+/** An exact ratio of two bigints, used for prices and percentages. */
+export type Ratio = {
+  numerator: bigint;
+  denominator: bigint;
+};
+
+/** Full breakdown of a swap against a single pool. */
+export type SwapQuote = {
+  zeroForOne: boolean;
+  amountIn: bigint;
+  amountOut: bigint;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  feeBps: number;
+  /** Portion of `amountIn` kept by LPs. */
+  feeAmount: bigint;
+  /** Spot price before the trade, tokenOut per tokenIn in base units. */
+  midPrice: Ratio;
+  /** Realised price of the trade, tokenOut per tokenIn in base units. */
+  executionPrice: Ratio;
+  /** Relative shortfall of the execution price against the mid price (fee included). */
+  priceImpact: Ratio;
+};
+
+export type LiquidityDeposit = {
+  amount0: bigint;
+  amount1: bigint;
+  liquidity: bigint;
+};
+
+export type LiquidityWithdrawal = {
+  amount0: bigint;
+  amount1: bigint;
+};
+
+/**
+ * Integer square root (floor) via Newton's method.
+ */
+export function sqrt(value: bigint): bigint {
+  if (value < ZERO) throw new Error("sqrt of negative value");
+  if (value < TWO) return value;
+  let x0 = value;
+  let x1 = (value >> ONE) + ONE;
+  while (x1 < x0) {
+    x0 = x1;
+    x1 = (value / x1 + x1) >> ONE;
+  }
+  return x0;
+}
+
+/**
+ * Output amount for an exact input: fee is taken from the input, then x * y = k.
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: number): bigint {
+  if (amountIn <= ZERO) return ZERO;
+  if (reserveIn <= ZERO || reserveOut <= ZERO) throw new Error("Insufficient liquidity");
+  const amountInWithFee = amountIn * (BPS_DENOMINATOR - BigInt(feeBps));
+  return (amountInWithFee * reserveOut) / (reserveIn * BPS_DENOMINATOR + amountInWithFee);
+}
+
+/**
+ * Input amount required for an exact output, rounded up so the pool never
+ * returns less than `amountOut`.
+ */
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: number): bigint {
+  if (amountOut <= ZERO) return ZERO;
+  if (reserveIn <= ZERO || reserveOut <= ZERO) throw new Error("Insufficient liquidity");
+  if (amountOut >= reserveOut) throw new Error("Output exceeds pool reserves");
+  const numerator = reserveIn * amountOut * BPS_DENOMINATOR;
+  const denominator = (reserveOut - amountOut) * (BPS_DENOMINATOR - BigInt(feeBps));
+  return numerator / denominator + ONE;
+}
+
+/**
+ * Orient pool reserves for a trade starting from `tokenIn`.
+ */
+export function getReservesFor(pool: PoolInfo, tokenIn: string) {
+  const zeroForOne = pool.token0.toLowerCase() === tokenIn.toLowerCase();
+  if (!zeroForOne && pool.token1.toLowerCase() !== tokenIn.toLowerCase()) {
+    throw new Error(`Token ${tokenIn} is not part of pool ${pool.poolId}`);
+  }
+  return {
+    zeroForOne,
+    reserveIn: zeroForOne ? pool.reserve0 : pool.reserve1,
+    reserveOut: zeroForOne ? pool.reserve1 : pool.reserve0,
+  };
+}
+
+/**
+ * Spot price of tokenOut per tokenIn in base units.
+ */
+export function getMidPrice(reserveIn: bigint, reserveOut: bigint): Ratio {
+  return { numerator: reserveOut, denominator: reserveIn };
+}
+
+/**
+ * Price impact of a trade: 1 - executionPrice / midPrice.
+ */
+export function getPriceImpact(amountIn: bigint, amountOut: bigint, reserveIn: bigint, reserveOut: bigint): Ratio {
+  if (amountIn <= ZERO || reserveOut <= ZERO) return { numerator: ZERO, denominator: ONE };
+  // executionPrice / midPrice = (amountOut / amountIn) / (reserveOut / reserveIn)
+  const denominator = amountIn * reserveOut;
+  const numerator = denominator - amountOut * reserveIn;
+  return { numerator: numerator < ZERO ? ZERO : numerator, denominator };
+}
+
+function buildQuote(
+  pool: PoolInfo,
+  tokenIn: string,
+  amountIn: bigint,
+  amountOut: bigint,
+): SwapQuote {
+  const { zeroForOne, reserveIn, reserveOut } = getReservesFor(pool, tokenIn);
+  return {
+    zeroForOne,
+    amountIn,
+    amountOut,
+    reserveIn,
+    reserveOut,
+    feeBps: pool.feeBps,
+    feeAmount: (amountIn * BigInt(pool.feeBps)) / BPS_DENOMINATOR,
+    midPrice: getMidPrice(reserveIn, reserveOut),
+    executionPrice: { numerator: amountOut, denominator: amountIn > ZERO ? amountIn : ONE },
+    priceImpact: getPriceImpact(amountIn, amountOut, reserveIn, reserveOut),
+  };
+}
+
+/**
+ * Quote selling exactly `amountIn` of `tokenIn` into `pool`.
+ */
+export function quoteExactInput(pool: PoolInfo, tokenIn: string, amountIn: bigint): SwapQuote {
+  const { reserveIn, reserveOut } = getReservesFor(pool, tokenIn);
+  return buildQuote(pool, tokenIn, amountIn, getAmountOut(amountIn, reserveIn, reserveOut, pool.feeBps));
+}
+
+/**
+ * Quote buying exactly `amountOut` of the other token by selling `tokenIn`.
+ */
+export function quoteExactOutput(pool: PoolInfo, tokenIn: string, amountOut: bigint): SwapQuote {
+  const { reserveIn, reserveOut } = getReservesFor(pool, tokenIn);
+  return buildQuote(pool, tokenIn, getAmountIn(amountOut, reserveIn, reserveOut, pool.feeBps), amountOut);
+}
+
+/**
+ * Amount of the other token that keeps the pool ratio for a deposit of `amountA`.
+ */
+export function quoteLiquidityAmount(amountA: bigint, reserveA: bigint, reserveB: bigint): bigint {
+  if (reserveA <= ZERO || reserveB <= ZERO) return ZERO;
+  return (amountA * reserveB) / reserveA;
+}
+
+/**
+ * Amounts actually deposited and LP tokens minted for desired deposit amounts.
+ * An empty pool mints sqrt(amount0 * amount1); otherwise the smaller side of the
+ * ratio is used in full and the other side is trimmed to match.
+ */
+export function getLiquidityMinted(pool: PoolInfo, amount0Desired: bigint, amount1Desired: bigint): LiquidityDeposit {
+  if (pool.totalSupply === ZERO || pool.reserve0 === ZERO || pool.reserve1 === ZERO) {
+    return { amount0: amount0Desired, amount1: amount1Desired, liquidity: sqrt(amount0Desired * amount1Desired) };
+  }
+
+  let amount0 = amount0Desired;
+  let amount1 = quoteLiquidityAmount(amount0Desired, pool.reserve0, pool.reserve1);
+  if (amount1 > amount1Desired) {
+    amount1 = amount1Desired;
+    amount0 = quoteLiquidityAmount(amount1Desired, pool.reserve1, pool.reserve0);
+  }
+
+  const liquidity0 = (amount0 * pool.totalSupply) / pool.reserve0;
+  const liquidity1 = (amount1 * pool.totalSupply) / pool.reserve1;
+  return { amount0, amount1, liquidity: liquidity0 < liquidity1 ? liquidity0 : liquidity1 };
+}
+
+/**
+ * Reserves returned for burning `liquidity` LP tokens.
+ */
+export function getLiquidityBurned(pool: PoolInfo, liquidity: bigint): LiquidityWithdrawal {
+  if (pool.totalSupply === ZERO || liquidity <= ZERO) return { amount0: ZERO, amount1: ZERO };
+  return {
+    amount0: (liquidity * pool.reserve0) / pool.totalSupply,
+    amount1: (liquidity * pool.reserve1) / pool.totalSupply,
+  };
+}
+
+/**
+ * Share of the pool owned by `liquidity` LP tokens after they are minted or held.
+ */
+export function getPoolShare(liquidity: bigint, totalSupply: bigint): Ratio {
+  if (totalSupply <= ZERO) return { numerator: liquidity > ZERO ? ONE : ZERO, denominator: ONE };
+  return { numerator: liquidity, denominator: totalSupply };
+}
+
+/**
+ * Lower bound for an output after `slippageBps` tolerance.
+ */
+export function applySlippageDown(amount: bigint, slippageBps: number): bigint {
+  return (amount * (BPS_DENOMINATOR - BigInt(slippageBps))) / BPS_DENOMINATOR;
+}
+
+/**
+ * Upper bound for an input after `slippageBps` tolerance, rounded up.
+ */
+export function applySlippageUp(amount: bigint, slippageBps: number): bigint {
+  const scaled = amount * (BPS_DENOMINATOR + BigInt(slippageBps));
+  return (scaled + BPS_DENOMINATOR - ONE) / BPS_DENOMINATOR;
+}
+
+/**
+ * Format a ratio as a decimal string with `precision` fractional digits.
+ * `decimalsShift` moves the decimal point, e.g. to convert a base-unit price
+ * into a human price pass `decimalsIn - decimalsOut`.
+ */
+export function formatRatio(ratio: Ratio, precision = 6, decimalsShift = 0): string {
+  if (ratio.denominator === ZERO) return "—";
+  let { numerator, denominator } = ratio;
+  if (decimalsShift > 0) numerator *= BigInt(10) ** BigInt(decimalsShift);
+  if (decimalsShift < 0) denominator *= BigInt(10) ** BigInt(-decimalsShift);
+
+  const negative = numerator < ZERO !== denominator < ZERO;
+  if (numerator < ZERO) numerator = -numerator;
+  if (denominator < ZERO) denominator = -denominator;
+
+  const scale = BigInt(10) ** BigInt(precision);
+  const scaled = (numerator * scale + denominator / TWO) / denominator;
+  const whole = scaled / scale;
+  const fraction = (scaled % scale).toString().padStart(precision, "0");
+  const body = precision > 0 ? `${whole}.${fraction}` : whole.toString();
+  return negative && scaled !== ZERO ? `-${body}` : body;
+}
+
+/**
+ * Format a ratio as a percentage, e.g. `{ 1n, 400n }` -> "0.25%".
+ */
+export function formatPercent(ratio: Ratio, precision = 2): string {
+  return `${formatRatio({ numerator: ratio.numerator * BigInt(100), denominator: ratio.denominator }, precision)}%`;
+}
+
+/**
+ * Parse a percentage label such as "0.5%" into basis points.
+ */
+export function percentToBps(value: string): number {
+  const parsed = Number.parseFloat(value.replace("%", ""));
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) : 0;
+}
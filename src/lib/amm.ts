@@ -1,258 +1,843 @@
-import { Contract, parseUnits, formatUnits, type JsonRpcSigner, type Provider } from "ethers";
+import {
+  Contract,
+  MaxUint256,
+  ZeroAddress,
+  formatUnits,
+  type ContractRunner,
+  type DeferredTopicFilter,
+  type JsonRpcSigner,
+  type Log,
+  type LogDescription,
+  type Provider,
+  type Result,
+  type TransactionReceipt,
+} from "ethers";
 
-export type Pool = {
+import AMM_ABI from "@/lib/abi/AMM.json";
+import ERC20_ABI from "@/lib/abi/MockToken.json";
+import { AMM_CONTRACT_ADDRESS, AMM_DEPLOYMENT_BLOCKS } from "@/config/constants";
+import { shortenAddress } from "@/lib/utils";
+import { quoteExactInput, quoteExactOutput, type SwapQuote } from "@/lib/amm-math";
+import { decodeError, type DecodedError, type ErrorContext } from "@/lib/errors";
+import {
+  decodeAmmLogs,
+  toLiquidityAddedEvent,
+  toLiquidityRemovedEvent,
+  toOwnershipTransferredEvent,
+  toPoolCreatedEvent,
+  toSwapEvent,
+  toTokenAmountDetail,
+  type DecodedAmmEvent,
+  type TokenAmountDetail,
+  type TokenMetadata,
+} from "@/lib/amm-events";
+import { trackToken, transactionStore, waitForTransaction } from "@/lib/transactions";
+import { getFeeOverrides } from "@/lib/gas";
+
+export { AMM_CONTRACT_ADDRESS };
+
+/**
+ * Block the AMM was deployed at on `chainId`, or genesis when it is not configured.
+ */
+export const getAmmDeploymentBlock = (chainId: number) => AMM_DEPLOYMENT_BLOCKS[chainId] ?? 0;
+
+// Sentinel address used by wallets and token lists for the chain's native asset.
+export const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+export const isNativeToken = (tokenAddress?: string | null) =>
+  !tokenAddress || tokenAddress.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase();
+
+/**
+ * On-chain state of a pool as returned by `AMM.getPool(poolId)`.
+ * Reserves and supply are raw base units; `feeBps` is in basis points.
+ */
+export type PoolInfo = {
+  poolId: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  feeBps: number;
+  totalSupply: bigint;
+};
+
+/** Block/transaction metadata shared by every decoded AMM event. */
+export type AmmEventMeta = {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+};
+
+export type PoolCreatedEvent = AmmEventMeta & {
+  poolId: string;
   token0: string;
   token1: string;
-  fee: number;
-  pool: string;
-  blockNumber?: number;
-  txHash?: string;
+  feeBps: number;
+  initialLiquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  provider: string;
+};
+
+export type LiquidityAddedEvent = AmmEventMeta & {
+  poolId: string;
+  provider: string;
+  liquidityMinted: bigint;
+  amount0: bigint;
+  amount1: bigint;
+};
+
+export type LiquidityRemovedEvent = AmmEventMeta & {
+  poolId: string;
+  provider: string;
+  liquidityBurned: bigint;
+  amount0: bigint;
+  amount1: bigint;
+};
+
+export type SwapEvent = AmmEventMeta & {
+  poolId: string;
+  sender: string;
+  tokenIn: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  recipient: string;
+};
+
+export type OwnershipTransferredEvent = AmmEventMeta & {
+  previousOwner: string;
+  newOwner: string;
+};
+
+/** Optional block range for event queries. Defaults to the full history. */
+export type BlockRange = {
+  fromBlock?: number;
+  toBlock?: number | "latest";
+};
+
+export type CreatePoolResult = {
+  receipt: TransactionReceipt;
+  poolId: string;
+  feeBps: number;
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  token0Amount: TokenAmountDetail;
+  token1Amount: TokenAmountDetail;
+};
+
+export type AddLiquidityResult = {
+  receipt: TransactionReceipt;
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  token0Amount: TokenAmountDetail;
+  token1Amount: TokenAmountDetail;
 };
 
-// Minimal factory ABI: PoolCreated event + createPool function
-const DEFAULT_FACTORY_ABI = [
-  "event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, address pool)",
-  "function createPool(address tokenA, address tokenB, uint24 fee) external returns (address)",
-];
-
-// Minimal router ABI placeholders — callers may pass a custom ABI for their router
-const DEFAULT_ROUTER_ABI = [
-  "function swap(address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut) external returns (uint256)",
-  "function addLiquidity(address pool, address tokenA, address tokenB, uint256 amountA, uint256 amountB) external returns (uint256 shares)",
-  "function removeLiquidity(address pool, uint256 shares) external returns (uint256 amountA, uint256 amountB)",
-  // common router read helpers
-  "function getAmountsOut(uint256 amountIn, address[] calldata path) view returns (uint256[])",
-];
-
-const DEFAULT_FACTORY_ABI_FULL = [
-  ...DEFAULT_FACTORY_ABI,
-  // common factory helpers
-  "function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)",
-  "function getPair(address tokenA, address tokenB) view returns (address)",
-];
-
-/**
- * Read all PoolCreated events from a factory contract and return typed pools.
- * - `provider` may be an ethers Provider (read-only) or BrowserProvider from ethers.
- * - `factoryAbi` is optional — a minimal ABI is provided.
+export type RemoveLiquidityResult = {
+  receipt: TransactionReceipt;
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  token0Amount: TokenAmountDetail;
+  token1Amount: TokenAmountDetail;
+};
+
+export type SwapResult = {
+  receipt: TransactionReceipt;
+  poolId: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  tokenInAmount: TokenAmountDetail;
+  tokenOutAmount: TokenAmountDetail;
+};
+
+/**
+ * Outcome of an `eth_call` dry run of a write: the values the contract would
+ * return and the gas estimate, or the decoded revert.
  */
-export async function getAllPools(
-  provider: Provider | any,
-  factoryAddress: string,
-  factoryAbi: any = DEFAULT_FACTORY_ABI,
-): Promise<Pool[]> {
-  const factory = new Contract(factoryAddress, factoryAbi, provider);
-  const filter = factory.filters?.PoolCreated?.();
-  const events = filter ? await factory.queryFilter(filter) : [];
-  return events.map((ev: any) => ({
-    token0: ev.args?.token0 ?? ev.args?.[0],
-    token1: ev.args?.token1 ?? ev.args?.[1],
-    fee: Number(ev.args?.fee ?? ev.args?.[2] ?? 0),
-    pool: ev.args?.pool ?? ev.args?.[3],
-    blockNumber: ev.blockNumber,
-    txHash: ev.transactionHash,
-  }));
-}
+export type Simulation<T> = { ok: true; result: T; gasEstimate: bigint } | { ok: false; error: DecodedError };
+
+export type CreatePoolSimulation = { poolId: string; liquidity: bigint };
+export type AddLiquiditySimulation = { liquidity: bigint; amount0: bigint; amount1: bigint };
+export type RemoveLiquiditySimulation = { amount0: bigint; amount1: bigint };
+export type SwapSimulation = { amountOut: bigint };
+
+/** A swap quote together with the pool state it was computed from. */
+export type PoolQuote = SwapQuote & {
+  pool: PoolInfo;
+};
 
 /**
- * Try to compute an on-chain quote for tokenIn -> tokenOut for a given amountIn.
- * It will try common router methods (getAmountsOut) and fallback to reading pair reserves.
- * Returns amountOut as a string in base units (wei) or null if unable to quote.
+ * Build an ethers contract bound to the AMM ABI.
+ * - `runner` is a Provider for reads or a Signer for writes.
  */
-async function resolveAbi(maybeAbi: any, importPath: string, fallback: any) {
-  if (maybeAbi) return maybeAbi;
-  try {
-    // dynamic import allows dropping ABI json into src/abis/Router.json etc.
-    // path is relative to the compiled module location; using explicit path for Next.js
-    // may require adjustment depending on bundler. We try a few likely locations.
-    const mod = await import(importPath);
-    return (mod && (mod.default ?? mod)) || fallback;
-  } catch (e) {
-    return fallback;
+export function getAmmContract(ammAddress: string = AMM_CONTRACT_ADDRESS, runner?: ContractRunner | null) {
+  return new Contract(ammAddress, AMM_ABI, runner ?? null);
+}
+
+const getTokenContract = (tokenAddress: string, runner: ContractRunner) =>
+  new Contract(tokenAddress, ERC20_ABI, runner);
+
+async function queryEvents<T>(
+  amm: Contract,
+  filter: DeferredTopicFilter,
+  range: BlockRange,
+  mapper: (args: LogDescription["args"], log: Log) => T,
+): Promise<T[]> {
+  const logs = await amm.queryFilter(filter, range.fromBlock ?? 0, range.toBlock ?? "latest");
+  const events: T[] = [];
+  for (const log of logs) {
+    const args = "args" in log ? log.args : amm.interface.parseLog(log)?.args;
+    if (args) events.push(mapper(args, log));
   }
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute the deterministic poolId for a token pair and fee tier (`AMM.getPoolId`).
+ * Token order does not matter; the contract sorts the pair.
+ */
+export async function getPoolId(
+  tokenA: string,
+  tokenB: string,
+  feeBps: number,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<string> {
+  const amm = getAmmContract(ammAddress, runner);
+  return amm.getPoolId(tokenA, tokenB, feeBps);
+}
+
+/**
+ * Fee tier applied by `createPool` (`AMM.defaultFeeBps`).
+ */
+export async function getDefaultFeeBps(ammAddress: string, runner: ContractRunner): Promise<number> {
+  const amm = getAmmContract(ammAddress, runner);
+  return Number(await amm.defaultFeeBps());
 }
 
+/**
+ * Current owner of the AMM contract (`AMM.owner`).
+ */
+export async function getOwner(ammAddress: string, runner: ContractRunner): Promise<string> {
+  const amm = getAmmContract(ammAddress, runner);
+  return amm.owner();
+}
+
+/**
+ * Read pool state for a poolId. Returns null when the pool has not been created.
+ */
+export async function getPool(poolId: string, ammAddress: string, runner: ContractRunner): Promise<PoolInfo | null> {
+  const amm = getAmmContract(ammAddress, runner);
+  const [token0, token1, reserve0, reserve1, feeBps, totalSupply] = await amm.getPool(poolId);
+  if (token0 === ZeroAddress && token1 === ZeroAddress) return null;
+  return {
+    poolId,
+    token0,
+    token1,
+    reserve0,
+    reserve1,
+    feeBps: Number(feeBps),
+    totalSupply,
+  };
+}
+
+/**
+ * LP token balance of `account` in a pool (`AMM.getLpBalance`).
+ */
+export async function getLpBalance(
+  poolId: string,
+  account: string,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<bigint> {
+  const amm = getAmmContract(ammAddress, runner);
+  return amm.getLpBalance(poolId, account);
+}
+
+/**
+ * Query a user's liquidity in a pool. Alias of `getLpBalance` kept for the pages.
+ */
+export async function getUserLiquidity(
+  poolId: string,
+  userAddress: string,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<bigint> {
+  return getLpBalance(poolId, userAddress, ammAddress, runner);
+}
+
+/**
+ * Compute an off-chain exact-input quote for tokenIn -> tokenOut in the pool for `feeBps`.
+ * Returns null when the pool does not exist or has no liquidity.
+ */
 export async function getQuote(
-  provider: Provider | any,
-  routerAddress: string,
   tokenIn: string,
   tokenOut: string,
-  amountInHuman: string,
-  decimalsIn = 18,
-  decimalsOut = 18,
-  routerAbi?: any,
-  factoryAddress?: string,
-  factoryAbi?: any,
-) {
-  const resolvedRouterAbi = await resolveAbi(routerAbi, "@/abis/Router.json", DEFAULT_ROUTER_ABI);
-  const resolvedFactoryAbi = await resolveAbi(factoryAbi, "@/abis/Factory.json", DEFAULT_FACTORY_ABI_FULL);
-  const router = new Contract(routerAddress, resolvedRouterAbi, provider);
-  // convert to wei-like amount
-  const amountIn = parseUnits(amountInHuman, decimalsIn);
-  // try getAmountsOut(path)
+  amountIn: bigint,
+  feeBps: number,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<PoolQuote | null> {
+  const poolId = await getPoolId(tokenIn, tokenOut, feeBps, ammAddress, runner);
+  const pool = await getPool(poolId, ammAddress, runner);
+  if (!pool || pool.reserve0 === BigInt(0) || pool.reserve1 === BigInt(0)) return null;
+  return { ...quoteExactInput(pool, tokenIn, amountIn), pool };
+}
+
+/**
+ * Quote buying exactly `amountOut` of `tokenOut` from the pool at `feeBps`.
+ * Returns null when the pool does not exist, is empty, or cannot fill the output.
+ */
+export async function getExactOutputQuote(
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: bigint,
+  feeBps: number,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<PoolQuote | null> {
+  const poolId = await getPoolId(tokenIn, tokenOut, feeBps, ammAddress, runner);
+  const pool = await getPool(poolId, ammAddress, runner);
+  if (!pool || pool.reserve0 === BigInt(0) || pool.reserve1 === BigInt(0)) return null;
   try {
-    if (typeof router.getAmountsOut === "function") {
-      const amounts: any = await router.getAmountsOut(amountIn, [tokenIn, tokenOut]);
-      const out = amounts[amounts.length - 1];
-      return out.toString();
-    }
-  } catch (e) {
-    // ignore and try next
+    return { ...quoteExactOutput(pool, tokenIn, amountOut), pool };
+  } catch {
+    return null;
   }
+}
 
-  // fallback: try factory -> pair -> getReserves
-  if (factoryAddress) {
-    try {
-      const factory = new Contract(factoryAddress, resolvedFactoryAbi, provider);
-      // try common function names
-      let pairAddress: string | null = null;
-      try {
-        pairAddress = await factory.getPair(tokenIn, tokenOut);
-      } catch {}
-      if (!pairAddress) {
-        try {
-          pairAddress = await factory.getPool(tokenIn, tokenOut, 3000);
-        } catch {}
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+/**
+ * Read all PoolCreated events from the AMM and return typed pools.
+ */
+export async function getAllPools(
+  ammAddress: string,
+  runner: ContractRunner,
+  range: BlockRange = {},
+): Promise<PoolCreatedEvent[]> {
+  const amm = getAmmContract(ammAddress, runner);
+  return queryEvents(amm, amm.filters.PoolCreated(), range, toPoolCreatedEvent);
+}
+
+/**
+ * Read Swap events, optionally narrowed to a poolId and/or sender.
+ */
+export async function getSwapEvents(
+  ammAddress: string,
+  runner: ContractRunner,
+  { poolId, sender, tokenIn }: { poolId?: string; sender?: string; tokenIn?: string } = {},
+  range: BlockRange = {},
+): Promise<SwapEvent[]> {
+  const amm = getAmmContract(ammAddress, runner);
+  return queryEvents(amm, amm.filters.Swap(poolId ?? null, sender ?? null, tokenIn ?? null), range, toSwapEvent);
+}
+
+/**
+ * Read LiquidityAdded events, optionally narrowed to a poolId and/or provider.
+ */
+export async function getLiquidityAddedEvents(
+  ammAddress: string,
+  runner: ContractRunner,
+  { poolId, provider }: { poolId?: string; provider?: string } = {},
+  range: BlockRange = {},
+): Promise<LiquidityAddedEvent[]> {
+  const amm = getAmmContract(ammAddress, runner);
+  return queryEvents(amm, amm.filters.LiquidityAdded(poolId ?? null, provider ?? null), range, toLiquidityAddedEvent);
+}
+
+/**
+ * Read LiquidityRemoved events, optionally narrowed to a poolId and/or provider.
+ */
+export async function getLiquidityRemovedEvents(
+  ammAddress: string,
+  runner: ContractRunner,
+  { poolId, provider }: { poolId?: string; provider?: string } = {},
+  range: BlockRange = {},
+): Promise<LiquidityRemovedEvent[]> {
+  const amm = getAmmContract(ammAddress, runner);
+  return queryEvents(
+    amm,
+    amm.filters.LiquidityRemoved(poolId ?? null, provider ?? null),
+    range,
+    toLiquidityRemovedEvent,
+  );
+}
+
+/**
+ * Read OwnershipTransferred events for the AMM contract.
+ */
+export async function getOwnershipTransferredEvents(
+  ammAddress: string,
+  runner: ContractRunner,
+  range: BlockRange = {},
+): Promise<OwnershipTransferredEvent[]> {
+  const amm = getAmmContract(ammAddress, runner);
+  return queryEvents(amm, amm.filters.OwnershipTransferred(), range, toOwnershipTransferredEvent);
+}
+
+// ---------------------------------------------------------------------------
+// Receipts
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode the AMM events in a receipt and resolve their token amounts with the
+ * tokens' decimals. Pool tokens are read on-chain for events that only carry a poolId.
+ */
+export async function parseAmmReceipt(
+  receipt: Pick<TransactionReceipt, "logs">,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<DecodedAmmEvent[]> {
+  const pools = new Map<string, Promise<PoolInfo | null>>();
+  const poolFor = async (poolId: string) => {
+    if (!pools.has(poolId)) pools.set(poolId, getPool(poolId, ammAddress, runner));
+    const pool = await pools.get(poolId);
+    if (!pool) throw new Error(`Pool ${poolId} not found`);
+    return pool;
+  };
+  const poolAmounts = async ({ poolId, amount0, amount1 }: { poolId: string; amount0: bigint; amount1: bigint }) => {
+    const pool = await poolFor(poolId);
+    const [token0, token1] = await Promise.all([
+      getTokenMetadata(pool.token0, runner),
+      getTokenMetadata(pool.token1, runner),
+    ]);
+    return { token0: toTokenAmountDetail(token0, amount0), token1: toTokenAmountDetail(token1, amount1) };
+  };
+
+  const decoded: DecodedAmmEvent[] = [];
+  for (const item of decodeAmmLogs(receipt.logs, ammAddress)) {
+    switch (item.type) {
+      case "PoolCreated": {
+        const [token0, token1] = await Promise.all([
+          getTokenMetadata(item.event.token0, runner),
+          getTokenMetadata(item.event.token1, runner),
+        ]);
+        decoded.push({
+          type: item.type,
+          event: item.event,
+          token0: toTokenAmountDetail(token0, item.event.amount0),
+          token1: toTokenAmountDetail(token1, item.event.amount1),
+        });
+        break;
       }
-      if (pairAddress && pairAddress !== "0x0000000000000000000000000000000000000000") {
-        const pairAbi = ["function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)", "function token0() view returns (address)"];
-        const pair = new Contract(pairAddress, pairAbi, provider);
-        const token0 = await pair.token0();
-        const reserves: any = await pair.getReserves();
-        let reserveIn, reserveOut;
-        if (token0.toLowerCase() === tokenIn.toLowerCase()) {
-          reserveIn = reserves[0];
-          reserveOut = reserves[1];
-        } else {
-          reserveIn = reserves[1];
-          reserveOut = reserves[0];
-        }
-        // price formula for UniswapV2: amountOut = amountIn * reserveOut / reserveIn (ignoring fees)
-        const amountOut = (amountIn * reserveOut) / reserveIn;
-        return amountOut.toString();
+      case "LiquidityAdded":
+        decoded.push({ type: item.type, event: item.event, ...(await poolAmounts(item.event)) });
+        break;
+      case "LiquidityRemoved":
+        decoded.push({ type: item.type, event: item.event, ...(await poolAmounts(item.event)) });
+        break;
+      case "Swap": {
+        const pool = await poolFor(item.event.poolId);
+        const tokenOutAddress =
+          pool.token0.toLowerCase() === item.event.tokenIn.toLowerCase() ? pool.token1 : pool.token0;
+        const [tokenIn, tokenOut] = await Promise.all([
+          getTokenMetadata(item.event.tokenIn, runner),
+          getTokenMetadata(tokenOutAddress, runner),
+        ]);
+        decoded.push({
+          type: item.type,
+          event: item.event,
+          tokenIn: toTokenAmountDetail(tokenIn, item.event.amountIn),
+          tokenOut: toTokenAmountDetail(tokenOut, item.event.amountOut),
+        });
+        break;
       }
-    } catch (e) {
-      // ignore
+      default:
+        break;
     }
   }
+  return decoded;
+}
 
-  return null;
+/**
+ * Fetch a transaction receipt by hash and decode its AMM events.
+ */
+export async function getTransactionEvents(
+  txHash: string,
+  ammAddress: string,
+  provider: Provider,
+): Promise<DecodedAmmEvent[]> {
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt) return [];
+  return parseAmmReceipt(receipt, ammAddress, provider);
 }
 
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+const toTrackedToken = (detail: TokenAmountDetail) => trackToken(detail.token, detail.amount, detail);
+
 /**
- * Create a pool using a factory contract. Returns the transaction receipt (wait result).
+ * Find the first decoded event of `type` in a parsed receipt, or throw.
+ */
+function requireEvent<T extends DecodedAmmEvent["type"]>(
+  events: DecodedAmmEvent[],
+  type: T,
+  receipt: TransactionReceipt,
+): Extract<DecodedAmmEvent, { type: T }> {
+  const match = events.find((item) => item.type === type);
+  if (!match) throw new Error(`${type} event not found in transaction ${receipt.hash}`);
+  return match as Extract<DecodedAmmEvent, { type: T }>;
+}
+
+/**
+ * Dry-run `method` as `from` with `eth_call` and estimate its gas. Reverts are
+ * returned decoded instead of thrown so forms can show them before signing.
+ */
+async function simulate<T>(
+  ammAddress: string,
+  runner: ContractRunner,
+  from: string,
+  method: string,
+  args: unknown[],
+  toResult: (result: Result) => T,
+  context?: ErrorContext,
+): Promise<Simulation<T>> {
+  const fn = getAmmContract(ammAddress, runner).getFunction(method);
+  try {
+    const [result, gasEstimate] = await Promise.all([
+      fn.staticCallResult(...args, { from }),
+      fn.estimateGas(...args, { from }),
+    ]);
+    return { ok: true, result: toResult(result), gasEstimate };
+  } catch (error) {
+    return { ok: false, error: decodeError(error, context) };
+  }
+}
+
+/**
+ * Dry run of `createPool`: the poolId and LP tokens it would mint.
+ */
+export function simulateCreatePool(
+  tokenA: string,
+  tokenB: string,
+  amountA: bigint,
+  amountB: bigint,
+  from: string,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<Simulation<CreatePoolSimulation>> {
+  return simulate(ammAddress, runner, from, "createPool", [tokenA, tokenB, amountA, amountB], ([poolId, liquidity]) => ({
+    poolId,
+    liquidity,
+  }));
+}
+
+/**
+ * Dry run of `addLiquidity`: LP tokens minted and the amounts actually deposited.
+ */
+export function simulateAddLiquidity(
+  poolId: string,
+  amount0Desired: bigint,
+  amount1Desired: bigint,
+  from: string,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<Simulation<AddLiquiditySimulation>> {
+  return simulate(
+    ammAddress,
+    runner,
+    from,
+    "addLiquidity",
+    [poolId, amount0Desired, amount1Desired],
+    ([liquidity, amount0, amount1]) => ({ liquidity, amount0, amount1 }),
+  );
+}
+
+/**
+ * Dry run of `removeLiquidity`: the token amounts that would be withdrawn.
+ */
+export function simulateRemoveLiquidity(
+  poolId: string,
+  liquidity: bigint,
+  from: string,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<Simulation<RemoveLiquiditySimulation>> {
+  return simulate(ammAddress, runner, from, "removeLiquidity", [poolId, liquidity], ([amount0, amount1]) => ({
+    amount0,
+    amount1,
+  }));
+}
+
+/**
+ * Dry run of `swap`: the exact output at current reserves.
+ */
+export function simulateSwap(
+  poolId: string,
+  tokenIn: string,
+  amountIn: bigint,
+  minAmountOut: bigint,
+  recipient: string,
+  from: string,
+  ammAddress: string,
+  runner: ContractRunner,
+  context?: ErrorContext,
+): Promise<Simulation<SwapSimulation>> {
+  return simulate(
+    ammAddress,
+    runner,
+    from,
+    "swap",
+    [poolId, tokenIn, amountIn, minAmountOut, recipient],
+    ([amountOut]) => ({ amountOut }),
+    context,
+  );
+}
+
+/**
+ * Dry run of `transferOwnership`; fails unless `from` is the owner.
+ */
+export function simulateTransferOwnership(
+  newOwner: string,
+  from: string,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<Simulation<null>> {
+  return simulate(ammAddress, runner, from, "transferOwnership", [newOwner], () => null);
+}
+
+/**
+ * Dry run of `renounceOwnership`; fails unless `from` is the owner.
+ */
+export function simulateRenounceOwnership(
+  from: string,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<Simulation<null>> {
+  return simulate(ammAddress, runner, from, "renounceOwnership", [], () => null);
+}
+
+/**
+ * Create a pool at the default fee tier and seed it with initial liquidity.
  * - `signer` must be an ethers Signer (JsonRpcSigner) connected to a wallet.
- * - `factoryAbi` can be supplied if the factory uses different function signatures.
+ * - Both tokens must already be approved for the AMM.
+ *
+ * Every write below dry-runs the call with `staticCall` first, so a revert
+ * surfaces before the wallet asks the user to sign.
  */
 export async function createPool(
-  signer: JsonRpcSigner,
-  factoryAddress: string,
   tokenA: string,
   tokenB: string,
-  fee: number,
-  factoryAbi?: any,
-) {
-  const resolvedFactoryAbi = await resolveAbi(factoryAbi, "@/abis/Factory.json", DEFAULT_FACTORY_ABI);
-  const factory = new Contract(factoryAddress, resolvedFactoryAbi, signer);
-  const tx = await factory.createPool(tokenA, tokenB, fee);
-  return tx.wait?.();
+  amountA: bigint,
+  amountB: bigint,
+  ammAddress: string,
+  signer: JsonRpcSigner,
+): Promise<CreatePoolResult> {
+  const amm = getAmmContract(ammAddress, signer);
+  await amm.createPool.staticCall(tokenA, tokenB, amountA, amountB);
+  const [metadataA, metadataB] = await Promise.all([
+    getTokenMetadata(tokenA, signer),
+    getTokenMetadata(tokenB, signer),
+  ]);
+  const overrides = await getFeeOverrides(signer);
+  const receipt = await waitForTransaction(await amm.createPool(tokenA, tokenB, amountA, amountB, overrides), {
+    type: "createPool",
+    tokens: [trackToken(tokenA, amountA, metadataA), trackToken(tokenB, amountB, metadataB)],
+  });
+  const { event, token0, token1 } = requireEvent(await parseAmmReceipt(receipt, ammAddress, signer), "PoolCreated", receipt);
+  return {
+    receipt,
+    poolId: event.poolId,
+    feeBps: event.feeBps,
+    liquidity: event.initialLiquidity,
+    amount0: event.amount0,
+    amount1: event.amount1,
+    token0Amount: token0,
+    token1Amount: token1,
+  };
 }
 
 /**
- * Add liquidity via a router/manager contract. Returns transaction receipt.
- * - `routerAbi` defaults to a minimal shape; pass a real ABI for your router.
+ * Add liquidity to an existing pool. The contract may use less than the desired
+ * amounts to keep the pool ratio; the amounts actually deposited are returned.
  */
 export async function addLiquidity(
+  poolId: string,
+  amount0Desired: bigint,
+  amount1Desired: bigint,
+  ammAddress: string,
   signer: JsonRpcSigner,
-  routerAddress: string,
-  poolAddress: string,
-  tokenA: string,
-  tokenB: string,
-  amountA: string | number,
-  amountB: string | number,
-  routerAbi?: any,
-) {
-  const resolvedRouterAbi = await resolveAbi(routerAbi, "@/abis/Router.json", DEFAULT_ROUTER_ABI);
-  const router = new Contract(routerAddress, resolvedRouterAbi, signer);
-  const tx = await router.addLiquidity(poolAddress, tokenA, tokenB, amountA, amountB);
-  return tx.wait?.();
+): Promise<AddLiquidityResult> {
+  const amm = getAmmContract(ammAddress, signer);
+  await amm.addLiquidity.staticCall(poolId, amount0Desired, amount1Desired);
+  const overrides = await getFeeOverrides(signer);
+  const receipt = await waitForTransaction(await amm.addLiquidity(poolId, amount0Desired, amount1Desired, overrides), {
+    type: "addLiquidity",
+    poolId,
+  });
+  const { event, token0, token1 } = requireEvent(
+    await parseAmmReceipt(receipt, ammAddress, signer),
+    "LiquidityAdded",
+    receipt,
+  );
+  transactionStore.update(receipt.hash, { tokens: [toTrackedToken(token0), toTrackedToken(token1)] });
+  return {
+    receipt,
+    liquidity: event.liquidityMinted,
+    amount0: event.amount0,
+    amount1: event.amount1,
+    token0Amount: token0,
+    token1Amount: token1,
+  };
 }
 
 /**
- * Remove liquidity from a pool (by shares). Returns transaction receipt and amounts.
+ * Burn LP tokens and withdraw the underlying reserves.
  */
 export async function removeLiquidity(
+  poolId: string,
+  liquidity: bigint,
+  ammAddress: string,
   signer: JsonRpcSigner,
-  routerAddress: string,
-  poolAddress: string,
-  shares: string | number,
-  routerAbi?: any,
-) {
-  const resolvedRouterAbi = await resolveAbi(routerAbi, "@/abis/Router.json", DEFAULT_ROUTER_ABI);
-  const router = new Contract(routerAddress, resolvedRouterAbi, signer);
-  const tx = await router.removeLiquidity(poolAddress, shares);
-  return tx.wait?.();
+): Promise<RemoveLiquidityResult> {
+  const amm = getAmmContract(ammAddress, signer);
+  await amm.removeLiquidity.staticCall(poolId, liquidity);
+  const overrides = await getFeeOverrides(signer);
+  const receipt = await waitForTransaction(await amm.removeLiquidity(poolId, liquidity, overrides), {
+    type: "removeLiquidity",
+    poolId,
+  });
+  const { event, token0, token1 } = requireEvent(
+    await parseAmmReceipt(receipt, ammAddress, signer),
+    "LiquidityRemoved",
+    receipt,
+  );
+  transactionStore.update(receipt.hash, { tokens: [toTrackedToken(token0), toTrackedToken(token1)] });
+  return {
+    receipt,
+    liquidity: event.liquidityBurned,
+    amount0: event.amount0,
+    amount1: event.amount1,
+    token0Amount: token0,
+    token1Amount: token1,
+  };
 }
 
 /**
- * Execute a swap via the AMM contract. Returns transaction receipt and amountOut.
- * - Uses the actual AMM contract ABI with poolId-based swaps
- * - Automatically fetches poolId using getPoolId
+ * Execute a swap in a pool. Reverts on-chain if the output is below `minAmountOut`.
+ * The returned amounts are the ones emitted by the `Swap` event, not the quote.
  */
 export async function swap(
-  signer: JsonRpcSigner,
+  poolId: string,
+  tokenIn: string,
+  amountIn: bigint,
+  minAmountOut: bigint,
+  recipient: string,
   ammAddress: string,
+  signer: JsonRpcSigner,
+): Promise<SwapResult> {
+  const amm = getAmmContract(ammAddress, signer);
+  await amm.swap.staticCall(poolId, tokenIn, amountIn, minAmountOut, recipient);
+  const metadataIn = await getTokenMetadata(tokenIn, signer);
+  const overrides = await getFeeOverrides(signer);
+  const tx = await amm.swap(poolId, tokenIn, amountIn, minAmountOut, recipient, overrides);
+  const receipt = await waitForTransaction(tx, {
+    type: "swap",
+    poolId,
+    tokens: [trackToken(tokenIn, amountIn, metadataIn)],
+  });
+  const decoded = requireEvent(await parseAmmReceipt(receipt, ammAddress, signer), "Swap", receipt);
+  transactionStore.update(receipt.hash, {
+    tokens: [toTrackedToken(decoded.tokenIn), toTrackedToken(decoded.tokenOut)],
+  });
+  return {
+    receipt,
+    poolId,
+    amountIn: decoded.event.amountIn,
+    amountOut: decoded.event.amountOut,
+    tokenInAmount: decoded.tokenIn,
+    tokenOutAmount: decoded.tokenOut,
+  };
+}
+
+/**
+ * Buy exactly `amountOut` of the pool's other token. The required input is
+ * re-computed from fresh reserves right before signing and the call throws if
+ * it exceeds `maxAmountIn`; the swap itself enforces `amountOut` as its minimum.
+ */
+export async function swapExactOutput(
+  poolId: string,
   tokenIn: string,
-  tokenOut: string,
-  amountIn: string | number,
-  minAmountOut: string | number,
+  amountOut: bigint,
+  maxAmountIn: bigint,
   recipient: string,
-  feeBps: number = 30, // Default 0.3% fee (30 basis points)
-  ammAbi?: any,
-) {
-  const resolvedAmmAbi = await resolveAbi(ammAbi, "@/lib/abi/AMM.json", null);
-  if (!resolvedAmmAbi) {
-    throw new Error("AMM ABI not found. Please provide ammAbi or ensure @/lib/abi/AMM.json exists");
+  ammAddress: string,
+  signer: JsonRpcSigner,
+): Promise<SwapResult> {
+  const pool = await getPool(poolId, ammAddress, signer);
+  if (!pool) throw new Error(`Pool ${poolId} not found`);
+  const { amountIn } = quoteExactOutput(pool, tokenIn, amountOut);
+  if (amountIn > maxAmountIn) {
+    throw new Error(`Required input ${amountIn} exceeds maximum input ${maxAmountIn}`);
   }
-  const amm = new Contract(ammAddress, resolvedAmmAbi, signer);
-  
-  // Get poolId for the token pair
-  const poolId = await amm.getPoolId(tokenIn, tokenOut, feeBps);
-  
-  // Execute swap
-  const tx = await amm.swap(poolId, tokenIn, amountIn, minAmountOut, recipient);
-  const receipt = await tx.wait?.();
-  return { receipt, amountOut: receipt?.logs ? "0" : "0" }; // amountOut would be parsed from events
+  return swap(poolId, tokenIn, amountIn, amountOut, recipient, ammAddress, signer);
 }
 
 /**
- * Query a pool or position manager for a user's liquidity. This is intentionally
- * permissive: it will try a few common methods (`balanceOf`, `liquidityOf`, `positions`).
+ * Transfer AMM ownership. Only callable by the current owner.
  */
-export async function getUserLiquidity(
-  provider: Provider | any,
-  userAddress: string,
-  poolAddress: string,
-  poolAbi: any = [
-    "function balanceOf(address owner) view returns (uint256)",
-    "function liquidityOf(address owner) view returns (uint256)",
-  ],
-) {
-  const pool = new Contract(poolAddress, poolAbi, provider);
-  // try balanceOf
-  try {
-    const bal = await pool.balanceOf(userAddress);
-    return { type: "balanceOf", amount: bal.toString() } as const;
-  } catch (e) {
-    // ignore and try next
-  }
-  try {
-    const liq = await pool.liquidityOf(userAddress);
-    return { type: "liquidityOf", amount: liq.toString() } as const;
-  } catch (e) {
-    // ignore
+export async function transferOwnership(newOwner: string, ammAddress: string, signer: JsonRpcSigner) {
+  const amm = getAmmContract(ammAddress, signer);
+  await amm.transferOwnership.staticCall(newOwner);
+  const overrides = await getFeeOverrides(signer);
+  return waitForTransaction(await amm.transferOwnership(newOwner, overrides), { type: "ownership" });
+}
+
+/**
+ * Renounce AMM ownership. Only callable by the current owner.
+ */
+export async function renounceOwnership(ammAddress: string, signer: JsonRpcSigner) {
+  const amm = getAmmContract(ammAddress, signer);
+  await amm.renounceOwnership.staticCall();
+  const overrides = await getFeeOverrides(signer);
+  return waitForTransaction(await amm.renounceOwnership(overrides), { type: "ownership" });
+}
+
+// ---------------------------------------------------------------------------
+// ERC20 helpers
+// ---------------------------------------------------------------------------
+
+const tokenMetadataCache = new Map<string, Promise<TokenMetadata>>();
+
+/**
+ * Read and cache `symbol`, `name` and `decimals` for a token.
+ * Falls back to the shortened address and 18 decimals for non-standard tokens.
+ */
+export async function getTokenMetadata(tokenAddress: string, runner: ContractRunner): Promise<TokenMetadata> {
+  if (isNativeToken(tokenAddress)) {
+    return { address: NATIVE_TOKEN_ADDRESS, symbol: "ETH", name: "Ether", decimals: 18 };
   }
-  return { type: "unknown", amount: "0" } as const;
+
+  const network = await runner.provider?.getNetwork().catch(() => null);
+  const cacheKey = `${network?.chainId ?? "unknown"}:${tokenAddress.toLowerCase()}`;
+  const cached = tokenMetadataCache.get(cacheKey);
+  if (cached) return cached;
+
+  const token = getTokenContract(tokenAddress, runner);
+  const pending = Promise.all([
+    token.symbol().catch(() => shortenAddress(tokenAddress)),
+    token.name().catch(() => ""),
+    token.decimals().catch(() => 18),
+  ]).then(([symbol, name, decimals]) => ({
+    address: tokenAddress,
+    symbol: String(symbol),
+    name: String(name),
+    decimals: Number(decimals),
+  }));
+  tokenMetadataCache.set(cacheKey, pending);
+  return pending;
 }
 
 /**
@@ -260,29 +845,23 @@ export async function getUserLiquidity(
  * Supports both ERC20 tokens and native ETH.
  */
 export async function getTokenBalance(
-  provider: Provider | any,
+  provider: Provider,
   tokenAddress: string,
   userAddress: string,
   decimals: number = 18,
 ): Promise<string> {
-  // Native ETH balance
-  if (tokenAddress === "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" || !tokenAddress) {
+  if (isNativeToken(tokenAddress)) {
     const balance = await provider.getBalance(userAddress);
     return formatUnits(balance, decimals);
   }
 
-  // ERC20 token balance
-  const tokenAbi = [
-    "function balanceOf(address owner) view returns (uint256)",
-    "function decimals() view returns (uint8)",
-  ];
   try {
-    const token = new Contract(tokenAddress, tokenAbi, provider);
-    const balance = await token.balanceOf(userAddress);
+    const token = getTokenContract(tokenAddress, provider);
+    const balance: bigint = await token.balanceOf(userAddress);
     // Try to get actual decimals from contract
     let actualDecimals = decimals;
     try {
-      actualDecimals = await token.decimals();
+      actualDecimals = Number(await token.decimals());
     } catch {
       // Use provided decimals if contract doesn't have decimals()
     }
@@ -294,63 +873,86 @@ export async function getTokenBalance(
 }
 
 /**
- * Get token allowance for a spender (e.g., router/AMM contract).
+ * Get token allowance for a spender (e.g., the AMM contract) in base units.
  */
 export async function getTokenAllowance(
-  provider: Provider | any,
+  provider: Provider,
   tokenAddress: string,
   ownerAddress: string,
   spenderAddress: string,
-): Promise<string> {
+): Promise<bigint> {
   // Native ETH doesn't need allowance
-  if (tokenAddress === "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" || !tokenAddress) {
-    return "0"; // Native ETH doesn't require approval
+  if (isNativeToken(tokenAddress)) {
+    return BigInt(0);
   }
 
-  const tokenAbi = ["function allowance(address owner, address spender) view returns (uint256)"];
   try {
-    const token = new Contract(tokenAddress, tokenAbi, provider);
-    const allowance = await token.allowance(ownerAddress, spenderAddress);
-    return allowance.toString();
+    const token = getTokenContract(tokenAddress, provider);
+    return await token.allowance(ownerAddress, spenderAddress);
   } catch (error) {
     console.error("Error fetching token allowance:", error);
-    return "0";
+    return BigInt(0);
   }
 }
 
 /**
  * Approve token spending for a spender (e.g., AMM contract).
- * Returns transaction receipt.
+ * Returns transaction receipt, or null for native ETH.
  */
 export async function approveToken(
   signer: JsonRpcSigner,
   tokenAddress: string,
   spenderAddress: string,
-  amount: string | number = "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff", // Max uint256
-  tokenAbi?: any,
+  amount: bigint = MaxUint256,
 ) {
   // Native ETH doesn't need approval
-  if (tokenAddress === "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" || !tokenAddress) {
-    return null; // No approval needed for native ETH
+  if (isNativeToken(tokenAddress)) {
+    return null;
   }
 
-  const resolvedTokenAbi = await resolveAbi(tokenAbi, "@/lib/abi/MockToken.json", [
-    "function approve(address spender, uint256 amount) returns (bool)",
-  ]);
-  const token = new Contract(tokenAddress, resolvedTokenAbi, signer);
-  const tx = await token.approve(spenderAddress, amount);
-  return tx.wait?.();
+  const token = getTokenContract(tokenAddress, signer);
+  const metadata = await getTokenMetadata(tokenAddress, signer);
+  const overrides = await getFeeOverrides(signer);
+  return waitForTransaction(await token.approve(spenderAddress, amount, overrides), {
+    type: amount === BigInt(0) ? "revoke" : "approve",
+    tokens: [trackToken(tokenAddress, amount, metadata)],
+  });
 }
 
-export default {
-  getAllPools,
+const amm = {
+  getAmmContract,
+  getPoolId,
+  getDefaultFeeBps,
+  getOwner,
+  getPool,
+  getLpBalance,
+  getUserLiquidity,
   getQuote,
+  getExactOutputQuote,
+  getAllPools,
+  getSwapEvents,
+  getLiquidityAddedEvents,
+  getLiquidityRemovedEvents,
+  getOwnershipTransferredEvents,
+  parseAmmReceipt,
+  getTransactionEvents,
+  simulateCreatePool,
+  simulateAddLiquidity,
+  simulateRemoveLiquidity,
+  simulateSwap,
+  simulateTransferOwnership,
+  simulateRenounceOwnership,
   createPool,
   addLiquidity,
   removeLiquidity,
   swap,
-  getUserLiquidity,
+  swapExactOutput,
+  transferOwnership,
+  renounceOwnership,
+  getTokenMetadata,
   getTokenBalance,
   getTokenAllowance,
   approveToken,
 };
+
+export default amm;
@@ -0,0 +1,230 @@
+import {
+  Contract,
+  MaxUint256,
+  Signature,
+  TypedDataEncoder,
+  type ContractRunner,
+  type JsonRpcSigner,
+  type Provider,
+  type TypedDataDomain,
+} from "ethers";
+
+import ERC20_ABI from "@/lib/abi/MockToken.json";
+import { approveToken, getTokenAllowance, getTokenMetadata, isNativeToken } from "@/lib/amm";
+import { trackToken, waitForTransaction } from "@/lib/transactions";
+import { getFeeOverrides } from "@/lib/gas";
+
+/**
+ * Token approval strategies for the AMM.
+ *
+ * - `exact` approves only what the next transaction pulls.
+ * - `unlimited` approves max uint256 once.
+ * - `permit` signs an EIP-2612 permit for the exact amount. The AMM has no
+ *   permit entry point, so the signature is submitted from the user's wallet
+ *   with `token.permit` right before the AMM call: it is not gasless, it costs
+ *   about what `approve` does plus a signature prompt. Tokens without permit
+ *   support fall back to `exact`.
+ */
+
+export type ApprovalMode = "exact" | "unlimited" | "permit";
+
+export const APPROVAL_MODES: { value: ApprovalMode; label: string; description: string }[] = [
+  { value: "exact", label: "Exact amount", description: "Approve only what this transaction needs." },
+  { value: "unlimited", label: "Unlimited", description: "Approve once and skip approvals next time." },
+  {
+    value: "permit",
+    label: "Permit + transaction",
+    description:
+      "Sign an EIP-2612 permit, then send it in a transaction. The AMM cannot accept permits directly, so this is not gasless: it costs about the same gas as an approval.",
+  },
+];
+
+// How long a signed permit stays valid.
+const PERMIT_TTL_SECONDS = 20 * 60;
+
+const PERMIT_ABI = [
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+];
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const getPermitContract = (tokenAddress: string, runner: ContractRunner) =>
+  new Contract(tokenAddress, PERMIT_ABI, runner);
+
+const permitDomainCache = new Map<string, Promise<TypedDataDomain | null>>();
+
+/**
+ * Resolve the token's EIP-712 domain and check it against `DOMAIN_SEPARATOR`.
+ * Uses EIP-5267 `eip712Domain()` when available, otherwise `name()` with the
+ * common versions. Null when the token has no usable permit.
+ */
+async function resolvePermitDomain(tokenAddress: string, runner: ContractRunner): Promise<TypedDataDomain | null> {
+  const token = getPermitContract(tokenAddress, runner);
+  const [separator] = await Promise.all([token.DOMAIN_SEPARATOR(), token.nonces(tokenAddress)]);
+
+  const declared = await token.eip712Domain().catch(() => null);
+  if (declared) {
+    const domain = {
+      name: declared.name,
+      version: declared.version,
+      chainId: declared.chainId,
+      verifyingContract: declared.verifyingContract,
+    };
+    return TypedDataEncoder.hashDomain(domain) === separator ? domain : null;
+  }
+
+  const network = await runner.provider?.getNetwork();
+  const name: string = await token.name();
+  const versions = [await token.version().catch(() => null), "1", "2"].filter((v): v is string => !!v);
+  for (const version of versions) {
+    const domain = { name, version, chainId: network?.chainId, verifyingContract: tokenAddress };
+    if (TypedDataEncoder.hashDomain(domain) === separator) return domain;
+  }
+  return null;
+}
+
+async function getPermitDomain(tokenAddress: string, runner: ContractRunner): Promise<TypedDataDomain | null> {
+  if (isNativeToken(tokenAddress)) return null;
+  const network = await runner.provider?.getNetwork().catch(() => null);
+  const cacheKey = `${network?.chainId ?? "unknown"}:${tokenAddress.toLowerCase()}`;
+  let pending = permitDomainCache.get(cacheKey);
+  if (!pending) {
+    pending = resolvePermitDomain(tokenAddress, runner).catch(() => null);
+    permitDomainCache.set(cacheKey, pending);
+  }
+  return pending;
+}
+
+/**
+ * Whether a token supports EIP-2612 permits (detected via `nonces` and
+ * `DOMAIN_SEPARATOR`). Cached per chain and token.
+ */
+export async function supportsPermit(tokenAddress: string, runner: ContractRunner): Promise<boolean> {
+  return (await getPermitDomain(tokenAddress, runner)) !== null;
+}
+
+/**
+ * The mode that will actually be used for `tokenAddress`: `permit` becomes
+ * `exact` for tokens without EIP-2612 support.
+ */
+export async function resolveApprovalMode(
+  mode: ApprovalMode,
+  tokenAddress: string,
+  runner: ContractRunner,
+): Promise<ApprovalMode> {
+  if (mode !== "permit") return mode;
+  return (await supportsPermit(tokenAddress, runner)) ? "permit" : "exact";
+}
+
+/**
+ * Sign an EIP-2612 permit for `value` and submit it with `token.permit`.
+ */
+export async function permitToken(signer: JsonRpcSigner, tokenAddress: string, spender: string, value: bigint) {
+  const domain = await getPermitDomain(tokenAddress, signer);
+  if (!domain) throw new Error(`Token ${tokenAddress} does not support EIP-2612 permits`);
+
+  const owner = await signer.getAddress();
+  const token = getPermitContract(tokenAddress, signer);
+  const nonce: bigint = await token.nonces(owner);
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS);
+  const signature = Signature.from(
+    await signer.signTypedData(domain, PERMIT_TYPES, { owner, spender, value, nonce, deadline }),
+  );
+  const metadata = await getTokenMetadata(tokenAddress, signer);
+  const overrides = await getFeeOverrides(signer);
+  const tx = await token.permit(owner, spender, value, deadline, signature.v, signature.r, signature.s, overrides);
+  return waitForTransaction(tx, {
+    type: "permit",
+    tokens: [trackToken(tokenAddress, value, metadata)],
+  });
+}
+
+/**
+ * Grant `spender` an allowance of at least `amount` using `mode`.
+ */
+export async function approveWithMode(
+  mode: ApprovalMode,
+  signer: JsonRpcSigner,
+  tokenAddress: string,
+  spender: string,
+  amount: bigint,
+) {
+  if ((await resolveApprovalMode(mode, tokenAddress, signer)) === "permit") {
+    return permitToken(signer, tokenAddress, spender, amount);
+  }
+  return approveToken(signer, tokenAddress, spender, mode === "unlimited" ? MaxUint256 : amount);
+}
+
+/**
+ * Gas for the approval `ensureApproval` would send, or null when the current
+ * allowance already covers `amount`. Permits are estimated as an `approve`,
+ * which costs about the same.
+ */
+export async function estimateApprovalGas(
+  mode: ApprovalMode,
+  tokenAddress: string,
+  spender: string,
+  amount: bigint,
+  owner: string,
+  provider: Provider,
+): Promise<bigint | null> {
+  if (isNativeToken(tokenAddress) || amount <= BigInt(0)) return null;
+  const allowance = await getTokenAllowance(provider, tokenAddress, owner, spender);
+  if (allowance >= amount) return null;
+  const token = new Contract(tokenAddress, ERC20_ABI, provider);
+  return token.approve.estimateGas(spender, mode === "unlimited" ? MaxUint256 : amount, { from: owner });
+}
+
+/**
+ * Approve only when the current allowance does not already cover `amount`.
+ * Returns true when an approval was sent.
+ */
+export async function ensureApproval(
+  mode: ApprovalMode,
+  signer: JsonRpcSigner,
+  tokenAddress: string,
+  spender: string,
+  amount: bigint,
+): Promise<boolean> {
+  if (isNativeToken(tokenAddress) || amount <= BigInt(0)) return false;
+  const owner = await signer.getAddress();
+  const allowance = await getTokenAllowance(signer.provider, tokenAddress, owner, spender);
+  if (allowance >= amount) return false;
+  await approveWithMode(mode, signer, tokenAddress, spender, amount);
+  return true;
+}
+
+/**
+ * Reset `spender`'s allowance to zero.
+ */
+export async function revokeApproval(signer: JsonRpcSigner, tokenAddress: string, spender: string) {
+  return approveToken(signer, tokenAddress, spender, BigInt(0));
+}
+
+/**
+ * Revoke several allowances one transaction at a time. Stops at the first
+ * failure; `onRevoked` fires after each confirmed revoke.
+ */
+export async function revokeApprovals(
+  signer: JsonRpcSigner,
+  approvals: readonly { token: string; spender: string }[],
+  onRevoked?: (approval: { token: string; spender: string }, index: number) => void,
+) {
+  for (const [index, approval] of approvals.entries()) {
+    await revokeApproval(signer, approval.token, approval.spender);
+    onRevoked?.(approval, index);
+  }
+}
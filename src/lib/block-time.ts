@@ -0,0 +1,56 @@
+import type { Provider } from "ethers";
+
+import { BLOCK_TIME_SECONDS } from "@/config/constants";
+
+/**
+ * Wall-clock times for indexed events. Events only carry block numbers, so
+ * times are either extrapolated from one block whose timestamp is known at
+ * the chain's fixed block time, or read block by block where exactness matters.
+ */
+
+// Blocks read in parallel by getBlockTimestamps, so long histories do not flood the RPC
+const BLOCK_READ_CONCURRENCY = 6;
+
+/** A block with a known timestamp, in unix seconds. */
+export type BlockAnchor = {
+  blockNumber: number;
+  timestamp: number;
+};
+
+/**
+ * Estimated unix timestamp (seconds) of `blockNumber`.
+ */
+export function estimateBlockTimestamp(blockNumber: number, anchor: BlockAnchor): number {
+  return anchor.timestamp - (anchor.blockNumber - blockNumber) * BLOCK_TIME_SECONDS;
+}
+
+/**
+ * Exact timestamps (unix seconds) of `blockNumbers`, keyed by block, read at
+ * most BLOCK_READ_CONCURRENCY at a time. Blocks that fail to load are left out.
+ */
+export async function getBlockTimestamps(blockNumbers: readonly number[], provider: Provider) {
+  const unique = [...new Set(blockNumbers)];
+  const timestamps = new Map<number, number>();
+  let next = 0;
+  const worker = async () => {
+    while (next < unique.length) {
+      const blockNumber = unique[next++];
+      const block = await provider.getBlock(blockNumber).catch(() => null);
+      if (block) timestamps.set(blockNumber, block.timestamp);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BLOCK_READ_CONCURRENCY, unique.length) }, worker));
+  return timestamps;
+}
+
+/**
+ * Short date and time for a unix timestamp, e.g. "Oct 19, 14:05".
+ */
+export function formatBlockTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,323 @@
+import { Interface, formatUnits, isError, type ErrorDescription } from "ethers";
+
+import AMM_ABI from "@/lib/abi/AMM.json";
+import ERC20_ABI from "@/lib/abi/MockToken.json";
+import { shortenAddress } from "@/lib/utils";
+
+/**
+ * Maps wallet, RPC and contract failures to structured, user-facing errors.
+ * Pages render the result with `ErrorAlert` instead of raw ethers messages.
+ */
+
+export type ErrorCode =
+  | "USER_REJECTED"
+  | "INSUFFICIENT_ALLOWANCE"
+  | "INSUFFICIENT_BALANCE"
+  | "INSUFFICIENT_FUNDS"
+  | "INVALID_RECEIVER"
+  | "UNAUTHORIZED"
+  | "REENTRANT_CALL"
+  | "CONTRACT_REVERT"
+  | "NONCE_ERROR"
+  | "REPLACEMENT_UNDERPRICED"
+  | "TRANSACTION_REPLACED"
+  | "NETWORK_ERROR"
+  | "WRONG_NETWORK"
+  | "POOL_NOT_FOUND"
+  | "SLIPPAGE_EXCEEDED"
+  | "QUOTE_EXPIRED"
+  | "ROUTE_INCOMPLETE"
+  | "INVALID_INPUT"
+  | "WALLET_NOT_CONNECTED"
+  | "UNKNOWN";
+
+export type DecodedError = {
+  code: ErrorCode;
+  title: string;
+  message: string;
+  /** Suggested next step for the user, if there is one. */
+  action?: string;
+  /** Custom error name and arguments when the revert data could be decoded. */
+  revert?: { name: string; args: Record<string, string> };
+  /** Original error message, for logs and support requests. */
+  details?: string;
+};
+
+/** Optional context used to format amounts inside token errors. */
+export type ErrorContext = {
+  symbol?: string;
+  decimals?: number;
+};
+
+const ERROR_COPY: Record<ErrorCode, Omit<DecodedError, "code">> = {
+  USER_REJECTED: {
+    title: "Request rejected",
+    message: "The request was rejected in your wallet.",
+    action: "Submit again and confirm in your wallet when you are ready.",
+  },
+  INSUFFICIENT_ALLOWANCE: {
+    title: "Approval required",
+    message: "The AMM is not approved to spend enough of this token.",
+    action: "Approve the token, then retry the transaction.",
+  },
+  INSUFFICIENT_BALANCE: {
+    title: "Insufficient balance",
+    message: "Your wallet does not hold enough of this token.",
+    action: "Lower the amount or top up your balance.",
+  },
+  INSUFFICIENT_FUNDS: {
+    title: "Not enough ETH for gas",
+    message: "Your wallet cannot cover the network fee for this transaction.",
+    action: "Add ETH on this network to pay for gas.",
+  },
+  INVALID_RECEIVER: {
+    title: "Invalid recipient",
+    message: "The token contract refused to send to the recipient address.",
+    action: "Check the recipient address and try again.",
+  },
+  UNAUTHORIZED: {
+    title: "Not authorised",
+    message: "Only the contract owner can perform this action.",
+    action: "Switch to the owner account.",
+  },
+  REENTRANT_CALL: {
+    title: "Transaction blocked",
+    message: "The AMM rejected a re-entrant call.",
+    action: "Wait for your pending transaction to confirm, then retry.",
+  },
+  CONTRACT_REVERT: {
+    title: "Transaction would fail",
+    message: "The contract reverted the transaction.",
+    action: "Refresh the quote and check your amounts before retrying.",
+  },
+  NONCE_ERROR: {
+    title: "Nonce conflict",
+    message: "Your wallet's transaction nonce is out of sync with the network.",
+    action: "Wait for pending transactions to confirm or reset the account nonce in your wallet.",
+  },
+  REPLACEMENT_UNDERPRICED: {
+    title: "Replacement fee too low",
+    message: "A pending transaction with the same nonce pays a higher fee.",
+    action: "Increase the gas fee or wait for the pending transaction.",
+  },
+  TRANSACTION_REPLACED: {
+    title: "Transaction replaced",
+    message: "The transaction was cancelled or replaced by another one with the same nonce.",
+    action: "Check your recent transactions, then submit again if needed.",
+  },
+  NETWORK_ERROR: {
+    title: "Network unavailable",
+    message: "The RPC endpoint did not respond correctly.",
+    action: "Check your connection or switch RPC, then retry.",
+  },
+  WRONG_NETWORK: {
+    title: "Unsupported network",
+    message: "Your wallet is connected to a network QuantumDEX does not support.",
+    action: "Switch to Base or Base Sepolia.",
+  },
+  POOL_NOT_FOUND: {
+    title: "No pool",
+    message: "There is no pool with liquidity for this pair.",
+    action: "Pick another pair or create the pool.",
+  },
+  SLIPPAGE_EXCEEDED: {
+    title: "Price moved",
+    message: "The pool moved beyond your slippage tolerance since the quote.",
+    action: "Review the new quote or raise your slippage tolerance.",
+  },
+  QUOTE_EXPIRED: {
+    title: "Quote expired",
+    message: "The quote is too old to sign safely; pool prices may have moved.",
+    action: "Refresh the quote and review it before swapping.",
+  },
+  ROUTE_INCOMPLETE: {
+    title: "Swap partly completed",
+    message: "A later leg of the route failed after earlier legs had executed.",
+    action: "Swap the intermediate token you now hold, or keep it.",
+  },
+  INVALID_INPUT: {
+    title: "Check your input",
+    message: "Some fields are missing or invalid.",
+  },
+  WALLET_NOT_CONNECTED: {
+    title: "Wallet not connected",
+    message: "Please connect your wallet.",
+    action: "Connect a wallet to continue.",
+  },
+  UNKNOWN: {
+    title: "Something went wrong",
+    message: "The transaction could not be completed.",
+    action: "Try again. If it keeps failing, share the details with support.",
+  },
+};
+
+// Custom errors from both ABIs, de-duplicated by name (Ownable errors appear in both).
+const errorFragments = [...AMM_ABI, ...ERC20_ABI].filter(
+  (fragment, index, all) =>
+    fragment.type === "error" && all.findIndex((other) => other.type === "error" && other.name === fragment.name) === index,
+);
+
+export const contractErrorInterface = new Interface(errorFragments);
+
+/**
+ * Build a structured error for a known code, optionally overriding the copy.
+ */
+export function appError(code: ErrorCode, overrides: Partial<Omit<DecodedError, "code">> = {}): DecodedError {
+  return { code, ...ERROR_COPY[code], ...overrides };
+}
+
+/**
+ * Shorthand for validation failures raised by the forms themselves.
+ */
+export function inputError(message: string): DecodedError {
+  return appError("INVALID_INPUT", { message });
+}
+
+type ErrorLike = {
+  code?: unknown;
+  message?: unknown;
+  shortMessage?: unknown;
+  reason?: unknown;
+  data?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+  cause?: unknown;
+};
+
+/**
+ * Walk nested provider errors (ethers wraps the wallet error, which wraps the RPC error).
+ */
+function errorChain(error: unknown): ErrorLike[] {
+  const chain: ErrorLike[] = [];
+  const seen = new Set<unknown>();
+  let current: unknown = error;
+  while (current && typeof current === "object" && !seen.has(current) && chain.length < 8) {
+    seen.add(current);
+    const item = current as ErrorLike;
+    chain.push(item);
+    current = item.error ?? item.info?.error ?? item.cause;
+  }
+  return chain;
+}
+
+/**
+ * Find ABI-encoded revert data anywhere in the error chain.
+ */
+function findRevertData(chain: ErrorLike[]): string | null {
+  for (const item of chain) {
+    const candidates = [item.data, (item.data as { data?: unknown } | undefined)?.data];
+    for (const candidate of candidates) {
+      if (typeof candidate === "string" && /^0x[0-9a-fA-F]{8}/.test(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+const formatAmount = (value: unknown, context: ErrorContext) => {
+  const amount = typeof value === "bigint" ? value : BigInt(String(value));
+  const formatted = context.decimals !== undefined ? formatUnits(amount, context.decimals) : amount.toString();
+  return context.symbol ? `${formatted} ${context.symbol}` : formatted;
+};
+
+function fromCustomError(parsed: ErrorDescription, context: ErrorContext): DecodedError {
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    args[input.name] = String(parsed.args[index]);
+  });
+  const revert = { name: parsed.name, args };
+
+  switch (parsed.name) {
+    case "ERC20InsufficientAllowance":
+      return appError("INSUFFICIENT_ALLOWANCE", {
+        message: `Approved ${formatAmount(parsed.args.allowance, context)} but ${formatAmount(parsed.args.needed, context)} is needed.`,
+        revert,
+      });
+    case "ERC20InsufficientBalance":
+      return appError("INSUFFICIENT_BALANCE", {
+        message: `Balance is ${formatAmount(parsed.args.balance, context)} but ${formatAmount(parsed.args.needed, context)} is needed.`,
+        revert,
+      });
+    case "ERC20InvalidReceiver":
+      return appError("INVALID_RECEIVER", {
+        message: `Tokens cannot be sent to ${shortenAddress(String(parsed.args.receiver))}.`,
+        revert,
+      });
+    case "OwnableUnauthorizedAccount":
+      return appError("UNAUTHORIZED", {
+        message: `${shortenAddress(String(parsed.args.account))} is not the contract owner.`,
+        revert,
+      });
+    case "ReentrancyGuardReentrantCall":
+      return appError("REENTRANT_CALL", { revert });
+    default:
+      return appError("CONTRACT_REVERT", { message: `The contract reverted with ${parsed.name}.`, revert });
+  }
+}
+
+const messageOf = (item: ErrorLike) =>
+  [item.shortMessage, item.reason, item.message].find((value): value is string => typeof value === "string") ?? "";
+
+/**
+ * Decode any error thrown by ethers, the wallet or the RPC into a `DecodedError`.
+ */
+export function decodeError(error: unknown, context: ErrorContext = {}): DecodedError {
+  const chain = errorChain(error);
+  const details = chain.length > 0 ? messageOf(chain[0]) : String(error ?? "");
+  const text = chain.map(messageOf).join(" ").toLowerCase();
+  const codes = chain.map((item) => item.code);
+
+  if (isError(error, "ACTION_REJECTED") || codes.includes(4001) || /user (rejected|denied)/.test(text)) {
+    return appError("USER_REJECTED", { details });
+  }
+
+  const revertData = findRevertData(chain);
+  if (revertData) {
+    try {
+      const parsed = contractErrorInterface.parseError(revertData);
+      if (parsed) return { ...fromCustomError(parsed, context), details };
+    } catch {
+      // Not one of our custom errors; fall through to the generic checks
+    }
+  }
+
+  if (/exceeds maximum input/.test(text)) {
+    return appError("SLIPPAGE_EXCEEDED", { details });
+  }
+  if (/quote expired/.test(text)) {
+    return appError("QUOTE_EXPIRED", { details });
+  }
+
+  if (isError(error, "CALL_EXCEPTION")) {
+    const reason = error.reason ?? error.revert?.args?.[0];
+    return appError("CONTRACT_REVERT", {
+      message: reason ? `The contract reverted: ${reason}.` : ERROR_COPY.CONTRACT_REVERT.message,
+      details,
+    });
+  }
+  if (isError(error, "INSUFFICIENT_FUNDS") || text.includes("insufficient funds")) {
+    return appError("INSUFFICIENT_FUNDS", { details });
+  }
+  if (isError(error, "REPLACEMENT_UNDERPRICED") || text.includes("replacement transaction underpriced")) {
+    return appError("REPLACEMENT_UNDERPRICED", { details });
+  }
+  if (isError(error, "TRANSACTION_REPLACED")) {
+    return appError("TRANSACTION_REPLACED", { details });
+  }
+  if (isError(error, "NONCE_EXPIRED") || /nonce (too low|too high|has already been used)|invalid nonce/.test(text)) {
+    return appError("NONCE_ERROR", { details });
+  }
+  if (
+    isError(error, "NETWORK_ERROR") ||
+    isError(error, "SERVER_ERROR") ||
+    isError(error, "TIMEOUT") ||
+    codes.includes(-32603) ||
+    /failed to fetch|rate limit|timeout|network error|internal json-rpc error/.test(text)
+  ) {
+    return appError("NETWORK_ERROR", { details });
+  }
+  if (/execution reverted/.test(text)) {
+    return appError("CONTRACT_REVERT", { details });
+  }
+
+  return appError("UNKNOWN", { details: details || undefined });
+}
@@ -0,0 +1,10 @@
+import { networks } from "@/config/wagmi";
+
+/**
+ * Block explorer link for a transaction, or null when its chain has no
+ * configured explorer.
+ */
+export const explorerTxUrl = (tx: { chainId: number; hash: string }) => {
+  const explorer = networks.find((network) => network.id === tx.chainId)?.blockExplorers?.default?.url;
+  return explorer ? `${explorer}/tx/${tx.hash}` : null;
+};
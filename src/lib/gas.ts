@@ -0,0 +1,204 @@
+import { Contract, formatEther, toQuantity, type ContractRunner, type JsonRpcApiProvider } from "ethers";
+
+import { ETH_USD_FEEDS } from "@/config/constants";
+
+/**
+ * EIP-1559 fee estimation and transaction cost display.
+ *
+ * Fees come from `eth_feeHistory`: the next block's base fee plus a priority
+ * fee taken from recent blocks at the percentile of the selected speed. The
+ * speed is a persisted app-wide preference that every write helper applies
+ * through `getFeeOverrides`.
+ */
+
+export type GasSpeed = "low" | "market" | "aggressive";
+
+export const GAS_SPEEDS: { value: GasSpeed; label: string; description: string }[] = [
+  { value: "low", label: "Low", description: "Cheapest tip; may wait a few blocks when the network is busy." },
+  { value: "market", label: "Market", description: "The median tip paid in recent blocks." },
+  { value: "aggressive", label: "Aggressive", description: "A top-decile tip for the next block." },
+];
+
+export type FeeEstimate = {
+  /** Base fee expected for the next block, in wei. */
+  baseFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** Leaves room for the base fee to double before the transaction stops being includable. */
+  maxFeePerGas: bigint;
+};
+
+export type FeeOptions = Record<GasSpeed, FeeEstimate>;
+
+/** One transaction in a flow; `gas` is null when it cannot be estimated yet. */
+export type GasRow = { label: string; gas: bigint | null; note?: string };
+
+export type TransactionCost = {
+  /** Expected cost at the next block's base fee, in wei. */
+  expected: bigint;
+  /** Worst case if the base fee rises to `maxFeePerGas`, in wei. */
+  max: bigint;
+};
+
+const STORAGE_KEY = "quantumdex-gas-speed";
+// Blocks sampled for priority fees.
+const FEE_HISTORY_BLOCKS = 10;
+const SPEED_PERCENTILES: Record<GasSpeed, number> = { low: 10, market: 50, aggressive: 90 };
+// Used when the RPC does not support eth_feeHistory.
+const FALLBACK_PRIORITY_MULTIPLIERS: Record<GasSpeed, [bigint, bigint]> = {
+  low: [BigInt(1), BigInt(2)],
+  market: [BigInt(1), BigInt(1)],
+  aggressive: [BigInt(2), BigInt(1)],
+};
+
+const AGGREGATOR_V3_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+const withMaxFee = (baseFeePerGas: bigint, maxPriorityFeePerGas: bigint): FeeEstimate => ({
+  baseFeePerGas,
+  maxPriorityFeePerGas,
+  maxFeePerGas: baseFeePerGas * BigInt(2) + maxPriorityFeePerGas,
+});
+
+const average = (values: bigint[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, BigInt(0)) / BigInt(values.length) : BigInt(0);
+
+// ---------------------------------------------------------------------------
+// Fee estimation
+// ---------------------------------------------------------------------------
+
+type FeeHistory = { baseFeePerGas: string[]; reward?: string[][] };
+
+/**
+ * Fee fields for each speed on the provider's chain, or null on chains
+ * without EIP-1559 (wallets then price the transaction themselves).
+ */
+export async function getFeeOptions(provider: JsonRpcApiProvider): Promise<FeeOptions | null> {
+  const speeds = Object.keys(SPEED_PERCENTILES) as GasSpeed[];
+  try {
+    const history: FeeHistory = await provider.send("eth_feeHistory", [
+      toQuantity(FEE_HISTORY_BLOCKS),
+      "latest",
+      speeds.map((speed) => SPEED_PERCENTILES[speed]),
+    ]);
+    const nextBaseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+    // Empty blocks report a zero tip; leave them out so quiet periods do not suggest zero
+    const tips = speeds.map((_, index) =>
+      average((history.reward ?? []).map((rewards) => BigInt(rewards[index])).filter((tip) => tip > BigInt(0))),
+    );
+    return Object.fromEntries(speeds.map((speed, index) => [speed, withMaxFee(nextBaseFee, tips[index])])) as FeeOptions;
+  } catch {
+    const [feeData, block] = await Promise.all([provider.getFeeData(), provider.getBlock("latest")]);
+    const baseFee = block?.baseFeePerGas;
+    const marketTip = feeData.maxPriorityFeePerGas;
+    if (!baseFee || marketTip === null) return null;
+    return Object.fromEntries(
+      speeds.map((speed) => {
+        const [multiply, divide] = FALLBACK_PRIORITY_MULTIPLIERS[speed];
+        return [speed, withMaxFee(baseFee, (marketTip * multiply) / divide)];
+      }),
+    ) as FeeOptions;
+  }
+}
+
+/**
+ * Fee overrides for a write at the selected speed. Empty when fees cannot be
+ * read, so the wallet falls back to its own estimate.
+ */
+export async function getFeeOverrides(
+  runner: ContractRunner | null | undefined,
+): Promise<{ maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint }> {
+  const provider = runner?.provider as JsonRpcApiProvider | null | undefined;
+  if (!provider || typeof provider.send !== "function") return {};
+  try {
+    const options = await getFeeOptions(provider);
+    if (!options) return {};
+    const { maxFeePerGas, maxPriorityFeePerGas } = options[gasSpeedStore.getState()];
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  } catch (error) {
+    console.error("Error estimating fees:", error);
+    return {};
+  }
+}
+
+/**
+ * Cost of `gasLimit` units at `fee`.
+ */
+export function estimateCost(gasLimit: bigint, fee: FeeEstimate): TransactionCost {
+  return {
+    expected: gasLimit * (fee.baseFeePerGas + fee.maxPriorityFeePerGas),
+    max: gasLimit * fee.maxFeePerGas,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ETH/USD
+// ---------------------------------------------------------------------------
+
+/**
+ * ETH/USD from the chain's Chainlink feed, or null when there is none.
+ */
+export async function getEthUsdPrice(chainId: number | undefined, runner: ContractRunner): Promise<number | null> {
+  const feedAddress = chainId ? ETH_USD_FEEDS[chainId] : undefined;
+  if (!feedAddress) return null;
+  try {
+    const feed = new Contract(feedAddress, AGGREGATOR_V3_ABI, runner);
+    const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+    return Number(round.answer) / 10 ** Number(decimals);
+  } catch (error) {
+    console.error("Error reading ETH/USD price:", error);
+    return null;
+  }
+}
+
+/**
+ * Format a wei amount as ETH and, when a price is known, USD.
+ */
+export function formatCost(wei: bigint, ethUsd: number | null) {
+  const eth = Number(formatEther(wei));
+  const usd = ethUsd === null ? null : eth * ethUsd;
+  return {
+    eth: `${eth.toLocaleString(undefined, { maximumSignificantDigits: 4 })} ETH`,
+    // L2 fees are often fractions of a cent, so show more precision there
+    usd:
+      usd === null
+        ? null
+        : `$${usd.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: usd < 0.01 ? 4 : 2 })}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Speed preference
+// ---------------------------------------------------------------------------
+
+function createGasSpeedStore() {
+  const listeners = new Set<() => void>();
+  let speed: GasSpeed | null = null;
+
+  const getState = (): GasSpeed => {
+    if (speed === null) {
+      const stored = typeof localStorage === "undefined" ? null : localStorage.getItem(STORAGE_KEY);
+      speed = stored && stored in SPEED_PERCENTILES ? (stored as GasSpeed) : "market";
+    }
+    return speed;
+  };
+
+  return {
+    getState,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    set: (next: GasSpeed) => {
+      speed = next;
+      if (typeof localStorage !== "undefined") localStorage.setItem(STORAGE_KEY, next);
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+/** The priority speed applied to every write. */
+export const gasSpeedStore = createGasSpeedStore();
@@ -0,0 +1,289 @@
+import { ZeroAddress, type Provider } from "ethers";
+
+import {
+  getAmmDeploymentBlock,
+  type LiquidityAddedEvent,
+  type LiquidityRemovedEvent,
+  type PoolCreatedEvent,
+  type SwapEvent,
+} from "@/lib/amm";
+import { decodeAmmLogs } from "@/lib/amm-events";
+import { decodeError, type DecodedError } from "@/lib/errors";
+import { getLogsWithRetry, isRangeError } from "@/lib/logs";
+
+/**
+ * Incremental indexer for AMM events.
+ *
+ * Logs are fetched in bounded block chunks (many Base RPCs reject wide
+ * `eth_getLogs` ranges), decoded, and persisted per chain + contract in
+ * IndexedDB so later visits only fetch the blocks mined since the last sync.
+ * Nothing is fetched while the contract address is the zero placeholder.
+ */
+
+// Blocks per eth_getLogs request; halved automatically when the RPC rejects a range.
+const DEFAULT_CHUNK_SIZE = 5_000;
+const MIN_CHUNK_SIZE = 100;
+// Blocks re-scanned on every sync so shallow reorgs are picked up.
+const REORG_BUFFER = 12;
+
+const DB_NAME = "quantumdex-indexer";
+const DB_VERSION = 1;
+const STORE_NAME = "snapshots";
+
+export type AmmIndexSnapshot = {
+  chainId: number;
+  ammAddress: string;
+  startBlock: number;
+  /** Last block included in the snapshot, or `startBlock - 1` before the first sync. */
+  lastIndexedBlock: number;
+  pools: PoolCreatedEvent[];
+  swaps: SwapEvent[];
+  liquidityAdded: LiquidityAddedEvent[];
+  liquidityRemoved: LiquidityRemovedEvent[];
+  updatedAt: number;
+};
+
+export type AmmIndexState = {
+  snapshot: AmmIndexSnapshot;
+  /** True once the persisted snapshot (if any) has been loaded. */
+  loaded: boolean;
+  syncing: boolean;
+  /** Latest chain head seen by the indexer. */
+  headBlock: number | null;
+  error: DecodedError | null;
+};
+
+export type AmmIndexer = {
+  getState: () => AmmIndexState;
+  subscribe: (listener: () => void) => () => void;
+  /** Fetch and persist every block between the last indexed block and the chain head. */
+  sync: () => Promise<AmmIndexState>;
+  /** Drop the persisted snapshot and re-index from the start block. */
+  reset: () => Promise<void>;
+  setProvider: (provider: Provider) => void;
+};
+
+type IndexerOptions = {
+  chainId: number;
+  ammAddress: string;
+  provider: Provider;
+  startBlock?: number;
+  chunkSize?: number;
+};
+
+const snapshotKey = (chainId: number, ammAddress: string) => `${chainId}:${ammAddress.toLowerCase()}`;
+
+const emptySnapshot = (chainId: number, ammAddress: string, startBlock: number): AmmIndexSnapshot => ({
+  chainId,
+  ammAddress,
+  startBlock,
+  lastIndexedBlock: startBlock - 1,
+  pools: [],
+  swaps: [],
+  liquidityAdded: [],
+  liquidityRemoved: [],
+  updatedAt: 0,
+});
+
+// ---------------------------------------------------------------------------
+// IndexedDB persistence
+// ---------------------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Indexer database unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const readSnapshot = (key: string) =>
+  withStore<AmmIndexSnapshot | undefined>("readonly", (store) => store.get(key)).catch((error) => {
+    console.error("Error reading indexer snapshot:", error);
+    return null;
+  });
+
+const writeSnapshot = (key: string, snapshot: AmmIndexSnapshot) =>
+  withStore("readwrite", (store) => store.put(snapshot, key)).catch((error) => {
+    console.error("Error persisting indexer snapshot:", error);
+    return null;
+  });
+
+const deleteSnapshot = (key: string) =>
+  withStore("readwrite", (store) => store.delete(key)).catch(() => null);
+
+// ---------------------------------------------------------------------------
+// Indexer
+// ---------------------------------------------------------------------------
+
+// Keep array identity when nothing changes so subscribers can skip re-renders.
+const dropFrom = <T extends { blockNumber: number }>(events: T[], block: number) =>
+  events.some((event) => event.blockNumber >= block) ? events.filter((event) => event.blockNumber < block) : events;
+
+const append = <T>(events: T[], found: T[]) => (found.length > 0 ? [...events, ...found] : events);
+
+/**
+ * Create an indexer for one AMM deployment. Prefer `getAmmIndexer`, which
+ * shares a single instance per chain and contract across the app.
+ */
+export function createAmmIndexer({
+  chainId,
+  ammAddress,
+  provider,
+  startBlock = getAmmDeploymentBlock(chainId),
+  chunkSize = DEFAULT_CHUNK_SIZE,
+}: IndexerOptions): AmmIndexer {
+  const key = snapshotKey(chainId, ammAddress);
+  const listeners = new Set<() => void>();
+  let currentProvider = provider;
+  let currentChunkSize = chunkSize;
+  let running: Promise<AmmIndexState> | null = null;
+  let state: AmmIndexState = {
+    snapshot: emptySnapshot(chainId, ammAddress, startBlock),
+    loaded: false,
+    syncing: false,
+    headBlock: null,
+    error: null,
+  };
+
+  const setState = (patch: Partial<AmmIndexState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const load = async () => {
+    if (state.loaded) return;
+    const stored = await readSnapshot(key);
+    setState({ snapshot: stored ?? state.snapshot, loaded: true });
+  };
+
+  const run = async (): Promise<AmmIndexState> => {
+    await load();
+    // Not deployed yet: there is nothing to index
+    if (ammAddress === ZeroAddress) return state;
+    setState({ syncing: true, error: null });
+    try {
+      const head = await currentProvider.getBlockNumber();
+      setState({ headBlock: head });
+
+      const { snapshot } = state;
+      let from = Math.max(snapshot.startBlock, snapshot.lastIndexedBlock + 1 - REORG_BUFFER);
+      let next: AmmIndexSnapshot = {
+        ...snapshot,
+        pools: dropFrom(snapshot.pools, from),
+        swaps: dropFrom(snapshot.swaps, from),
+        liquidityAdded: dropFrom(snapshot.liquidityAdded, from),
+        liquidityRemoved: dropFrom(snapshot.liquidityRemoved, from),
+      };
+
+      while (from <= head) {
+        const to = Math.min(from + currentChunkSize - 1, head);
+        let logs;
+        try {
+          logs = await getLogsWithRetry(currentProvider, { address: ammAddress, fromBlock: from, toBlock: to });
+        } catch (error) {
+          if (currentChunkSize > MIN_CHUNK_SIZE && isRangeError(error)) {
+            currentChunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(currentChunkSize / 2));
+            continue;
+          }
+          throw error;
+        }
+
+        const pools: PoolCreatedEvent[] = [];
+        const swaps: SwapEvent[] = [];
+        const liquidityAdded: LiquidityAddedEvent[] = [];
+        const liquidityRemoved: LiquidityRemovedEvent[] = [];
+        for (const item of decodeAmmLogs(logs, ammAddress)) {
+          if (item.type === "PoolCreated") pools.push(item.event);
+          else if (item.type === "Swap") swaps.push(item.event);
+          else if (item.type === "LiquidityAdded") liquidityAdded.push(item.event);
+          else if (item.type === "LiquidityRemoved") liquidityRemoved.push(item.event);
+        }
+
+        next = {
+          ...next,
+          pools: append(next.pools, pools),
+          swaps: append(next.swaps, swaps),
+          liquidityAdded: append(next.liquidityAdded, liquidityAdded),
+          liquidityRemoved: append(next.liquidityRemoved, liquidityRemoved),
+          lastIndexedBlock: to,
+          updatedAt: Date.now(),
+        };
+        await writeSnapshot(key, next);
+        setState({ snapshot: next });
+        from = to + 1;
+      }
+
+      setState({ snapshot: next, syncing: false });
+    } catch (error) {
+      console.error("Indexer sync failed:", error);
+      setState({ syncing: false, error: decodeError(error) });
+    }
+    return state;
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    sync: () => {
+      if (!running) {
+        running = run().finally(() => {
+          running = null;
+        });
+      }
+      return running;
+    },
+    reset: async () => {
+      await deleteSnapshot(key);
+      setState({ snapshot: emptySnapshot(chainId, ammAddress, startBlock), error: null });
+    },
+    setProvider: (nextProvider) => {
+      currentProvider = nextProvider;
+    },
+  };
+}
+
+const indexers = new Map<string, AmmIndexer>();
+
+/**
+ * Shared indexer for a chain + AMM contract. The provider is refreshed on each
+ * call so the instance always uses the latest connected client.
+ */
+export function getAmmIndexer(chainId: number, ammAddress: string, provider: Provider): AmmIndexer {
+  const key = snapshotKey(chainId, ammAddress);
+  let indexer = indexers.get(key);
+  if (!indexer) {
+    indexer = createAmmIndexer({ chainId, ammAddress, provider });
+    indexers.set(key, indexer);
+  } else {
+    indexer.setProvider(provider);
+  }
+  return indexer;
+}
@@ -0,0 +1,46 @@
+import type { Filter, Log, Provider } from "ethers";
+
+/**
+ * Helpers for scanning `eth_getLogs` in block chunks. RPCs answer two kinds
+ * of failure differently: a range or result-size rejection means the chunk
+ * must shrink, while a rate limit means the same request should be retried
+ * after a pause.
+ */
+
+// Retries of a rate-limited request, waiting RATE_LIMIT_DELAY_MS and doubling each time.
+const RATE_LIMIT_RETRIES = 5;
+const RATE_LIMIT_DELAY_MS = 500;
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * True when the RPC rejected a log query for spanning too many blocks or
+ * returning too many results.
+ */
+export const isRangeError = (error: unknown) =>
+  /block range|range (is )?too (large|wide|big)|limited to .*range|too many (blocks|logs|results)|response size|returned more than|more than \d+ (logs|results)|max(imum)? results/i.test(
+    messageOf(error),
+  );
+
+/**
+ * True when the RPC throttled the request (HTTP 429 or a rate-limit message).
+ */
+export const isRateLimitError = (error: unknown) =>
+  /\b429\b|rate.?limit|too many requests/i.test(messageOf(error));
+
+/**
+ * `provider.getLogs`, retried with exponential backoff while the RPC is rate
+ * limiting. Any other failure, and the last rate-limit error, is thrown.
+ */
+export async function getLogsWithRetry(provider: Provider, filter: Filter): Promise<Log[]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.getLogs(filter);
+    } catch (error) {
+      if (attempt >= RATE_LIMIT_RETRIES || !isRateLimitError(error)) throw error;
+      await wait(RATE_LIMIT_DELAY_MS * 2 ** attempt);
+    }
+  }
+}
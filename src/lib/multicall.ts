@@ -0,0 +1,218 @@
+import { Contract, Interface, ZeroAddress, type ContractRunner, type Result } from "ethers";
+
+import ERC20_ABI from "@/lib/abi/MockToken.json";
+import { MULTICALL3_ADDRESS } from "@/config/constants";
+import { NATIVE_TOKEN_ADDRESS, isNativeToken, type PoolInfo } from "@/lib/amm";
+import { ammInterface, type TokenMetadata } from "@/lib/amm-events";
+import { shortenAddress } from "@/lib/utils";
+
+/**
+ * Batches contract reads through Multicall3 `aggregate3` so a page needs a
+ * constant number of RPC round trips regardless of how many pools exist.
+ */
+
+// Calls per aggregate3 request; keeps eth_call payloads under common RPC limits.
+const DEFAULT_BATCH_SIZE = 200;
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getEthBalance(address addr) view returns (uint256 balance)",
+];
+
+const multicallInterface = new Interface(MULTICALL3_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+
+export type ContractCall = {
+  target: string;
+  iface: Interface;
+  method: string;
+  args?: readonly unknown[];
+};
+
+export type CallResult = { success: true; value: Result } | { success: false; value: null };
+
+type MulticallOptions = {
+  batchSize?: number;
+  multicallAddress?: string;
+};
+
+const chunk = <T>(items: readonly T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) chunks.push(items.slice(index, index + size));
+  return chunks;
+};
+
+const decodeResult = (call: ContractCall, returnData: string): CallResult => {
+  try {
+    return { success: true, value: call.iface.decodeFunctionResult(call.method, returnData) };
+  } catch {
+    return { success: false, value: null };
+  }
+};
+
+/**
+ * Fallback when Multicall3 is unavailable: one eth_call per read, still in parallel.
+ */
+async function callIndividually(calls: readonly ContractCall[], runner: ContractRunner): Promise<CallResult[]> {
+  return Promise.all(
+    calls.map(async (call) => {
+      try {
+        const contract = new Contract(call.target, call.iface, runner);
+        const value = await contract.getFunction(call.method).staticCallResult(...(call.args ?? []));
+        return { success: true, value } as const;
+      } catch {
+        return { success: false, value: null } as const;
+      }
+    }),
+  );
+}
+
+/**
+ * Execute many read calls in as few `aggregate3` requests as possible.
+ * Individual failures are reported per call instead of failing the batch.
+ */
+export async function multicall(
+  calls: readonly ContractCall[],
+  runner: ContractRunner,
+  { batchSize = DEFAULT_BATCH_SIZE, multicallAddress = MULTICALL3_ADDRESS }: MulticallOptions = {},
+): Promise<CallResult[]> {
+  if (calls.length === 0) return [];
+  const multicall3 = new Contract(multicallAddress, multicallInterface, runner);
+
+  try {
+    const batches = await Promise.all(
+      chunk(calls, batchSize).map(async (batch) => {
+        const encoded = batch.map((call) => ({
+          target: call.target,
+          allowFailure: true,
+          callData: call.iface.encodeFunctionData(call.method, call.args ?? []),
+        }));
+        const results: { success: boolean; returnData: string }[] = await multicall3.aggregate3.staticCall(encoded);
+        return results.map((result, index) =>
+          result.success ? decodeResult(batch[index], result.returnData) : ({ success: false, value: null } as const),
+        );
+      }),
+    );
+    return batches.flat();
+  } catch (error) {
+    console.error("Multicall failed, falling back to individual calls:", error);
+    return callIndividually(calls, runner);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// AMM reads
+// ---------------------------------------------------------------------------
+
+/**
+ * Batched `AMM.getPool` for many poolIds. Missing pools resolve to null.
+ */
+export async function multicallPools(
+  poolIds: readonly string[],
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<(PoolInfo | null)[]> {
+  const results = await multicall(
+    poolIds.map((poolId) => ({ target: ammAddress, iface: ammInterface, method: "getPool", args: [poolId] })),
+    runner,
+  );
+  return results.map((result, index) => {
+    if (!result.success) return null;
+    const [token0, token1, reserve0, reserve1, feeBps, totalSupply] = result.value;
+    if (token0 === ZeroAddress && token1 === ZeroAddress) return null;
+    return { poolId: poolIds[index], token0, token1, reserve0, reserve1, feeBps: Number(feeBps), totalSupply };
+  });
+}
+
+/**
+ * Batched `AMM.getLpBalance` of one account across many pools.
+ */
+export async function multicallLpBalances(
+  poolIds: readonly string[],
+  account: string,
+  ammAddress: string,
+  runner: ContractRunner,
+): Promise<bigint[]> {
+  const results = await multicall(
+    poolIds.map((poolId) => ({ target: ammAddress, iface: ammInterface, method: "getLpBalance", args: [poolId, account] })),
+    runner,
+  );
+  return results.map((result) => (result.success ? (result.value[0] as bigint) : BigInt(0)));
+}
+
+// ---------------------------------------------------------------------------
+// ERC20 reads
+// ---------------------------------------------------------------------------
+
+/**
+ * Batched balances of `owner` for many tokens. The native ETH sentinel is read
+ * through Multicall3 `getEthBalance` in the same batch.
+ */
+export async function multicallTokenBalances(
+  tokens: readonly string[],
+  owner: string,
+  runner: ContractRunner,
+  { multicallAddress = MULTICALL3_ADDRESS }: MulticallOptions = {},
+): Promise<bigint[]> {
+  const results = await multicall(
+    tokens.map((token) =>
+      isNativeToken(token)
+        ? { target: multicallAddress, iface: multicallInterface, method: "getEthBalance", args: [owner] }
+        : { target: token, iface: erc20Interface, method: "balanceOf", args: [owner] },
+    ),
+    runner,
+    { multicallAddress },
+  );
+  return results.map((result) => (result.success ? (result.value[0] as bigint) : BigInt(0)));
+}
+
+/**
+ * Batched allowances granted by `owner` to `spender` for many tokens.
+ * Native ETH never needs an allowance and resolves to 0.
+ */
+export async function multicallAllowances(
+  tokens: readonly string[],
+  owner: string,
+  spender: string,
+  runner: ContractRunner,
+): Promise<bigint[]> {
+  const erc20Tokens = tokens.filter((token) => !isNativeToken(token));
+  const results = await multicall(
+    erc20Tokens.map((token) => ({ target: token, iface: erc20Interface, method: "allowance", args: [owner, spender] })),
+    runner,
+  );
+  const byToken = new Map(
+    erc20Tokens.map((token, index) => [
+      token.toLowerCase(),
+      results[index].success ? (results[index].value[0] as bigint) : BigInt(0),
+    ]),
+  );
+  return tokens.map((token) => byToken.get(token.toLowerCase()) ?? BigInt(0));
+}
+
+/**
+ * Batched `symbol`, `name` and `decimals` for many tokens.
+ * Falls back to the shortened address and 18 decimals for non-standard tokens.
+ */
+export async function multicallTokenMetadata(
+  tokens: readonly string[],
+  runner: ContractRunner,
+): Promise<TokenMetadata[]> {
+  const methods = ["symbol", "name", "decimals"] as const;
+  const results = await multicall(
+    tokens.flatMap((token) => methods.map((method) => ({ target: token, iface: erc20Interface, method }))),
+    runner,
+  );
+  return tokens.map((token, index) => {
+    if (isNativeToken(token)) {
+      return { address: NATIVE_TOKEN_ADDRESS, symbol: "ETH", name: "Ether", decimals: 18 };
+    }
+    const [symbol, name, decimals] = results.slice(index * methods.length, (index + 1) * methods.length);
+    return {
+      address: token,
+      symbol: symbol.success ? String(symbol.value[0]) : shortenAddress(token),
+      name: name.success ? String(name.value[0]) : "",
+      decimals: decimals.success ? Number(decimals.value[0]) : 18,
+    };
+  });
+}
@@ -0,0 +1,269 @@
+import { BLOCK_TIME_SECONDS } from "@/config/constants";
+import type { PoolInfo, SwapEvent } from "@/lib/amm";
+import type { TokenMetadata } from "@/lib/amm-events";
+import { BPS_DENOMINATOR } from "@/lib/amm-math";
+import { bucketBlocks, sampleHistory, snapshotPrice, type ReserveSnapshot } from "@/lib/pool-history";
+import type { TokenPrice } from "@/lib/price-oracle";
+import { amountToNumber, tokenAmount } from "@/lib/token-amount";
+
+/**
+ * Pool volume, fees, APR and utilization aggregated from indexed `Swap`
+ * events over rolling windows that end at the latest indexed block.
+ *
+ * Volume is measured on the input side of each swap and the LP fee is
+ * `amountIn * feeBps`. USD figures use the pool oracle's current prices, and
+ * APR annualises the window's fees against the pool's current TVL.
+ */
+
+export type AnalyticsWindow = "1h" | "24h" | "7d" | "30d";
+
+export const ANALYTICS_WINDOWS: { id: AnalyticsWindow; label: string; seconds: number }[] = [
+  { id: "1h", label: "1H", seconds: 60 * 60 },
+  { id: "24h", label: "24H", seconds: 24 * 60 * 60 },
+  { id: "7d", label: "7D", seconds: 7 * 24 * 60 * 60 },
+  { id: "30d", label: "30D", seconds: 30 * 24 * 60 * 60 },
+];
+
+/** Chart ranges: the analytics windows plus the pool's whole indexed history. */
+export type ChartRange = AnalyticsWindow | "all";
+
+export const CHART_RANGES: { id: ChartRange; label: string }[] = [
+  ...ANALYTICS_WINDOWS.map(({ id, label }) => ({ id, label })),
+  { id: "all", label: "All" },
+];
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const ZERO = BigInt(0);
+
+/** Swap totals for one pool over a block range, per token in base units. */
+export type SwapTotals = {
+  swapCount: number;
+  volume0: bigint;
+  volume1: bigint;
+  fees0: bigint;
+  fees1: bigint;
+};
+
+export type PoolAnalytics = SwapTotals & {
+  window: AnalyticsWindow;
+  volumeUsd: number | null;
+  feesUsd: number | null;
+  tvlUsd: number | null;
+  /** Annualised fee yield on current TVL, as a fraction (0.12 = 12%). */
+  feeApr: number | null;
+  /** Volume traded per unit of TVL over the window, as a fraction. */
+  utilization: number | null;
+};
+
+/** Pool state at the close of one chart bucket; nulls before the pool's history starts. */
+export type PoolSeriesPoint = {
+  blockNumber: number;
+  /** token0 priced in token1, whole units. */
+  price: number | null;
+  reserve0: number | null;
+  reserve1: number | null;
+  tvlUsd: number | null;
+  /** USD volume traded during the bucket. */
+  volumeUsd: number | null;
+};
+
+/**
+ * Block span covered by `window`.
+ */
+export function windowBlocks(window: AnalyticsWindow): number {
+  const { seconds } = ANALYTICS_WINDOWS.find((entry) => entry.id === window) ?? ANALYTICS_WINDOWS[1];
+  return Math.ceil(seconds / BLOCK_TIME_SECONDS);
+}
+
+/**
+ * Sum the swaps of `pool` in `(fromBlock, toBlock]`.
+ */
+export function aggregateSwaps(
+  pool: Pick<PoolInfo, "poolId" | "token0" | "feeBps">,
+  swaps: readonly SwapEvent[],
+  fromBlock: number,
+  toBlock: number,
+): SwapTotals {
+  const poolId = pool.poolId.toLowerCase();
+  const token0 = pool.token0.toLowerCase();
+  const fee = BigInt(pool.feeBps);
+  const totals: SwapTotals = { swapCount: 0, volume0: ZERO, volume1: ZERO, fees0: ZERO, fees1: ZERO };
+
+  for (const swap of swaps) {
+    if (swap.poolId.toLowerCase() !== poolId || swap.blockNumber <= fromBlock || swap.blockNumber > toBlock) continue;
+    const feeAmount = (swap.amountIn * fee) / BPS_DENOMINATOR;
+    totals.swapCount += 1;
+    if (swap.tokenIn.toLowerCase() === token0) {
+      totals.volume0 += swap.amountIn;
+      totals.fees0 += feeAmount;
+    } else {
+      totals.volume1 += swap.amountIn;
+      totals.fees1 += feeAmount;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Swap totals per bucket, where bucket `i` covers `(blocks[i - 1], blocks[i]]`
+ * and the first bucket starts at `fromBlock`.
+ */
+export function bucketSwaps(
+  pool: Pick<PoolInfo, "poolId" | "token0" | "feeBps">,
+  swaps: readonly SwapEvent[],
+  fromBlock: number,
+  blocks: readonly number[],
+): SwapTotals[] {
+  return blocks.map((block, index) => aggregateSwaps(pool, swaps, index === 0 ? fromBlock : blocks[index - 1], block));
+}
+
+/**
+ * USD prices for both pool tokens. When only one is priced the other is
+ * implied from the pool's current reserves. Null when neither is priced.
+ */
+export function getPairPrices(
+  pool: Pick<PoolInfo, "reserve0" | "reserve1">,
+  token0: TokenMetadata,
+  token1: TokenMetadata,
+  price0: TokenPrice | null,
+  price1: TokenPrice | null,
+): [number, number] | null {
+  const reserve0 = amountToNumber(tokenAmount(token0, pool.reserve0));
+  const reserve1 = amountToNumber(tokenAmount(token1, pool.reserve1));
+  if (price0 && price1) return [price0.usd, price1.usd];
+  if (reserve0 === 0 || reserve1 === 0) return null;
+  if (price0) return [price0.usd, (price0.usd * reserve0) / reserve1];
+  if (price1) return [(price1.usd * reserve1) / reserve0, price1.usd];
+  return null;
+}
+
+/**
+ * Volume, fees, APR and utilization of `pool` over the `window` ending at
+ * `headBlock`. A pool younger than the window has its APR annualised over its
+ * age, from `createdBlock` (null when its creation is not indexed).
+ */
+export function getPoolAnalytics({
+  pool,
+  token0,
+  token1,
+  price0,
+  price1,
+  swaps,
+  headBlock,
+  createdBlock,
+  window,
+}: {
+  pool: PoolInfo;
+  token0: TokenMetadata;
+  token1: TokenMetadata;
+  price0: TokenPrice | null;
+  price1: TokenPrice | null;
+  swaps: readonly SwapEvent[];
+  headBlock: number;
+  createdBlock: number | null;
+  window: AnalyticsWindow;
+}): PoolAnalytics {
+  const totals = aggregateSwaps(pool, swaps, headBlock - windowBlocks(window), headBlock);
+  const prices = getPairPrices(pool, token0, token1, price0, price1);
+  if (!prices) return { ...totals, window, volumeUsd: null, feesUsd: null, tvlUsd: null, feeApr: null, utilization: null };
+
+  const [usd0, usd1] = prices;
+  const valueOf = (amount0: bigint, amount1: bigint) =>
+    amountToNumber(tokenAmount(token0, amount0)) * usd0 + amountToNumber(tokenAmount(token1, amount1)) * usd1;
+  const volumeUsd = valueOf(totals.volume0, totals.volume1);
+  const feesUsd = valueOf(totals.fees0, totals.fees1);
+  const tvlUsd = valueOf(pool.reserve0, pool.reserve1);
+  const span = windowBlocks(window);
+  const activeBlocks = createdBlock === null ? span : Math.min(span, headBlock - createdBlock);
+  const seconds = Math.max(activeBlocks, 1) * BLOCK_TIME_SECONDS;
+
+  return {
+    ...totals,
+    window,
+    volumeUsd,
+    feesUsd,
+    tvlUsd,
+    feeApr: tvlUsd > 0 ? (feesUsd / tvlUsd) * (SECONDS_PER_YEAR / seconds) : null,
+    utilization: tvlUsd > 0 ? volumeUsd / tvlUsd : null,
+  };
+}
+
+/**
+ * The pool token historical values are measured in: the one with the fewest
+ * hops to the USD anchor, with its current USD price. Null when neither is priced.
+ */
+export function getQuoteToken(price0: TokenPrice | null, price1: TokenPrice | null): { side: 0 | 1; usd: number } | null {
+  if (price1 && (!price0 || price1.hops <= price0.hops)) return { side: 1, usd: price1.usd };
+  return price0 ? { side: 0, usd: price0.usd } : null;
+}
+
+/**
+ * Whole-token amounts of both pool tokens expressed in the `side` token, at
+ * `price` (token0 in token1).
+ */
+export function quoteValue(side: 0 | 1, amount0: number, amount1: number, price: number): number {
+  return side === 1 ? amount0 * price + amount1 : amount0 + amount1 / price;
+}
+
+/**
+ * Price, reserves, TVL and volume of `pool` sampled into `points` buckets over
+ * `[fromBlock, toBlock]`. USD values convert through the better-anchored
+ * token (fewest hops) at the pool's price of the time, so a pair against the
+ * anchor stablecoin is exact while others use the quote token's current price.
+ */
+export function getPoolSeries({
+  pool,
+  token0,
+  token1,
+  price0,
+  price1,
+  history,
+  swaps,
+  fromBlock,
+  toBlock,
+  points,
+}: {
+  pool: PoolInfo;
+  token0: TokenMetadata;
+  token1: TokenMetadata;
+  price0: TokenPrice | null;
+  price1: TokenPrice | null;
+  history: readonly ReserveSnapshot[];
+  swaps: readonly SwapEvent[];
+  fromBlock: number;
+  toBlock: number;
+  points: number;
+}): PoolSeriesPoint[] {
+  const blocks = bucketBlocks(fromBlock, toBlock, points);
+  const snapshots = sampleHistory(history, blocks);
+  const volumes = bucketSwaps(pool, swaps, fromBlock, blocks);
+  const quote = getQuoteToken(price0, price1);
+  const toNumber0 = (amount: bigint) => amountToNumber(tokenAmount(token0, amount));
+  const toNumber1 = (amount: bigint) => amountToNumber(tokenAmount(token1, amount));
+
+  return blocks.map((blockNumber, index) => {
+    const snapshot = snapshots[index];
+    if (!snapshot) return { blockNumber, price: null, reserve0: null, reserve1: null, tvlUsd: null, volumeUsd: null };
+
+    const price = snapshotPrice(snapshot, token0.decimals, token1.decimals);
+    const valueOf = (amount0: number, amount1: number) =>
+      quote && price > 0 ? quoteValue(quote.side, amount0, amount1, price) * quote.usd : null;
+    const reserve0 = toNumber0(snapshot.reserve0);
+    const reserve1 = toNumber1(snapshot.reserve1);
+    return {
+      blockNumber,
+      price,
+      reserve0,
+      reserve1,
+      tvlUsd: valueOf(reserve0, reserve1),
+      volumeUsd: valueOf(toNumber0(volumes[index].volume0), toNumber1(volumes[index].volume1)),
+    };
+  });
+}
+
+/**
+ * Format a fraction as a percentage: 0.1234 -> "12.34%".
+ */
+export function formatFractionPercent(value: number | null, precision = 2): string {
+  return value === null ? "—" : `${(value * 100).toFixed(precision)}%`;
+}
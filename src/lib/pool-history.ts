@@ -0,0 +1,142 @@
+import type { LiquidityAddedEvent, LiquidityRemovedEvent, PoolCreatedEvent, PoolInfo, SwapEvent } from "@/lib/amm";
+
+/**
+ * Pool state over time, rebuilt from indexed AMM events.
+ *
+ * The AMM does not checkpoint reserves, so history is reconstructed by
+ * starting from the pool's current reserves and undoing every indexed event
+ * for that pool, newest first. Block numbers stand in for time: Base produces
+ * a block every 2 seconds, so block-weighted averages are time-weighted.
+ */
+
+/** The indexed event collections history is built from. */
+export type PoolEvents = {
+  pools: readonly PoolCreatedEvent[];
+  swaps: readonly SwapEvent[];
+  liquidityAdded: readonly LiquidityAddedEvent[];
+  liquidityRemoved: readonly LiquidityRemovedEvent[];
+};
+
+/** Pool state from `blockNumber` until the next snapshot. */
+export type ReserveSnapshot = {
+  blockNumber: number;
+  logIndex: number;
+  reserve0: bigint;
+  reserve1: bigint;
+  totalSupply: bigint;
+};
+
+type PoolChange =
+  | { type: "PoolCreated"; event: PoolCreatedEvent }
+  | { type: "Swap"; event: SwapEvent }
+  | { type: "LiquidityAdded"; event: LiquidityAddedEvent }
+  | { type: "LiquidityRemoved"; event: LiquidityRemovedEvent };
+
+const ZERO = BigInt(0);
+
+const byPosition = (a: PoolChange, b: PoolChange) =>
+  a.event.blockNumber - b.event.blockNumber || a.event.logIndex - b.event.logIndex;
+
+function poolChanges(poolId: string, events: PoolEvents): PoolChange[] {
+  const id = poolId.toLowerCase();
+  const matches = (event: { poolId: string }) => event.poolId.toLowerCase() === id;
+  return [
+    ...events.pools.filter(matches).map((event) => ({ type: "PoolCreated" as const, event })),
+    ...events.swaps.filter(matches).map((event) => ({ type: "Swap" as const, event })),
+    ...events.liquidityAdded.filter(matches).map((event) => ({ type: "LiquidityAdded" as const, event })),
+    ...events.liquidityRemoved.filter(matches).map((event) => ({ type: "LiquidityRemoved" as const, event })),
+  ].sort(byPosition);
+}
+
+/**
+ * Snapshots of `pool` after each of its indexed events, oldest first, ending
+ * with its current state. History stops early if the index is missing events
+ * and undoing them would leave the pool empty.
+ */
+export function getReserveHistory(pool: PoolInfo, events: PoolEvents): ReserveSnapshot[] {
+  const changes = poolChanges(pool.poolId, events);
+  const token0 = pool.token0.toLowerCase();
+  let reserve0 = pool.reserve0;
+  let reserve1 = pool.reserve1;
+  let totalSupply = pool.totalSupply;
+  const history: ReserveSnapshot[] = [];
+
+  for (const change of [...changes].reverse()) {
+    const { blockNumber, logIndex } = change.event;
+    history.push({ blockNumber, logIndex, reserve0, reserve1, totalSupply });
+
+    if (change.type === "PoolCreated") break;
+    if (change.type === "Swap") {
+      // The whole input, fee included, stays in the pool
+      const zeroForOne = change.event.tokenIn.toLowerCase() === token0;
+      reserve0 += zeroForOne ? -change.event.amountIn : change.event.amountOut;
+      reserve1 += zeroForOne ? change.event.amountOut : -change.event.amountIn;
+    } else if (change.type === "LiquidityAdded") {
+      reserve0 -= change.event.amount0;
+      reserve1 -= change.event.amount1;
+      totalSupply -= change.event.liquidityMinted;
+    } else {
+      reserve0 += change.event.amount0;
+      reserve1 += change.event.amount1;
+      totalSupply += change.event.liquidityBurned;
+    }
+    if (reserve0 <= ZERO || reserve1 <= ZERO) break;
+  }
+
+  return history.reverse();
+}
+
+/**
+ * Spot price of token0 in token1 for a snapshot, in whole tokens.
+ */
+export function snapshotPrice(snapshot: ReserveSnapshot, decimals0: number, decimals1: number): number {
+  if (snapshot.reserve0 === ZERO) return 0;
+  return (Number(snapshot.reserve1) / Number(snapshot.reserve0)) * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * Block-weighted average of `value` over `[fromBlock, toBlock)`. Each snapshot
+ * holds until the next one, so snapshots inside a single block carry no weight
+ * and only the state a block ends with counts. Null when no snapshot covers
+ * the range; a pool younger than the range is averaged over its lifetime.
+ */
+export function timeWeightedAverage(
+  history: readonly ReserveSnapshot[],
+  value: (snapshot: ReserveSnapshot) => number,
+  fromBlock: number,
+  toBlock: number,
+): number | null {
+  let weighted = 0;
+  let covered = 0;
+  history.forEach((snapshot, index) => {
+    const start = Math.max(snapshot.blockNumber, fromBlock);
+    const end = Math.min(history[index + 1]?.blockNumber ?? toBlock, toBlock);
+    if (end <= start) return;
+    weighted += value(snapshot) * (end - start);
+    covered += end - start;
+  });
+  if (covered > 0) return weighted / covered;
+  // Nothing changed within the range (or it is a single block): the latest state applies
+  const latest = history.filter((snapshot) => snapshot.blockNumber <= toBlock).at(-1);
+  return latest ? value(latest) : null;
+}
+
+/**
+ * Evenly spaced block numbers closing `points` buckets over `[fromBlock, toBlock]`.
+ */
+export function bucketBlocks(fromBlock: number, toBlock: number, points: number): number[] {
+  const span = Math.max(toBlock - fromBlock, 1);
+  return Array.from({ length: points }, (_, index) => Math.round(fromBlock + (span * (index + 1)) / points));
+}
+
+/**
+ * The snapshot in effect at each of `blocks`, or null before the pool existed
+ * (or before the indexed history starts).
+ */
+export function sampleHistory(history: readonly ReserveSnapshot[], blocks: readonly number[]): (ReserveSnapshot | null)[] {
+  let cursor = -1;
+  return blocks.map((block) => {
+    while (cursor + 1 < history.length && history[cursor + 1].blockNumber <= block) cursor += 1;
+    return cursor >= 0 ? history[cursor] : null;
+  });
+}
@@ -0,0 +1,208 @@
+import type { PoolInfo } from "@/lib/amm";
+import type { TokenMetadata } from "@/lib/amm-events";
+import { getLiquidityBurned } from "@/lib/amm-math";
+import { getQuoteToken, quoteValue } from "@/lib/pool-analytics";
+import type { PoolEvents } from "@/lib/pool-history";
+import { getTokenPrice, type PriceMap, type TokenPrice } from "@/lib/price-oracle";
+import { amountToNumber, tokenAmount } from "@/lib/token-amount";
+
+/**
+ * Cost basis and P&L of one wallet's LP position, rebuilt from its own
+ * `PoolCreated`, `LiquidityAdded` and `LiquidityRemoved` events.
+ *
+ * Deposits are tracked at average cost: a removal releases the same fraction
+ * of the deposited amounts and cost basis as of the LP it burns. Every flow is
+ * valued in the pool's better-anchored token at the rate it executed at
+ * (deposits and withdrawals are proportional to reserves), then converted at
+ * that token's USD price as of the flow's block, so cost basis and realized
+ * P&L are in the dollars of their time. Current value, HODL, fees and
+ * impermanent loss use current prices.
+ *
+ * Against holding the deposited tokens (HODL), the position's value splits
+ * into impermanent loss, what the same liquidity would be worth now without
+ * fees, and fees, the growth in value per unit of liquidity since deposit.
+ */
+
+export type PositionPnl = {
+  /** Deposited amounts still backing the position, in base units. */
+  deposited0: bigint;
+  deposited1: bigint;
+  /** Total withdrawn over the position's life, in base units. */
+  withdrawn0: bigint;
+  withdrawn1: bigint;
+  /** Amounts the current LP balance redeems for now, in base units. */
+  redeemable0: bigint;
+  redeemable1: bigint;
+  /** False when the events do not account for the whole LP balance (e.g. LP received by transfer). */
+  complete: boolean;
+  valueUsd: number | null;
+  /** Null when a deposit or withdrawal has no USD price at its block. */
+  costBasisUsd: number | null;
+  /** Current value of the deposited amounts had they been held instead. */
+  hodlUsd: number | null;
+  feesUsd: number | null;
+  impermanentLossUsd: number | null;
+  /** Impermanent loss as a fraction of HODL value (negative is a loss). */
+  impermanentLoss: number | null;
+  realizedUsd: number | null;
+  unrealizedUsd: number | null;
+};
+
+type LiquidityFlow = {
+  blockNumber: number;
+  logIndex: number;
+  sign: 1 | -1;
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+};
+
+const ZERO = BigInt(0);
+
+/**
+ * P&L of `account`'s `lpBalance` in `pool`, or zeros when it never provided
+ * liquidity. `historicalPrices` is keyed by block and must cover every block
+ * the account's liquidity events are in.
+ */
+export function getPositionPnl({
+  pool,
+  token0,
+  token1,
+  account,
+  lpBalance,
+  events,
+  price0,
+  price1,
+  historicalPrices,
+  chainId,
+}: {
+  pool: PoolInfo;
+  token0: TokenMetadata;
+  token1: TokenMetadata;
+  account: string;
+  lpBalance: bigint;
+  events: PoolEvents;
+  price0: TokenPrice | null;
+  price1: TokenPrice | null;
+  historicalPrices: ReadonlyMap<number, PriceMap> | null;
+  chainId: number;
+}): PositionPnl {
+  const poolId = pool.poolId.toLowerCase();
+  const owner = account.toLowerCase();
+  const mine = (event: { poolId: string; provider: string }) =>
+    event.poolId.toLowerCase() === poolId && event.provider.toLowerCase() === owner;
+
+  const flows: LiquidityFlow[] = [
+    ...events.pools.filter(mine).map((event) => ({ ...event, sign: 1 as const, liquidity: event.initialLiquidity })),
+    ...events.liquidityAdded.filter(mine).map((event) => ({ ...event, sign: 1 as const, liquidity: event.liquidityMinted })),
+    ...events.liquidityRemoved
+      .filter(mine)
+      .map((event) => ({ ...event, sign: -1 as const, liquidity: event.liquidityBurned })),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const toNumber0 = (amount: bigint) => amountToNumber(tokenAmount(token0, amount));
+  const toNumber1 = (amount: bigint) => amountToNumber(tokenAmount(token1, amount));
+  const reserve0 = toNumber0(pool.reserve0);
+  const reserve1 = toNumber1(pool.reserve1);
+  const currentPrice = reserve0 > 0 ? reserve1 / reserve0 : 0;
+  const quote = getQuoteToken(price0, price1);
+  const side = quote?.side ?? 1;
+
+  let liquidity = ZERO;
+  let deposited0 = ZERO;
+  let deposited1 = ZERO;
+  let withdrawn0 = ZERO;
+  let withdrawn1 = ZERO;
+  // In USD at each flow's block; null once a flow cannot be priced
+  let costBasisUsd: number | null = 0;
+  let realizedUsd: number | null = 0;
+  // Fee-free liquidity, sqrt(x * y) in whole tokens, of the deposits still held
+  let depositedLiquidity = 0;
+
+  for (const flow of flows) {
+    const amount0 = toNumber0(flow.amount0);
+    const amount1 = toNumber1(flow.amount1);
+    const executedPrice = amount0 > 0 ? amount1 / amount0 : currentPrice;
+    const blockPrices = historicalPrices?.get(flow.blockNumber);
+    const flowQuote = blockPrices
+      ? getQuoteToken(
+          getTokenPrice(blockPrices, token0.address, chainId),
+          getTokenPrice(blockPrices, token1.address, chainId),
+        )
+      : null;
+    const valueUsd = !flowQuote
+      ? null
+      : executedPrice > 0
+        ? quoteValue(flowQuote.side, amount0, amount1, executedPrice) * flowQuote.usd
+        : 0;
+
+    if (flow.sign === 1) {
+      liquidity += flow.liquidity;
+      deposited0 += flow.amount0;
+      deposited1 += flow.amount1;
+      costBasisUsd = costBasisUsd === null || valueUsd === null ? null : costBasisUsd + valueUsd;
+      depositedLiquidity += Math.sqrt(amount0 * amount1);
+      continue;
+    }
+
+    // Burning more than the events minted means history is missing: release everything tracked
+    const burned = flow.liquidity < liquidity ? flow.liquidity : liquidity;
+    const fraction = liquidity > ZERO ? Number(burned) / Number(liquidity) : 0;
+    const released0 = liquidity > ZERO ? (deposited0 * burned) / liquidity : ZERO;
+    const released1 = liquidity > ZERO ? (deposited1 * burned) / liquidity : ZERO;
+    realizedUsd =
+      realizedUsd === null || costBasisUsd === null || valueUsd === null
+        ? null
+        : realizedUsd + valueUsd - costBasisUsd * fraction;
+    if (costBasisUsd !== null) costBasisUsd -= costBasisUsd * fraction;
+    depositedLiquidity -= depositedLiquidity * fraction;
+    deposited0 -= released0;
+    deposited1 -= released1;
+    liquidity -= burned;
+    withdrawn0 += flow.amount0;
+    withdrawn1 += flow.amount1;
+  }
+
+  const { amount0: redeemable0, amount1: redeemable1 } = getLiquidityBurned(pool, lpBalance);
+  const base = {
+    deposited0,
+    deposited1,
+    withdrawn0,
+    withdrawn1,
+    redeemable0,
+    redeemable1,
+    complete: liquidity === lpBalance,
+  };
+  if (!quote || currentPrice <= 0) {
+    return {
+      ...base,
+      valueUsd: null,
+      costBasisUsd: null,
+      hodlUsd: null,
+      feesUsd: null,
+      impermanentLossUsd: null,
+      impermanentLoss: null,
+      realizedUsd: null,
+      unrealizedUsd: null,
+    };
+  }
+
+  const toUsd = (amount: number) => amount * quote.usd;
+  const value = quoteValue(side, toNumber0(redeemable0), toNumber1(redeemable1), currentPrice);
+  const hodl = quoteValue(side, toNumber0(deposited0), toNumber1(deposited1), currentPrice);
+  // The deposited liquidity without fees, at the current price: x = L / sqrt(P), y = L * sqrt(P)
+  const root = Math.sqrt(currentPrice);
+  const feeFree = quoteValue(side, depositedLiquidity / root, depositedLiquidity * root, currentPrice);
+
+  return {
+    ...base,
+    valueUsd: toUsd(value),
+    costBasisUsd,
+    hodlUsd: toUsd(hodl),
+    feesUsd: toUsd(value - feeFree),
+    impermanentLossUsd: toUsd(feeFree - hodl),
+    impermanentLoss: hodl > 0 ? feeFree / hodl - 1 : null,
+    realizedUsd,
+    unrealizedUsd: costBasisUsd === null ? null : toUsd(value) - costBasisUsd,
+  };
+}
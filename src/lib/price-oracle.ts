@@ -0,0 +1,323 @@
+import type { ContractRunner } from "ethers";
+
+import { PRICE_MIN_LIQUIDITY_USD, PRICE_TWAP_WINDOW_BLOCKS, USD_ANCHOR_TOKENS } from "@/config/constants";
+import { isNativeToken, type PoolInfo } from "@/lib/amm";
+import type { TokenMetadata } from "@/lib/amm-events";
+import { decodeError, type DecodedError } from "@/lib/errors";
+import { multicallPools, multicallTokenMetadata } from "@/lib/multicall";
+import {
+  getReserveHistory,
+  sampleHistory,
+  snapshotPrice,
+  timeWeightedAverage,
+  type PoolEvents,
+  type ReserveSnapshot,
+} from "@/lib/pool-history";
+import { amountToNumber, type TokenAmount } from "@/lib/token-amount";
+import { getWethAddress } from "@/lib/weth";
+
+/**
+ * USD prices derived from the AMM's own pools.
+ *
+ * The chain's stablecoin anchor is worth $1. Prices then spread outwards one
+ * hop at a time: a token paired with an already-priced token takes that
+ * token's price times the pool's time-weighted average rate. When several
+ * pools connect a token to priced ones, their estimates are averaged weighted
+ * by the USD depth of the priced side, and shallow pools are ignored, so a
+ * thin or briefly manipulated pool cannot move the result much.
+ *
+ * The same derivation runs at past blocks against reserves rebuilt from the
+ * event index, so past actions can be valued at the prices of their time.
+ */
+
+export type TokenPrice = {
+  /** USD per whole token. */
+  usd: number;
+  /** USD depth behind the estimate, summed over the pools it came from. */
+  liquidityUsd: number;
+  /** Pool hops from the anchor; 0 for the anchor itself. */
+  hops: number;
+};
+
+/** Prices keyed by lowercase token address. */
+export type PriceMap = ReadonlyMap<string, TokenPrice>;
+
+export type PriceOracleState = {
+  prices: PriceMap;
+  /** Last indexed block the prices were derived at. */
+  block: number | null;
+  /** Pool states, token metadata and events the prices were derived from. */
+  inputs: Pick<PriceInputs, "pools" | "metadata" | "events"> | null;
+  updating: boolean;
+  error: DecodedError | null;
+};
+
+export type PriceOracle = {
+  getState: () => PriceOracleState;
+  subscribe: (listener: () => void) => () => void;
+  /** Re-derive prices from the index at `block`; repeated calls for the same block are no-ops. */
+  update: (events: PoolEvents, block: number) => Promise<PriceOracleState>;
+  setRunner: (runner: ContractRunner) => void;
+};
+
+type PriceInputs = {
+  pools: readonly PoolInfo[];
+  metadata: ReadonlyMap<string, TokenMetadata>;
+  events: PoolEvents;
+  anchor: string;
+  headBlock: number;
+  windowBlocks?: number;
+  minLiquidityUsd?: number;
+};
+
+/** A pool's time-weighted token1-per-token0 rate, in whole tokens, and the reserves behind it. */
+type PoolRate = {
+  token0: TokenMetadata;
+  token1: TokenMetadata;
+  reserve0: bigint;
+  reserve1: bigint;
+  rate: number;
+};
+
+const EMPTY_PRICES: PriceMap = new Map();
+
+// ---------------------------------------------------------------------------
+// Derivation
+// ---------------------------------------------------------------------------
+
+/**
+ * Derive USD prices for every token reachable from `anchor` through pools.
+ */
+export function derivePrices({
+  pools,
+  metadata,
+  events,
+  anchor,
+  headBlock,
+  windowBlocks = PRICE_TWAP_WINDOW_BLOCKS,
+  minLiquidityUsd = PRICE_MIN_LIQUIDITY_USD,
+}: PriceInputs): Map<string, TokenPrice> {
+  // Time-weighted token1-per-token0 rate of every pool, in whole tokens
+  const rates = pools.flatMap((pool): PoolRate[] => {
+    const token0 = metadata.get(pool.token0.toLowerCase());
+    const token1 = metadata.get(pool.token1.toLowerCase());
+    if (!token0 || !token1 || pool.reserve0 === BigInt(0) || pool.reserve1 === BigInt(0)) return [];
+    const rate = timeWeightedAverage(
+      getReserveHistory(pool, events),
+      (snapshot) => snapshotPrice(snapshot, token0.decimals, token1.decimals),
+      headBlock - windowBlocks,
+      headBlock,
+    );
+    return rate && Number.isFinite(rate)
+      ? [{ token0, token1, reserve0: pool.reserve0, reserve1: pool.reserve1, rate }]
+      : [];
+  });
+  return spreadPrices(anchor, rates, minLiquidityUsd);
+}
+
+/**
+ * Prices as `derivePrices` would have derived them at each of `blocks`, from
+ * pool reserves and rates rebuilt from the event index. Keyed by block.
+ */
+export function derivePricesAt({
+  pools,
+  metadata,
+  events,
+  anchor,
+  blocks,
+  windowBlocks = PRICE_TWAP_WINDOW_BLOCKS,
+  minLiquidityUsd = PRICE_MIN_LIQUIDITY_USD,
+}: Omit<PriceInputs, "headBlock"> & { blocks: readonly number[] }): Map<number, Map<string, TokenPrice>> {
+  const sorted = [...new Set(blocks)].sort((a, b) => a - b);
+  const ratesAt = new Map<number, PoolRate[]>(sorted.map((block) => [block, []]));
+
+  for (const pool of pools) {
+    const token0 = metadata.get(pool.token0.toLowerCase());
+    const token1 = metadata.get(pool.token1.toLowerCase());
+    if (!token0 || !token1) continue;
+    const history = getReserveHistory(pool, events);
+    const price = (snapshot: ReserveSnapshot) => snapshotPrice(snapshot, token0.decimals, token1.decimals);
+    sampleHistory(history, sorted).forEach((snapshot, index) => {
+      if (!snapshot || snapshot.reserve0 === BigInt(0) || snapshot.reserve1 === BigInt(0)) return;
+      const block = sorted[index];
+      const rate = timeWeightedAverage(history, price, block - windowBlocks, block);
+      if (rate && Number.isFinite(rate)) {
+        ratesAt.get(block)?.push({ token0, token1, reserve0: snapshot.reserve0, reserve1: snapshot.reserve1, rate });
+      }
+    });
+  }
+
+  return new Map(sorted.map((block) => [block, spreadPrices(anchor, ratesAt.get(block) ?? [], minLiquidityUsd)]));
+}
+
+/**
+ * Spread prices outwards from `anchor` one pool hop at a time.
+ */
+function spreadPrices(anchor: string, rates: readonly PoolRate[], minLiquidityUsd: number): Map<string, TokenPrice> {
+  const prices = new Map<string, TokenPrice>([[anchor.toLowerCase(), { usd: 1, liquidityUsd: Infinity, hops: 0 }]]);
+
+  for (let hops = 1; ; hops += 1) {
+    const estimates = new Map<string, { weighted: number; liquidityUsd: number }>();
+    for (const { token0, token1, reserve0, reserve1, rate } of rates) {
+      const price0 = prices.get(token0.address.toLowerCase());
+      const price1 = prices.get(token1.address.toLowerCase());
+      // Only prices settled in earlier hops feed this one
+      const side =
+        price0 && !price1
+          ? { known: token0, reserve: reserve0, knownUsd: price0.usd, unknown: token1, usd: price0.usd * rate }
+          : price1 && !price0
+            ? { known: token1, reserve: reserve1, knownUsd: price1.usd, unknown: token0, usd: price1.usd / rate }
+            : null;
+      if (!side) continue;
+
+      const depthUsd = amountToNumber({ token: side.known, raw: side.reserve }) * side.knownUsd;
+      if (depthUsd < minLiquidityUsd) continue;
+
+      const key = side.unknown.address.toLowerCase();
+      const current = estimates.get(key) ?? { weighted: 0, liquidityUsd: 0 };
+      estimates.set(key, {
+        weighted: current.weighted + side.usd * depthUsd,
+        liquidityUsd: current.liquidityUsd + depthUsd,
+      });
+    }
+    if (estimates.size === 0) return prices;
+    estimates.forEach(({ weighted, liquidityUsd }, key) => {
+      prices.set(key, { usd: weighted / liquidityUsd, liquidityUsd, hops });
+    });
+  }
+}
+
+/**
+ * Price of `token` on `chainId`; native ETH is priced as the chain's WETH.
+ */
+export function getTokenPrice(prices: PriceMap, token: string, chainId: number | undefined): TokenPrice | null {
+  const address = isNativeToken(token) ? getWethAddress(chainId) : token;
+  return address ? (prices.get(address.toLowerCase()) ?? null) : null;
+}
+
+/**
+ * USD value of an amount, or null when its token has no price.
+ */
+export function getUsdValue(amount: TokenAmount, price: TokenPrice | null): number | null {
+  return price ? amountToNumber(amount) * price.usd : null;
+}
+
+/**
+ * Combined USD value of both sides of a pool position. A constant-product pool
+ * holds equal value on each side, so when only one token is priced its side
+ * counts twice. Null when neither token is priced.
+ */
+export function getPairUsdValue(
+  amount0: TokenAmount,
+  price0: TokenPrice | null,
+  amount1: TokenAmount,
+  price1: TokenPrice | null,
+): number | null {
+  const value0 = getUsdValue(amount0, price0);
+  const value1 = getUsdValue(amount1, price1);
+  if (value0 === null && value1 === null) return null;
+  return (value0 ?? value1 ?? 0) + (value1 ?? value0 ?? 0);
+}
+
+/**
+ * Format a USD value: "$1,234.56", with extra precision below a cent. Unknown
+ * values show as "—".
+ */
+export function formatUsd(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "—";
+  const small = value !== 0 && Math.abs(value) < 0.01;
+  return `$${value.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: small ? 6 : 2,
+  })}`;
+}
+
+// ---------------------------------------------------------------------------
+// Oracle
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a price oracle for one AMM deployment. Prefer `getPriceOracle`,
+ * which shares a single instance per chain and contract across the app.
+ */
+export function createPriceOracle(chainId: number, ammAddress: string, runner: ContractRunner): PriceOracle {
+  const listeners = new Set<() => void>();
+  let currentRunner = runner;
+  let running: { block: number; promise: Promise<PriceOracleState> } | null = null;
+  let state: PriceOracleState = { prices: EMPTY_PRICES, block: null, inputs: null, updating: false, error: null };
+
+  const setState = (patch: Partial<PriceOracleState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const run = async (events: PoolEvents, block: number): Promise<PriceOracleState> => {
+    const anchor = USD_ANCHOR_TOKENS[chainId];
+    if (!anchor) {
+      setState({ prices: EMPTY_PRICES, block, inputs: null, error: null });
+      return state;
+    }
+
+    setState({ updating: true, error: null });
+    try {
+      const pools = (
+        await multicallPools(
+          events.pools.map((event) => event.poolId),
+          ammAddress,
+          currentRunner,
+        )
+      ).filter((pool): pool is PoolInfo => pool !== null);
+      const tokens = [...new Set(pools.flatMap((pool) => [pool.token0.toLowerCase(), pool.token1.toLowerCase()]))];
+      const metadata = await multicallTokenMetadata(tokens, currentRunner);
+      const inputs = {
+        pools,
+        metadata: new Map(metadata.map((token) => [token.address.toLowerCase(), token])),
+        events,
+      };
+      const prices = derivePrices({ ...inputs, anchor, headBlock: block });
+      setState({ prices, block, inputs, updating: false });
+    } catch (error) {
+      console.error("Price oracle update failed:", error);
+      setState({ updating: false, error: decodeError(error) });
+    }
+    return state;
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    update: (events, block) => {
+      if (running?.block === block) return running.promise;
+      if (state.block === block && !state.error) return Promise.resolve(state);
+      const promise = run(events, block).finally(() => {
+        if (running?.promise === promise) running = null;
+      });
+      running = { block, promise };
+      return promise;
+    },
+    setRunner: (nextRunner) => {
+      currentRunner = nextRunner;
+    },
+  };
+}
+
+const oracles = new Map<string, PriceOracle>();
+
+/**
+ * Shared price oracle for a chain + AMM contract. The runner is refreshed on
+ * each call so the instance always uses the latest connected client.
+ */
+export function getPriceOracle(chainId: number, ammAddress: string, runner: ContractRunner): PriceOracle {
+  const key = `${chainId}:${ammAddress.toLowerCase()}`;
+  let oracle = oracles.get(key);
+  if (!oracle) {
+    oracle = createPriceOracle(chainId, ammAddress, runner);
+    oracles.set(key, oracle);
+  } else {
+    oracle.setRunner(runner);
+  }
+  return oracle;
+}
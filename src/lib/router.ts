@@ -0,0 +1,527 @@
+import type { ContractRunner, JsonRpcSigner } from "ethers";
+
+import { KNOWN_FEE_TIERS_BPS } from "@/config/constants";
+import {
+  getDefaultFeeBps,
+  swap,
+  swapExactOutput,
+  type PoolCreatedEvent,
+  type PoolInfo,
+  type SwapResult,
+} from "@/lib/amm";
+import {
+  applySlippageDown,
+  applySlippageUp,
+  quoteExactInput,
+  quoteExactOutput,
+  type Ratio,
+} from "@/lib/amm-math";
+import { ammInterface } from "@/lib/amm-events";
+import { ensureApproval, resolveApprovalMode, type ApprovalMode } from "@/lib/approvals";
+import { decodeError, type DecodedError } from "@/lib/errors";
+import { multicall, multicallPools } from "@/lib/multicall";
+import { unwrapEth, wrapEth } from "@/lib/weth";
+
+/**
+ * Route planner over the AMM pool graph.
+ *
+ * Tokens are nodes and every pool (one per pair and fee tier) is an edge, so
+ * the search compares fee tiers and multi-hop paths in a single pass. Routes
+ * are executed as one `swap` per leg, each with its own minimum output.
+ * Exact-output routes are planned backwards from the desired output and
+ * re-quoted against fresh reserves right before they are signed.
+ */
+
+// Longest path considered; each extra hop multiplies the search space and gas.
+export const MAX_HOPS = 3;
+
+/** Which side of the trade the user fixed. */
+export type TradeType = "exactInput" | "exactOutput";
+
+/** Adjacency list keyed by lowercased token address. */
+export type PoolGraph = Map<string, PoolInfo[]>;
+
+export type RouteLeg = {
+  pool: PoolInfo;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Minimum output for this leg after slippage; zero until `withSlippage` is applied. */
+  minAmountOut: bigint;
+  priceImpact: Ratio;
+};
+
+export type Route = {
+  tradeType: TradeType;
+  tokenIn: string;
+  tokenOut: string;
+  /** Token addresses along the path, including both ends. */
+  path: string[];
+  amountIn: bigint;
+  amountOut: bigint;
+  minAmountOut: bigint;
+  /** Most the trader will sell; equals `amountIn` for exact-input routes. */
+  maxAmountIn: bigint;
+  legs: RouteLeg[];
+  /** Product of the leg mid prices, tokenOut per tokenIn in base units. */
+  midPrice: Ratio;
+  executionPrice: Ratio;
+  priceImpact: Ratio;
+};
+
+/** Direct single-pool quote for one fee tier of a pair. */
+export type FeeTierQuote = {
+  feeBps: number;
+  pool: PoolInfo;
+  route: Route;
+};
+
+export type RouteExecution = {
+  route: Route;
+  results: SwapResult[];
+  amountOut: bigint;
+  /**
+   * Set when a leg after the first failed. The earlier legs stay executed and
+   * the trader holds their output, `amount` of intermediate `token`.
+   */
+  incomplete?: { failedLeg: number; token: string; amount: bigint; error: DecodedError };
+};
+
+type FindRoutesOptions = {
+  maxHops?: number;
+};
+
+const ZERO = BigInt(0);
+
+const key = (token: string) => token.toLowerCase();
+
+const otherToken = (pool: PoolInfo, token: string) =>
+  key(pool.token0) === key(token) ? pool.token1 : pool.token0;
+
+/**
+ * Build the token graph from pool states, skipping pools without liquidity
+ * and pools listed more than once.
+ */
+export function buildPoolGraph(pools: readonly (PoolInfo | null)[]): PoolGraph {
+  const graph: PoolGraph = new Map();
+  const seen = new Set<string>();
+  for (const pool of pools) {
+    if (!pool || pool.reserve0 === ZERO || pool.reserve1 === ZERO || seen.has(pool.poolId)) continue;
+    seen.add(pool.poolId);
+    for (const token of [pool.token0, pool.token1]) {
+      const edges = graph.get(key(token)) ?? [];
+      edges.push(pool);
+      graph.set(key(token), edges);
+    }
+  }
+  return graph;
+}
+
+/**
+ * Read current reserves for every indexed pool and build the routing graph.
+ * `extraPools` covers pools the index has not caught up with yet.
+ */
+export async function loadPoolGraph(
+  poolEvents: readonly PoolCreatedEvent[],
+  ammAddress: string,
+  runner: ContractRunner,
+  extraPools: readonly PoolInfo[] = [],
+): Promise<PoolGraph> {
+  const pools = await multicallPools(
+    poolEvents.map((event) => event.poolId),
+    ammAddress,
+    runner,
+  );
+  return buildPoolGraph([...pools, ...extraPools]);
+}
+
+/**
+ * Find every live pool for a pair by deriving its poolId for each fee tier,
+ * plus the AMM's current default, with `AMM.getPoolId`, independently of the
+ * event index.
+ */
+export async function discoverPairPools(
+  tokenA: string,
+  tokenB: string,
+  ammAddress: string,
+  runner: ContractRunner,
+  feeTiers: readonly number[] = KNOWN_FEE_TIERS_BPS,
+): Promise<PoolInfo[]> {
+  // An unreadable default still leaves the known tiers to probe
+  const defaultFeeBps = await getDefaultFeeBps(ammAddress, runner).catch(() => null);
+  const tiers = defaultFeeBps === null ? feeTiers : [...new Set([...feeTiers, defaultFeeBps])];
+  const poolIds = await multicall(
+    tiers.map((feeBps) => ({
+      target: ammAddress,
+      iface: ammInterface,
+      method: "getPoolId",
+      args: [tokenA, tokenB, feeBps],
+    })),
+    runner,
+  );
+  const pools = await multicallPools(
+    poolIds.flatMap((result) => (result.success ? [String(result.value[0])] : [])),
+    ammAddress,
+    runner,
+  );
+  return pools.filter((pool): pool is PoolInfo => !!pool && pool.reserve0 > ZERO && pool.reserve1 > ZERO);
+}
+
+function toRoute(tradeType: TradeType, legs: RouteLeg[]): Route {
+  const { tokenIn, amountIn } = legs[0];
+  const { tokenOut, amountOut } = legs[legs.length - 1];
+  const midPrice = legs.reduce<Ratio>(
+    (price, leg) => {
+      const inIsToken0 = key(leg.pool.token0) === key(leg.tokenIn);
+      const reserveIn = inIsToken0 ? leg.pool.reserve0 : leg.pool.reserve1;
+      const reserveOut = inIsToken0 ? leg.pool.reserve1 : leg.pool.reserve0;
+      return { numerator: price.numerator * reserveOut, denominator: price.denominator * reserveIn };
+    },
+    { numerator: BigInt(1), denominator: BigInt(1) },
+  );
+  // 1 - executionPrice / midPrice, same definition as the single-pool quote
+  const impactDenominator = amountIn * midPrice.numerator;
+  const impactNumerator = impactDenominator - amountOut * midPrice.denominator;
+
+  return {
+    tradeType,
+    tokenIn,
+    tokenOut,
+    path: [tokenIn, ...legs.map((leg) => leg.tokenOut)],
+    amountIn,
+    amountOut,
+    minAmountOut: tradeType === "exactOutput" ? amountOut : ZERO,
+    maxAmountIn: amountIn,
+    legs,
+    midPrice,
+    executionPrice: { numerator: amountOut, denominator: amountIn },
+    priceImpact: {
+      numerator: impactNumerator < ZERO ? ZERO : impactNumerator,
+      denominator: impactDenominator === ZERO ? BigInt(1) : impactDenominator,
+    },
+  };
+}
+
+/**
+ * Enumerate every simple path from `tokenIn` to `tokenOut` up to `maxHops`
+ * pools long and quote `amountIn` along it. Routes are sorted best first.
+ */
+export function findRoutes(
+  graph: PoolGraph,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  { maxHops = MAX_HOPS }: FindRoutesOptions = {},
+): Route[] {
+  if (amountIn <= ZERO || key(tokenIn) === key(tokenOut)) return [];
+  const routes: Route[] = [];
+
+  const visit = (token: string, amount: bigint, legs: RouteLeg[], visited: Set<string>) => {
+    if (legs.length >= maxHops) return;
+    for (const pool of graph.get(key(token)) ?? []) {
+      const next = otherToken(pool, token);
+      if (visited.has(key(next))) continue;
+
+      const quote = quoteExactInput(pool, token, amount);
+      if (quote.amountOut <= ZERO) continue;
+      const leg: RouteLeg = {
+        pool,
+        tokenIn: token,
+        tokenOut: next,
+        amountIn: amount,
+        amountOut: quote.amountOut,
+        minAmountOut: ZERO,
+        priceImpact: quote.priceImpact,
+      };
+
+      if (key(next) === key(tokenOut)) {
+        routes.push(toRoute("exactInput", [...legs, leg]));
+      } else {
+        visited.add(key(next));
+        visit(next, quote.amountOut, [...legs, leg], visited);
+        visited.delete(key(next));
+      }
+    }
+  };
+
+  visit(tokenIn, amountIn, [], new Set([key(tokenIn)]));
+  // Best output first; prefer fewer hops on ties since each leg costs gas.
+  return routes.sort((a, b) =>
+    a.amountOut === b.amountOut ? a.legs.length - b.legs.length : a.amountOut > b.amountOut ? -1 : 1,
+  );
+}
+
+/**
+ * Best route by output, or null when the tokens are not connected.
+ */
+export function findBestRoute(
+  graph: PoolGraph,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  options?: FindRoutesOptions,
+): Route | null {
+  return findRoutes(graph, tokenIn, tokenOut, amountIn, options)[0] ?? null;
+}
+
+/**
+ * Enumerate paths that deliver exactly `amountOut` of `tokenOut`, walking the
+ * graph backwards and sizing each leg's input from its pool's reserves.
+ * Routes are sorted by the smallest required input first.
+ */
+export function findRoutesForOutput(
+  graph: PoolGraph,
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: bigint,
+  { maxHops = MAX_HOPS }: FindRoutesOptions = {},
+): Route[] {
+  if (amountOut <= ZERO || key(tokenIn) === key(tokenOut)) return [];
+  const routes: Route[] = [];
+
+  const visit = (token: string, amount: bigint, legs: RouteLeg[], visited: Set<string>) => {
+    if (legs.length >= maxHops) return;
+    for (const pool of graph.get(key(token)) ?? []) {
+      const previous = otherToken(pool, token);
+      if (visited.has(key(previous))) continue;
+
+      let quote;
+      try {
+        quote = quoteExactOutput(pool, previous, amount);
+      } catch {
+        // Output exceeds this pool's reserves
+        continue;
+      }
+      const leg: RouteLeg = {
+        pool,
+        tokenIn: previous,
+        tokenOut: token,
+        amountIn: quote.amountIn,
+        amountOut: amount,
+        minAmountOut: amount,
+        priceImpact: quote.priceImpact,
+      };
+
+      if (key(previous) === key(tokenIn)) {
+        routes.push(toRoute("exactOutput", [leg, ...legs]));
+      } else {
+        visited.add(key(previous));
+        visit(previous, quote.amountIn, [leg, ...legs], visited);
+        visited.delete(key(previous));
+      }
+    }
+  };
+
+  visit(tokenOut, amountOut, [], new Set([key(tokenOut)]));
+  return routes.sort((a, b) =>
+    a.amountIn === b.amountIn ? a.legs.length - b.legs.length : a.amountIn < b.amountIn ? -1 : 1,
+  );
+}
+
+/**
+ * Quote the trade through each of the pair's pools on its own so fee tiers can
+ * be compared side by side. Sorted best first for the trade type.
+ */
+export function compareFeeTiers(
+  pools: readonly PoolInfo[],
+  tokenIn: string,
+  tokenOut: string,
+  amount: bigint,
+  tradeType: TradeType,
+): FeeTierQuote[] {
+  const quotes: FeeTierQuote[] = [];
+  for (const pool of pools) {
+    const graph = buildPoolGraph([pool]);
+    const [route] =
+      tradeType === "exactInput"
+        ? findRoutes(graph, tokenIn, tokenOut, amount, { maxHops: 1 })
+        : findRoutesForOutput(graph, tokenIn, tokenOut, amount, { maxHops: 1 });
+    if (route) quotes.push({ feeBps: pool.feeBps, pool, route });
+  }
+  return quotes.sort((a, b) => {
+    if (tradeType === "exactInput") {
+      return a.route.amountOut === b.route.amountOut ? 0 : a.route.amountOut > b.route.amountOut ? -1 : 1;
+    }
+    return a.route.amountIn === b.route.amountIn ? 0 : a.route.amountIn < b.route.amountIn ? -1 : 1;
+  });
+}
+
+/**
+ * Apply `slippageBps` to a route. Exact-input routes protect every leg's
+ * output; exact-output routes keep each leg's output exact and cap the input.
+ */
+export function withSlippage(route: Route, slippageBps: number): Route {
+  if (route.tradeType === "exactOutput") {
+    return { ...route, maxAmountIn: applySlippageUp(route.amountIn, slippageBps) };
+  }
+  const legs = route.legs.map((leg) => ({ ...leg, minAmountOut: applySlippageDown(leg.amountOut, slippageBps) }));
+  return { ...route, legs, minAmountOut: legs[legs.length - 1].minAmountOut };
+}
+
+/**
+ * How much better `current` is for the trader than `reviewed`, as a fraction
+ * of the reviewed amount: more output for exact-input routes, less input for
+ * exact-output ones. Negative when the price moved against the trader.
+ */
+export function getQuoteChange(reviewed: Route, current: Route): Ratio {
+  if (reviewed.tradeType === "exactOutput") {
+    return { numerator: reviewed.amountIn - current.amountIn, denominator: reviewed.amountIn };
+  }
+  return { numerator: current.amountOut - reviewed.amountOut, denominator: reviewed.amountOut };
+}
+
+/**
+ * Re-quote an exact-output route along the same pools using current reserves.
+ * Throws when the pools moved far enough that the input exceeds `maxAmountIn`.
+ */
+export async function requoteExactOutput(route: Route, ammAddress: string, runner: ContractRunner): Promise<Route> {
+  const pools = await multicallPools(
+    route.legs.map((leg) => leg.pool.poolId),
+    ammAddress,
+    runner,
+  );
+
+  const legs: RouteLeg[] = [];
+  let amount = route.amountOut;
+  for (let index = route.legs.length - 1; index >= 0; index--) {
+    const pool = pools[index];
+    if (!pool) throw new Error(`Pool ${route.legs[index].pool.poolId} not found`);
+    const quote = quoteExactOutput(pool, route.legs[index].tokenIn, amount);
+    legs.unshift({
+      ...route.legs[index],
+      pool,
+      amountIn: quote.amountIn,
+      amountOut: amount,
+      minAmountOut: amount,
+      priceImpact: quote.priceImpact,
+    });
+    amount = quote.amountIn;
+  }
+
+  if (amount > route.maxAmountIn) {
+    throw new Error(`Required input ${amount} exceeds maximum input ${route.maxAmountIn}`);
+  }
+  return { ...toRoute("exactOutput", legs), maxAmountIn: route.maxAmountIn };
+}
+
+type ExecuteRouteOptions = {
+  onLeg?: (index: number, result: SwapResult) => void;
+  /** WETH address to wrap native ETH into before the first leg. */
+  wrapInputWith?: string;
+  /** WETH address to unwrap the last leg's output through; the ETH is paid to the signer. */
+  unwrapOutputWith?: string;
+  /** How wrapped ETH and intermediate tokens are approved for the AMM. */
+  approvalMode?: ApprovalMode;
+  /** Unix time (seconds) after which the route is not started; the AMM has no deadline of its own. */
+  deadline?: number;
+};
+
+function assertBeforeDeadline(deadline: number | undefined) {
+  if (deadline !== undefined && Date.now() / 1000 > deadline) {
+    throw new Error("Quote expired before the transaction was sent");
+  }
+}
+
+/**
+ * Execute a route as sequential `swap` calls. Intermediate outputs are held by
+ * the signer and approved for the next leg; the last leg pays `recipient`.
+ * When a leg fills for less than planned, the next leg's minimum is scaled by
+ * the same factor so the per-leg price protection is preserved, but the last
+ * leg never accepts less than the route's reviewed minimum. If a later leg
+ * fails, execution stops and reports the intermediate token the trader now
+ * holds instead of throwing. Exact-output routes are re-quoted first and
+ * rejected if the input bound no longer holds. Native ETH inputs are wrapped
+ * up front (exact-output routes wrap the input cap and unwrap whatever the
+ * swap did not use) and unwrapped again if the route fails before its first
+ * swap. A `deadline` is checked once, before the first
+ * transaction: a route that has started is finished rather than stranded.
+ */
+export async function executeRoute(
+  route: Route,
+  recipient: string,
+  ammAddress: string,
+  signer: JsonRpcSigner,
+  { onLeg, wrapInputWith, unwrapOutputWith, approvalMode = "exact", deadline }: ExecuteRouteOptions = {},
+): Promise<RouteExecution> {
+  const trader = await signer.getAddress();
+  // Settle each token's approval mode before anything is sent, so a token without permit
+  // support cannot fail the route after earlier legs have executed
+  const spent = route.path.slice(0, -1);
+  const modes = await Promise.all(spent.map((token) => resolveApprovalMode(approvalMode, token, signer)));
+  const modeFor = (token: string) => modes[spent.findIndex((entry) => key(entry) === key(token))] ?? "exact";
+  assertBeforeDeadline(deadline);
+  const payTo = unwrapOutputWith ? trader : recipient;
+  const wrapped = route.tradeType === "exactOutput" ? route.maxAmountIn : route.amountIn;
+  if (wrapInputWith) await wrapEth(wrapped, wrapInputWith, signer);
+
+  let execution: RouteExecution;
+  try {
+    if (wrapInputWith) await ensureApproval(modeFor(route.tokenIn), signer, route.tokenIn, ammAddress, wrapped);
+    if (route.tradeType === "exactOutput" && route.legs.length === 1) {
+      const [leg] = route.legs;
+      const result = await swapExactOutput(
+        leg.pool.poolId,
+        leg.tokenIn,
+        route.amountOut,
+        route.maxAmountIn,
+        payTo,
+        ammAddress,
+        signer,
+      );
+      onLeg?.(0, result);
+      execution = { route, results: [result], amountOut: result.amountOut };
+    } else {
+      const planned = route.tradeType === "exactOutput" ? await requoteExactOutput(route, ammAddress, signer) : route;
+      const results: SwapResult[] = [];
+      let amountIn = planned.amountIn;
+      let incomplete: RouteExecution["incomplete"];
+
+      for (const [index, leg] of planned.legs.entries()) {
+        const isLast = index === planned.legs.length - 1;
+        const scaledMin = amountIn === leg.amountIn ? leg.minAmountOut : (leg.minAmountOut * amountIn) / leg.amountIn;
+        // Scaling compounds across hops; the trader reviewed the route's minimum, so that bounds the last leg
+        const minAmountOut = isLast && scaledMin < route.minAmountOut ? route.minAmountOut : scaledMin;
+
+        let result: SwapResult;
+        try {
+          if (index > 0) await ensureApproval(modeFor(leg.tokenIn), signer, leg.tokenIn, ammAddress, amountIn);
+          result = await swap(
+            leg.pool.poolId,
+            leg.tokenIn,
+            amountIn,
+            minAmountOut,
+            isLast ? payTo : trader,
+            ammAddress,
+            signer,
+          );
+        } catch (error) {
+          if (index === 0) throw error;
+          incomplete = { failedLeg: index, token: leg.tokenIn, amount: amountIn, error: decodeError(error) };
+          break;
+        }
+        results.push(result);
+        onLeg?.(index, result);
+        amountIn = result.amountOut;
+      }
+      execution = incomplete
+        ? { route: planned, results, amountOut: ZERO, incomplete }
+        : { route: planned, results, amountOut: amountIn };
+    }
+  } catch (error) {
+    // Later legs report failures instead of throwing, so nothing was swapped: hand the wrapped ETH back
+    if (wrapInputWith) {
+      await unwrapEth(wrapped, wrapInputWith, signer).catch((unwrapError) =>
+        console.error("Error unwrapping ETH after a failed route:", unwrapError),
+      );
+    }
+    throw error;
+  }
+
+  if (wrapInputWith) {
+    const unused = wrapped - execution.results[0].amountIn;
+    if (unused > ZERO) await unwrapEth(unused, wrapInputWith, signer);
+  }
+  if (unwrapOutputWith && !execution.incomplete) await unwrapEth(execution.amountOut, unwrapOutputWith, signer);
+  return execution;
+}
@@ -0,0 +1,158 @@
+import { formatRatio, type Ratio } from "@/lib/amm-math";
+
+/**
+ * Decimal-correct token amounts.
+ *
+ * A `TokenAmount` is a raw base-unit bigint together with the token it is
+ * denominated in, so parsing and formatting always use the token's own
+ * decimals. User input is parsed strictly from decimal strings (no floats, no
+ * exponents) and all arithmetic stays in bigint; `Ratio` from amm-math serves
+ * as the fraction type for prices and scaling.
+ */
+
+/** The parts of a token an amount needs. */
+export type AmountToken = {
+  symbol: string;
+  decimals: number;
+  address?: string;
+};
+
+export type TokenAmount = {
+  token: AmountToken;
+  /** Base units. */
+  raw: bigint;
+};
+
+/** AMM liquidity shares, which use 18 decimals. */
+export const LP_TOKEN: AmountToken = { symbol: "LP", decimals: 18 };
+
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+const scaleOf = (decimals: number) => TEN ** BigInt(decimals);
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Why `value` is not a valid amount of `token`, or null when it is.
+ */
+export function amountInputError(value: string, token: AmountToken): string | null {
+  const trimmed = value.trim();
+  const match = DECIMAL_PATTERN.exec(trimmed);
+  if (trimmed === "" || trimmed === ".") return "Enter an amount";
+  if (!match) return `"${value}" is not a valid amount`;
+  if ((match[2] ?? "").length > token.decimals) {
+    return `${token.symbol} amounts have at most ${token.decimals} decimal places`;
+  }
+  return null;
+}
+
+/**
+ * Parse a decimal string such as "1.5" into an amount of `token`.
+ * Throws on anything `amountInputError` rejects.
+ */
+export function parseTokenAmount(value: string, token: AmountToken): TokenAmount {
+  const error = amountInputError(value, token);
+  if (error) throw new Error(error);
+  const [, whole, fraction = ""] = DECIMAL_PATTERN.exec(value.trim()) as RegExpExecArray;
+  const raw = BigInt(whole || "0") * scaleOf(token.decimals) + BigInt(fraction.padEnd(token.decimals, "0") || "0");
+  return { token, raw };
+}
+
+/**
+ * Like `parseTokenAmount`, but null for empty or invalid input. For values
+ * derived while the user is still typing.
+ */
+export function tryParseTokenAmount(value: string, token: AmountToken | null | undefined): TokenAmount | null {
+  if (!token || amountInputError(value, token)) return null;
+  return parseTokenAmount(value, token);
+}
+
+export function tokenAmount(token: AmountToken, raw: bigint): TokenAmount {
+  return { token, raw };
+}
+
+// ---------------------------------------------------------------------------
+// Arithmetic
+// ---------------------------------------------------------------------------
+
+function assertSameToken(a: TokenAmount, b: TokenAmount) {
+  const sameAddress = !a.token.address || !b.token.address || a.token.address.toLowerCase() === b.token.address.toLowerCase();
+  if (a.token.decimals !== b.token.decimals || !sameAddress) {
+    throw new Error(`Cannot combine ${a.token.symbol} and ${b.token.symbol} amounts`);
+  }
+}
+
+export function addAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  assertSameToken(a, b);
+  return { token: a.token, raw: a.raw + b.raw };
+}
+
+export function subtractAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  assertSameToken(a, b);
+  return { token: a.token, raw: a.raw - b.raw };
+}
+
+/** -1, 0 or 1 as `a` is less than, equal to or greater than `b`. */
+export function compareAmounts(a: TokenAmount, b: TokenAmount): number {
+  assertSameToken(a, b);
+  return a.raw < b.raw ? -1 : a.raw > b.raw ? 1 : 0;
+}
+
+/**
+ * Scale an amount by a fraction, rounding down.
+ */
+export function multiplyAmount(amount: TokenAmount, fraction: Ratio): TokenAmount {
+  return { token: amount.token, raw: (amount.raw * fraction.numerator) / fraction.denominator };
+}
+
+/**
+ * The amount in whole tokens as an exact fraction, e.g. for price maths.
+ */
+export function amountToRatio(amount: TokenAmount): Ratio {
+  return { numerator: amount.raw, denominator: scaleOf(amount.token.decimals) };
+}
+
+/**
+ * Approximate value as a JS number, for charts and USD estimates only.
+ */
+export function amountToNumber(amount: TokenAmount): number {
+  return Number(formatRatio(amountToRatio(amount), Math.min(amount.token.decimals, 18)));
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+const groupThousands = (whole: string) => whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+
+/**
+ * Human-readable amount rounded to `maxDecimals` places, with grouped
+ * thousands and trailing zeros removed: "12,345.6789".
+ */
+export function formatTokenAmount(
+  amount: TokenAmount,
+  { maxDecimals = 6, symbol = false }: { maxDecimals?: number; symbol?: boolean } = {},
+): string {
+  const fixed = formatRatio(amountToRatio(amount), Math.min(maxDecimals, amount.token.decimals));
+  const negative = fixed.startsWith("-");
+  const [whole, fraction = ""] = (negative ? fixed.slice(1) : fixed).split(".");
+  const trimmed = fraction.replace(/0+$/, "");
+  // Dust that rounds to zero still shows that something is there
+  const body =
+    amount.raw !== ZERO && whole === "0" && trimmed === ""
+      ? `<0.${"0".repeat(Math.max(maxDecimals - 1, 0))}1`
+      : `${negative ? "-" : ""}${groupThousands(whole)}${trimmed ? `.${trimmed}` : ""}`;
+  return symbol ? `${body} ${amount.token.symbol}` : body;
+}
+
+/**
+ * Exact decimal string suitable for an amount input, e.g. for a "Max" button.
+ */
+export function toAmountInput(amount: TokenAmount): string {
+  const fixed = formatRatio(amountToRatio(amount), amount.token.decimals);
+  return fixed.includes(".") ? fixed.replace(/\.?0+$/, "") : fixed;
+}
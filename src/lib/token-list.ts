@@ -0,0 +1,251 @@
+import { Contract, getAddress, type ContractRunner } from "ethers";
+
+import BASE_TOKEN_LIST from "@/config/token-lists/base.json";
+import BASE_SEPOLIA_TOKEN_LIST from "@/config/token-lists/base-sepolia.json";
+import ERC20_ABI from "@/lib/abi/MockToken.json";
+import { NATIVE_TOKEN_ADDRESS } from "@/lib/amm";
+
+/**
+ * Token registry for every token picker.
+ *
+ * Listed tokens come from per-chain JSON files in the Uniswap token list
+ * format (https://tokenlists.org). Anything else can be imported by address;
+ * its metadata is read on-chain and the import is kept in localStorage.
+ * Imported tokens are flagged as unlisted so pickers can warn about them.
+ */
+
+/** A token entry as defined by the token list standard. */
+export type TokenInfo = {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+};
+
+export type TokenList = {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  tokens: TokenInfo[];
+  logoURI?: string;
+  keywords?: string[];
+};
+
+/** A token as offered by the pickers. */
+export type RegisteredToken = TokenInfo & {
+  /** False for tokens the user imported; these deserve a warning before trading. */
+  listed: boolean;
+};
+
+const STORAGE_KEY = "quantumdex-imported-tokens";
+
+export const TOKEN_LISTS: Record<number, TokenList> = {
+  8453: BASE_TOKEN_LIST,
+  84532: BASE_SEPOLIA_TOKEN_LIST,
+};
+
+const nativeToken = (chainId: number): RegisteredToken => ({
+  chainId,
+  address: NATIVE_TOKEN_ADDRESS,
+  symbol: "ETH",
+  name: "Ether",
+  decimals: 18,
+  listed: true,
+});
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+/**
+ * Tokens offered on `chainId`: native ETH first, then the chain's list, then
+ * imports. An import that has since been listed shows up once, as listed.
+ */
+export function getChainTokens(chainId: number, imported: readonly TokenInfo[]): RegisteredToken[] {
+  const listed = (TOKEN_LISTS[chainId]?.tokens ?? []).map((token) => ({ ...token, listed: true }));
+  const extra = imported
+    .filter((token) => token.chainId === chainId)
+    .filter((token) => !listed.some((entry) => sameAddress(entry.address, token.address)))
+    .map((token) => ({ ...token, listed: false }));
+  return [nativeToken(chainId), ...listed, ...extra];
+}
+
+/**
+ * Find a token by address in `tokens`.
+ */
+export function findToken<T extends TokenInfo>(tokens: readonly T[], address: string): T | undefined {
+  return tokens.find((token) => sameAddress(token.address, address));
+}
+
+/**
+ * Read an ERC20's metadata for import. Returns null when there is no contract
+ * at `address` or it does not answer `decimals()` and `symbol()`.
+ */
+export async function lookupToken(address: string, chainId: number, runner: ContractRunner): Promise<TokenInfo | null> {
+  const code = await runner.provider?.getCode(address);
+  if (!code || code === "0x") return null;
+
+  const token = new Contract(address, ERC20_ABI, runner);
+  try {
+    const [symbol, name, decimals] = await Promise.all([
+      token.symbol(),
+      token.name().catch(() => ""),
+      token.decimals(),
+    ]);
+    return {
+      chainId,
+      address: getAddress(address),
+      symbol: String(symbol),
+      name: String(name) || String(symbol),
+      decimals: Number(decimals),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Imported tokens
+// ---------------------------------------------------------------------------
+
+function readStored(): TokenInfo[] {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as TokenInfo[]) : [];
+  } catch (error) {
+    console.error("Error reading imported tokens:", error);
+    return [];
+  }
+}
+
+function writeStored(tokens: TokenInfo[]) {
+  if (typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  } catch (error) {
+    console.error("Error persisting imported tokens:", error);
+  }
+}
+
+function createImportedTokenStore() {
+  const listeners = new Set<() => void>();
+  let tokens: TokenInfo[] | null = null;
+
+  const getState = () => {
+    if (tokens === null) tokens = readStored();
+    return tokens;
+  };
+
+  const setTokens = (next: TokenInfo[]) => {
+    tokens = next;
+    writeStored(next);
+    listeners.forEach((listener) => listener());
+  };
+
+  const matches = (token: TokenInfo, chainId: number, address: string) =>
+    token.chainId === chainId && sameAddress(token.address, address);
+
+  return {
+    getState,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    add: (token: TokenInfo) =>
+      setTokens([...getState().filter((entry) => !matches(entry, token.chainId, token.address)), token]),
+    remove: (chainId: number, address: string) =>
+      setTokens(getState().filter((entry) => !matches(entry, chainId, address))),
+  };
+}
+
+/** Tokens the user imported by address, across all chains. */
+export const importedTokenStore = createImportedTokenStore();
+
+// ---------------------------------------------------------------------------
+// Favourites and recent picks
+// ---------------------------------------------------------------------------
+
+const PREFERENCES_KEY = "quantumdex-token-preferences";
+// Recent picks remembered per chain.
+const MAX_RECENTS = 6;
+
+/** Token keys are `chainId:address` so preferences never leak across chains. */
+export type TokenPreferences = { favorites: string[]; recents: string[] };
+
+export const tokenKey = (token: Pick<TokenInfo, "chainId" | "address">) =>
+  `${token.chainId}:${token.address.toLowerCase()}`;
+
+function readPreferences(): TokenPreferences {
+  const empty = { favorites: [], recents: [] };
+  if (typeof localStorage === "undefined") return empty;
+  try {
+    const stored = localStorage.getItem(PREFERENCES_KEY);
+    return stored ? { ...empty, ...(JSON.parse(stored) as Partial<TokenPreferences>) } : empty;
+  } catch (error) {
+    console.error("Error reading token preferences:", error);
+    return empty;
+  }
+}
+
+function writePreferences(preferences: TokenPreferences) {
+  if (typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error("Error persisting token preferences:", error);
+  }
+}
+
+function createTokenPreferenceStore() {
+  const listeners = new Set<() => void>();
+  let preferences: TokenPreferences | null = null;
+
+  const getState = () => {
+    if (preferences === null) preferences = readPreferences();
+    return preferences;
+  };
+
+  const setPreferences = (next: TokenPreferences) => {
+    preferences = next;
+    writePreferences(next);
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    getState,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    toggleFavorite: (token: TokenInfo) => {
+      const key = tokenKey(token);
+      const { favorites, recents } = getState();
+      setPreferences({
+        favorites: favorites.includes(key) ? favorites.filter((entry) => entry !== key) : [...favorites, key],
+        recents,
+      });
+    },
+    /** Move `token` to the front of its chain's recent picks. */
+    recordPick: (token: TokenInfo) => {
+      const key = tokenKey(token);
+      const { favorites, recents } = getState();
+      const others = recents.filter((entry) => entry !== key);
+      const sameChain = others.filter((entry) => entry.startsWith(`${token.chainId}:`)).slice(0, MAX_RECENTS - 1);
+      const otherChains = others.filter((entry) => !entry.startsWith(`${token.chainId}:`));
+      setPreferences({ favorites, recents: [key, ...sameChain, ...otherChains] });
+    },
+  };
+}
+
+/** Pinned favourites and recent picks shared by every token selector. */
+export const tokenPreferenceStore = createTokenPreferenceStore();
@@ -0,0 +1,361 @@
+import {
+  formatUnits,
+  isError,
+  type JsonRpcSigner,
+  type Provider,
+  type TransactionReceipt,
+  type TransactionRequest,
+  type TransactionResponse,
+} from "ethers";
+
+import { shortenAddress } from "@/lib/utils";
+
+/**
+ * App-wide record of every transaction the app submits.
+ *
+ * Write helpers hand their responses to `waitForTransaction`, which records
+ * them before waiting. The list is persisted in localStorage so pending
+ * transactions survive navigation and reloads; `poll` settles them from
+ * receipts and nonces, and `speedUp` / `cancel` send same-nonce replacements.
+ */
+
+const STORAGE_KEY = "quantumdex-transactions";
+// Settled transactions kept in history; pending ones are never evicted.
+const MAX_HISTORY = 50;
+// A transaction no node knows about after this long is treated as dropped.
+const DROP_TIMEOUT_MS = 10 * 60 * 1000;
+// Nodes require replacements to pay at least 10% more; bump a little higher so the first try sticks.
+const REPLACEMENT_FEE_BUMP_PERCENT = BigInt(115);
+
+export type TransactionType =
+  | "swap"
+  | "addLiquidity"
+  | "removeLiquidity"
+  | "createPool"
+  | "approve"
+  | "revoke"
+  | "permit"
+  | "wrap"
+  | "unwrap"
+  | "ownership"
+  | "cancel";
+
+export type TransactionStatus = "pending" | "confirmed" | "failed" | "dropped" | "replaced" | "cancelled";
+
+/** A token amount in base units, stored as a string so it survives JSON. */
+export type TrackedToken = {
+  address: string;
+  amount: string;
+  symbol?: string;
+  decimals?: number;
+};
+
+export type TransactionMeta = {
+  type: TransactionType;
+  tokens?: TrackedToken[];
+  poolId?: string;
+};
+
+export type TrackedTransaction = TransactionMeta & {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: string;
+  gasLimit: string;
+  gasPrice: string | null;
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  status: TransactionStatus;
+  submittedAt: number;
+  settledAt: number | null;
+  blockNumber: number | null;
+  /** Hash of the transaction this one replaced via speed-up or cancel. */
+  replaces: string | null;
+  /** Hash of the transaction that took this one's nonce, when known. */
+  replacedBy: string | null;
+  tokens: TrackedToken[];
+};
+
+export type TransactionStore = {
+  getState: () => TrackedTransaction[];
+  subscribe: (listener: () => void) => () => void;
+  /** Called once whenever a transaction leaves the pending state. */
+  onSettled: (listener: (transaction: TrackedTransaction) => void) => () => void;
+  record: (tx: TransactionResponse, meta: TransactionMeta & { replaces?: string }) => TrackedTransaction;
+  update: (hash: string, patch: Partial<TransactionMeta>) => void;
+  /** Check every pending transaction on `chainId` against the chain. */
+  poll: (provider: Provider, chainId: number) => Promise<void>;
+  /** Re-send a pending transaction with the same nonce and higher fees. */
+  speedUp: (hash: string, signer: JsonRpcSigner) => Promise<TrackedTransaction>;
+  /** Replace a pending transaction with a zero-value self-transfer at the same nonce. */
+  cancel: (hash: string, signer: JsonRpcSigner) => Promise<TrackedTransaction>;
+  /** Drop settled transactions from history. */
+  clearSettled: () => void;
+};
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+function readStored(): TrackedTransaction[] {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as TrackedTransaction[]) : [];
+  } catch (error) {
+    console.error("Error reading transaction history:", error);
+    return [];
+  }
+}
+
+function writeStored(transactions: TrackedTransaction[]) {
+  if (typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch (error) {
+    console.error("Error persisting transaction history:", error);
+  }
+}
+
+const trim = (transactions: TrackedTransaction[]) => {
+  const settled = transactions.filter((tx) => tx.status !== "pending");
+  if (settled.length <= MAX_HISTORY) return transactions;
+  const evicted = new Set(settled.slice(MAX_HISTORY).map((tx) => tx.hash));
+  return transactions.filter((tx) => !evicted.has(tx.hash));
+};
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+const bumpFee = (fee: string | null, current: bigint | null) => {
+  const bumped = fee ? (BigInt(fee) * REPLACEMENT_FEE_BUMP_PERCENT) / BigInt(100) : BigInt(0);
+  return current !== null && current > bumped ? current : bumped;
+};
+
+const sameNonce = (a: TrackedTransaction, b: TrackedTransaction) =>
+  a.hash !== b.hash && a.chainId === b.chainId && a.nonce === b.nonce && a.from.toLowerCase() === b.from.toLowerCase();
+
+export function createTransactionStore(): TransactionStore {
+  const listeners = new Set<() => void>();
+  const settledListeners = new Set<(transaction: TrackedTransaction) => void>();
+  let transactions: TrackedTransaction[] | null = null;
+  let polling = false;
+
+  const getTransactions = () => {
+    if (transactions === null) transactions = readStored();
+    return transactions;
+  };
+
+  const setTransactions = (next: TrackedTransaction[]) => {
+    const previous = new Map(getTransactions().map((tx) => [tx.hash, tx]));
+    transactions = trim(next);
+    writeStored(transactions);
+    listeners.forEach((listener) => listener());
+    for (const tx of transactions) {
+      if (tx.status !== "pending" && previous.get(tx.hash)?.status === "pending") {
+        settledListeners.forEach((listener) => listener(tx));
+      }
+    }
+  };
+
+  const patch = (hash: string, changes: Partial<TrackedTransaction>) =>
+    setTransactions(getTransactions().map((tx) => (tx.hash === hash ? { ...tx, ...changes } : tx)));
+
+  const record: TransactionStore["record"] = (tx, { replaces, ...meta }) => {
+    const tracked: TrackedTransaction = {
+      ...meta,
+      tokens: meta.tokens ?? [],
+      hash: tx.hash,
+      chainId: Number(tx.chainId),
+      from: tx.from,
+      nonce: tx.nonce,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value.toString(),
+      gasLimit: tx.gasLimit.toString(),
+      gasPrice: tx.gasPrice?.toString() ?? null,
+      maxFeePerGas: tx.maxFeePerGas?.toString() ?? null,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() ?? null,
+      status: "pending",
+      submittedAt: Date.now(),
+      settledAt: null,
+      blockNumber: null,
+      replaces: replaces ?? null,
+      replacedBy: null,
+    };
+    setTransactions([tracked, ...getTransactions().filter((item) => item.hash !== tx.hash)]);
+    return tracked;
+  };
+
+  // Mark a mined transaction and retire every other pending one that shared its nonce.
+  const settleMined = (tx: TrackedTransaction, receipt: TransactionReceipt) => {
+    const now = Date.now();
+    setTransactions(
+      getTransactions().map((item) => {
+        if (item.hash === tx.hash) {
+          return {
+            ...item,
+            status: receipt.status === 1 ? "confirmed" : "failed",
+            blockNumber: receipt.blockNumber,
+            settledAt: now,
+          };
+        }
+        if (item.status === "pending" && sameNonce(item, tx)) {
+          const status = tx.type === "cancel" ? "cancelled" : "replaced";
+          return { ...item, status, replacedBy: tx.hash, settledAt: now };
+        }
+        return item;
+      }),
+    );
+  };
+
+  const checkPending = async (tx: TrackedTransaction, provider: Provider) => {
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+    if (receipt) return settleMined(tx, receipt);
+
+    const nonce = await provider.getTransactionCount(tx.from, "latest");
+    if (nonce > tx.nonce) {
+      // The nonce is used; either this tx was mined since the receipt check or something replaced it
+      const lateReceipt = await provider.getTransactionReceipt(tx.hash);
+      if (lateReceipt) return settleMined(tx, lateReceipt);
+      // A tracked replacement settles this one once its own receipt is found
+      if (getTransactions().some((item) => item.status === "pending" && sameNonce(item, tx))) return;
+      return patch(tx.hash, { status: "replaced", settledAt: Date.now() });
+    }
+
+    if (Date.now() - tx.submittedAt > DROP_TIMEOUT_MS && !(await provider.getTransaction(tx.hash))) {
+      patch(tx.hash, { status: "dropped", settledAt: Date.now() });
+    }
+  };
+
+  const replace = async (hash: string, signer: JsonRpcSigner, mode: "speedUp" | "cancel") => {
+    const original = getTransactions().find((tx) => tx.hash === hash);
+    if (!original) throw new Error(`Transaction ${hash} is not tracked`);
+    if (original.status !== "pending") throw new Error(`Transaction ${hash} is no longer pending`);
+
+    const feeData = await signer.provider.getFeeData();
+    const request: TransactionRequest =
+      mode === "speedUp"
+        ? { to: original.to, data: original.data, value: BigInt(original.value), gasLimit: BigInt(original.gasLimit) }
+        : { to: original.from, data: "0x", value: BigInt(0) };
+    request.nonce = original.nonce;
+    request.chainId = original.chainId;
+    if (original.maxFeePerGas) {
+      const priorityFee = bumpFee(original.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas);
+      const maxFee = bumpFee(original.maxFeePerGas, feeData.maxFeePerGas);
+      request.maxPriorityFeePerGas = priorityFee;
+      request.maxFeePerGas = maxFee > priorityFee ? maxFee : priorityFee;
+    } else {
+      request.gasPrice = bumpFee(original.gasPrice, feeData.gasPrice);
+    }
+
+    const tx = await signer.sendTransaction(request);
+    return record(tx, {
+      type: mode === "cancel" ? "cancel" : original.type,
+      tokens: mode === "cancel" ? [] : original.tokens,
+      poolId: mode === "cancel" ? undefined : original.poolId,
+      replaces: original.hash,
+    });
+  };
+
+  return {
+    getState: getTransactions,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    onSettled: (listener) => {
+      settledListeners.add(listener);
+      return () => settledListeners.delete(listener);
+    },
+    record,
+    update: (hash, changes) => patch(hash, changes),
+    poll: async (provider, chainId) => {
+      if (polling) return;
+      polling = true;
+      try {
+        const pending = getTransactions().filter((tx) => tx.status === "pending" && tx.chainId === chainId);
+        for (const tx of pending) {
+          // Skip ones a previous check in this round already settled
+          if (getTransactions().find((item) => item.hash === tx.hash)?.status !== "pending") continue;
+          await checkPending(tx, provider).catch((error) => console.error(`Error checking ${tx.hash}:`, error));
+        }
+      } finally {
+        polling = false;
+      }
+    },
+    speedUp: (hash, signer) => replace(hash, signer, "speedUp"),
+    cancel: (hash, signer) => replace(hash, signer, "cancel"),
+    clearSettled: () => setTransactions(getTransactions().filter((tx) => tx.status === "pending")),
+  };
+}
+
+/** The store shared across the app. */
+export const transactionStore = createTransactionStore();
+
+// ---------------------------------------------------------------------------
+// Helpers for write calls
+// ---------------------------------------------------------------------------
+
+/**
+ * Record `tx` in the transaction store and wait for it to be mined.
+ * A sped-up replacement resolves with the replacement's receipt; a cancel or
+ * any other replacement rejects with `TRANSACTION_REPLACED`.
+ */
+export async function waitForTransaction(tx: TransactionResponse, meta: TransactionMeta) {
+  transactionStore.record(tx, meta);
+  try {
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`Transaction ${tx.hash} was not mined`);
+    return receipt;
+  } catch (error) {
+    if (isError(error, "TRANSACTION_REPLACED") && error.reason === "repriced") return error.receipt;
+    throw error;
+  }
+}
+
+/** Build a `TrackedToken` from a base-unit amount. */
+export const trackToken = (
+  address: string,
+  amount: bigint,
+  metadata?: { symbol?: string; decimals?: number },
+): TrackedToken => ({ address, amount: amount.toString(), symbol: metadata?.symbol, decimals: metadata?.decimals });
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  swap: "Swap",
+  addLiquidity: "Add liquidity",
+  removeLiquidity: "Remove liquidity",
+  createPool: "Create pool",
+  approve: "Approve",
+  revoke: "Revoke",
+  permit: "Permit",
+  wrap: "Wrap",
+  unwrap: "Unwrap",
+  ownership: "Ownership change",
+  cancel: "Cancel",
+};
+
+const formatTrackedToken = (token: TrackedToken) => {
+  const amount = Number(formatUnits(BigInt(token.amount), token.decimals ?? 18)).toLocaleString(undefined, {
+    maximumFractionDigits: 6,
+  });
+  return `${amount} ${token.symbol ?? shortenAddress(token.address)}`;
+};
+
+/**
+ * One-line summary such as "Swap 1.5 WETH → 4,210 USDC".
+ */
+export function describeTransaction(tx: TrackedTransaction): string {
+  const label = TYPE_LABELS[tx.type];
+  if (tx.type === "approve" || tx.type === "revoke" || tx.type === "permit") {
+    const [token] = tx.tokens;
+    return token ? `${label} ${token.symbol ?? shortenAddress(token.address)}` : label;
+  }
+  if (tx.tokens.length === 0) return tx.poolId ? `${label} · pool ${shortenAddress(tx.poolId, 4)}` : label;
+  const separator = tx.type === "swap" ? " → " : " + ";
+  return `${label} ${tx.tokens.map(formatTrackedToken).join(separator)}`;
+}
@@ -0,0 +1,198 @@
+import type { TokenMetadata } from "@/lib/amm-events";
+import { getAmmActivity, type AmmActivity } from "@/lib/amm-activity";
+import { getQuoteToken, quoteValue } from "@/lib/pool-analytics";
+import type { PoolEvents } from "@/lib/pool-history";
+import { getTokenPrice, type PriceMap } from "@/lib/price-oracle";
+import { LP_TOKEN, amountToNumber, toAmountInput, tokenAmount, type AmountToken } from "@/lib/token-amount";
+
+/**
+ * A wallet's AMM activity as flat records for display and accounting export.
+ *
+ * "In" is what the wallet paid into the pool and "out" what it received: a
+ * swap pays one token for another, adding liquidity pays both pool tokens for
+ * LP tokens and removing liquidity does the reverse. A swap someone else paid
+ * for with this wallet as recipient is a receipt, with only the "out" leg.
+ * The USD value is the pool-token side of the action at the rate it executed
+ * at, in the pair's better-anchored token converted at that token's USD price
+ * as of the action's block.
+ */
+
+export type HistoryAction = "swap" | "receive" | "add_liquidity" | "remove_liquidity" | "create_pool";
+
+export type HistoryRecord = {
+  /** ISO 8601 block time, or null while it is being read. */
+  timestamp: string | null;
+  chain: string;
+  txHash: string;
+  action: HistoryAction;
+  poolId: string;
+  tokenIn: string;
+  amountIn: string;
+  tokenIn2: string;
+  amountIn2: string;
+  tokenOut: string;
+  amountOut: string;
+  tokenOut2: string;
+  amountOut2: string;
+  usdValue: number | null;
+  blockNumber: number;
+  logIndex: number;
+};
+
+/** Export columns, in order. Append new ones at the end to keep exports stable. */
+export const HISTORY_COLUMNS = [
+  ["timestamp", "timestamp"],
+  ["chain", "chain"],
+  ["tx_hash", "txHash"],
+  ["action", "action"],
+  ["pool_id", "poolId"],
+  ["token_in", "tokenIn"],
+  ["amount_in", "amountIn"],
+  ["token_in_2", "tokenIn2"],
+  ["amount_in_2", "amountIn2"],
+  ["token_out", "tokenOut"],
+  ["amount_out", "amountOut"],
+  ["token_out_2", "tokenOut2"],
+  ["amount_out_2", "amountOut2"],
+  ["usd_value", "usdValue"],
+  ["block_number", "blockNumber"],
+] as const satisfies readonly (readonly [string, keyof HistoryRecord])[];
+
+const ACTIONS: Record<AmmActivity["type"], HistoryAction> = {
+  Swap: "swap",
+  LiquidityAdded: "add_liquidity",
+  LiquidityRemoved: "remove_liquidity",
+  PoolCreated: "create_pool",
+};
+
+type Leg = { token: AmountToken; raw: bigint };
+
+/**
+ * History records of `account`, newest first. `metadata` is keyed by lowercase
+ * token address; `prices` and `timestamps` by block number.
+ */
+export function getWalletHistory({
+  events,
+  account,
+  chainId,
+  chain,
+  metadata,
+  prices,
+  timestamps,
+}: {
+  events: PoolEvents;
+  account: string;
+  chainId: number;
+  chain: string;
+  metadata: ReadonlyMap<string, TokenMetadata>;
+  prices: ReadonlyMap<number, PriceMap> | null;
+  timestamps: ReadonlyMap<number, number>;
+}): HistoryRecord[] {
+  const pools = new Map(events.pools.map((event) => [event.poolId.toLowerCase(), event]));
+  const owner = account.toLowerCase();
+
+  return getAmmActivity(events, { account }).flatMap((item): HistoryRecord[] => {
+    const pool = pools.get(item.poolId.toLowerCase());
+    const token0 = pool ? metadata.get(pool.token0.toLowerCase()) : undefined;
+    const token1 = pool ? metadata.get(pool.token1.toLowerCase()) : undefined;
+    if (!pool || !token0 || !token1) return [];
+
+    const blockPrices = prices?.get(item.blockNumber);
+    const quote = blockPrices
+      ? getQuoteToken(
+          getTokenPrice(blockPrices, token0.address, chainId),
+          getTokenPrice(blockPrices, token1.address, chainId),
+        )
+      : null;
+    let action = ACTIONS[item.type];
+    let paid: Leg[];
+    let received: Leg[];
+    let amount0: bigint;
+    let amount1: bigint;
+    if (item.type === "Swap") {
+      const zeroForOne = item.tokenIn.toLowerCase() === pool.token0.toLowerCase();
+      const [tokenIn, tokenOut] = zeroForOne ? [token0, token1] : [token1, token0];
+      // Paid for by someone else: the wallet only received the output
+      if (item.account.toLowerCase() !== owner) action = "receive";
+      paid = action === "receive" ? [] : [{ token: tokenIn, raw: item.amountIn }];
+      received = [{ token: tokenOut, raw: item.amountOut }];
+      [amount0, amount1] = zeroForOne ? [item.amountIn, item.amountOut] : [item.amountOut, item.amountIn];
+    } else {
+      const pair = [
+        { token: token0, raw: item.amount0 },
+        { token: token1, raw: item.amount1 },
+      ];
+      const lp = [{ token: LP_TOKEN, raw: item.liquidity }];
+      [paid, received] = item.type === "LiquidityRemoved" ? [lp, pair] : [pair, lp];
+      [amount0, amount1] = [item.amount0, item.amount1];
+    }
+
+    const whole0 = amountToNumber(tokenAmount(token0, amount0));
+    const whole1 = amountToNumber(tokenAmount(token1, amount1));
+    // A swap is worth its quote-token leg; liquidity is worth both legs at the rate it was added or removed at
+    const usdValue =
+      !quote || whole0 === 0 || whole1 === 0
+        ? null
+        : (item.type === "Swap"
+            ? quote.side === 1
+              ? whole1
+              : whole0
+            : quoteValue(quote.side, whole0, whole1, whole1 / whole0)) * quote.usd;
+    const timestamp = timestamps.get(item.blockNumber);
+    const leg = (legs: Leg[], index: number) => {
+      const entry = legs[index];
+      return entry
+        ? { token: entry.token.symbol, amount: toAmountInput(tokenAmount(entry.token, entry.raw)) }
+        : { token: "", amount: "" };
+    };
+    const [in1, in2, out1, out2] = [leg(paid, 0), leg(paid, 1), leg(received, 0), leg(received, 1)];
+
+    return [
+      {
+        timestamp: timestamp === undefined ? null : new Date(timestamp * 1000).toISOString(),
+        chain,
+        txHash: item.transactionHash,
+        action,
+        poolId: item.poolId,
+        tokenIn: in1.token,
+        amountIn: in1.amount,
+        tokenIn2: in2.token,
+        amountIn2: in2.amount,
+        tokenOut: out1.token,
+        amountOut: out1.amount,
+        tokenOut2: out2.token,
+        amountOut2: out2.amount,
+        usdValue,
+        blockNumber: item.blockNumber,
+        logIndex: item.logIndex,
+      },
+    ];
+  });
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  // Token symbols are set by whoever deployed the token: keep spreadsheets from running them as formulas
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Records as CSV with a header row of `HISTORY_COLUMNS`.
+ */
+export function historyToCsv(records: readonly HistoryRecord[]): string {
+  const header = HISTORY_COLUMNS.map(([column]) => column).join(",");
+  const rows = records.map((record) => HISTORY_COLUMNS.map(([, key]) => csvCell(record[key])).join(","));
+  return [header, ...rows].join("\n") + "\n";
+}
+
+/**
+ * Records as a JSON array of objects keyed by `HISTORY_COLUMNS`.
+ */
+export function historyToJson(records: readonly HistoryRecord[]): string {
+  return JSON.stringify(
+    records.map((record) => Object.fromEntries(HISTORY_COLUMNS.map(([column, key]) => [column, record[key]]))),
+    null,
+    2,
+  );
+}
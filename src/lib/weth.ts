@@ -0,0 +1,74 @@
+import { Contract, type ContractRunner, type JsonRpcSigner } from "ethers";
+
+import { WETH_ADDRESSES } from "@/config/constants";
+import { NATIVE_TOKEN_ADDRESS, isNativeToken } from "@/lib/amm";
+import { trackToken, waitForTransaction } from "@/lib/transactions";
+import { getFeeOverrides } from "@/lib/gas";
+
+/**
+ * Native ETH support. The AMM only moves ERC20 tokens, so ETH is wrapped into
+ * the chain's WETH before it reaches a pool and unwrapped on the way out.
+ */
+
+const WETH_ABI = [
+  "function deposit() payable",
+  "function withdraw(uint256 amount)",
+  "function balanceOf(address owner) view returns (uint256)",
+];
+
+const getWethContract = (wethAddress: string, runner: ContractRunner) => new Contract(wethAddress, WETH_ABI, runner);
+
+/**
+ * WETH address for a chain, or null when native ETH is not supported there.
+ */
+export function getWethAddress(chainId: number | undefined): string | null {
+  return chainId ? (WETH_ADDRESSES[chainId] ?? null) : null;
+}
+
+export function isWeth(tokenAddress: string, chainId: number | undefined): boolean {
+  const weth = getWethAddress(chainId);
+  return !!weth && weth.toLowerCase() === tokenAddress.toLowerCase();
+}
+
+/**
+ * Map the native ETH sentinel to the chain's WETH so quotes and routes use the
+ * WETH pools. Other tokens are returned unchanged.
+ */
+export function resolvePoolToken(tokenAddress: string, chainId: number | undefined): string {
+  if (!isNativeToken(tokenAddress)) return tokenAddress;
+  const weth = getWethAddress(chainId);
+  if (!weth) throw new Error(`Native ETH is not supported on chain ${chainId}`);
+  return weth;
+}
+
+/**
+ * True when the pair is ETH ⇄ WETH, which settles 1:1 through the WETH
+ * contract instead of a pool.
+ */
+export function isWrapPair(tokenA: string, tokenB: string, chainId: number | undefined): boolean {
+  return (isNativeToken(tokenA) && isWeth(tokenB, chainId)) || (isWeth(tokenA, chainId) && isNativeToken(tokenB));
+}
+
+/**
+ * Wrap `amount` of native ETH into WETH.
+ */
+export async function wrapEth(amount: bigint, wethAddress: string, signer: JsonRpcSigner) {
+  const weth = getWethContract(wethAddress, signer);
+  const overrides = await getFeeOverrides(signer);
+  return waitForTransaction(await weth.deposit({ value: amount, ...overrides }), {
+    type: "wrap",
+    tokens: [trackToken(NATIVE_TOKEN_ADDRESS, amount, { symbol: "ETH", decimals: 18 })],
+  });
+}
+
+/**
+ * Unwrap `amount` of WETH back into native ETH.
+ */
+export async function unwrapEth(amount: bigint, wethAddress: string, signer: JsonRpcSigner) {
+  const weth = getWethContract(wethAddress, signer);
+  const overrides = await getFeeOverrides(signer);
+  return waitForTransaction(await weth.withdraw(amount, overrides), {
+    type: "unwrap",
+    tokens: [trackToken(wethAddress, amount, { symbol: "WETH", decimals: 18 })],
+  });
+}